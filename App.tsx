@@ -1,16 +1,59 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Mic, Info, Home, List, Target } from 'lucide-react';
-import { ProcessAudioService, type ApiDebugInfo } from './services/processAudioService';
+import { Mic, Info, Home, List, Target, Keyboard, Camera, Check, BookMarked, History, CookingPot } from 'lucide-react';
+import {
+  ProcessAudioService,
+  type ApiDebugInfo,
+  type FoodCorrection,
+  type FoodPlacement,
+  type LoggedDrink,
+  type MealRepeat,
+} from './services/processAudioService';
+import { resizeImageForUpload } from './services/imageUtils';
 import Visualizer from './components/Visualizer';
 import FoodTable from './components/FoodTable';
 import Dashboard from './components/Dashboard';
 import Goals from './components/Goals.tsx';
+import FoodLibrary from './components/FoodLibrary';
+import Recipes from './components/Recipes';
+import MealPicker from './components/MealPicker';
+import BatchPicker from './components/BatchPicker';
 import AuthScreen from './components/AuthScreen';
-import { FoodItem, DailyStats, MealGroup, NutritionGoals } from './types';
+import TextMealInput from './components/TextMealInput';
+import FoodReview, { type ReviewFood } from './components/FoodReview';
+import Settings from './components/Settings';
+import ClarificationPrompt from './components/ClarificationPrompt';
+import {
+  CustomFood,
+  FoodBatch,
+  FoodItem,
+  FoodEstimate,
+  DailyStats,
+  LIMIT_NUTRIENT_KEYS,
+  MealGroup,
+  MealType,
+  NutritionGoals,
+  OriginalEstimate,
+  Recipe,
+  RecipeIngredient,
+  UserSettings,
+  WaterEntry,
+} from './types';
 import { supabase } from './lib/supabase';
-import { nutritionRepository, type NutritionSnapshot } from './data/nutritionRepository';
+import { rescaleQuantity, resolveQuantity } from './lib/units';
+import { normalizeDriProfile } from './lib/dri';
+import { batchPortion, batchRemaining, isBatchUsedUp } from './lib/batches';
+import { perServing, toRecipeIngredient } from './lib/recipes';
+import {
+  normalizeMicronutrientGoals,
+  normalizeMicronutrients,
+  scaleMicronutrients,
+  sumMicronutrients,
+  type Micronutrients,
+} from './lib/micronutrients';
+import { DEFAULT_USER_SETTINGS, nutritionRepository, type NutritionSnapshot } from './data/nutritionRepository';
 
 const isTestingMode = import.meta.env.VITE_TESTING_MODE === 'true';
+const llmFixture = import.meta.env.VITE_LLM_FIXTURE?.trim() || undefined;
 const ITEMS_STORAGE_KEY = 'nutrivoice-items';
 const MEALS_STORAGE_KEY = 'nutrivoice-meals';
 const LANGUAGE_STORAGE_KEY = 'nutrivoice-language';
@@ -45,12 +88,40 @@ const UI_TEXT = {
     today: 'Today',
     history: 'History',
     goals: 'Goals',
+    library: 'Library',
     previousDay: 'Previous day',
     nextDay: 'Next day',
     jumpToToday: 'Today',
     noMealsForDate: 'No meals logged for this date.',
     stopVoiceRecording: 'Stop voice recording',
     startVoiceRecording: 'Start voice recording',
+    typeMeal: 'Type',
+    typeMealAria: 'Type what you ate',
+    photoMeal: 'Photo',
+    photoMealAria: 'Log a meal from a photo',
+    recentMeals: 'Recent',
+    recentMealsAria: 'Log a recent or favorite meal again',
+    mealRelogged: 'Logged again',
+    noMealToRepeat: 'No matching meal to repeat',
+    recipeServingLogged: 'Logged 1 serving',
+    leftovers: 'Leftovers',
+    leftoversAria: 'Log a portion of a cooked batch',
+    batchPortionLogged: 'Logged from batch',
+    batchPortionInvalid: 'Could not compare this portion with the batch amount',
+    batchAlmostGone: 'Less than a portion left of',
+    batchUsedUp: 'Batch used up',
+    batchOverdrawn: 'Logged more than was left of',
+    skippedItems: 'Skipped',
+    sessionExpired: 'Your session expired. Sign in again to keep logging meals.',
+    loggedTo: 'Logged to',
+    correctionUpdated: 'Updated',
+    correctionRemoved: 'Removed',
+    estimateUpdated: 'Estimate updated',
+    quotaLeft: 'left',
+    perMinute: 'per min',
+    perDay: 'per 24h',
+    rejected: 'rejected',
+    waterLogged: 'Water',
   },
   'pt-BR': {
     languageLabel: 'Idioma',
@@ -75,28 +146,89 @@ const UI_TEXT = {
     today: 'Hoje',
     history: 'Historico',
     goals: 'Metas',
+    library: 'Biblioteca',
     previousDay: 'Dia anterior',
     nextDay: 'Proximo dia',
     jumpToToday: 'Hoje',
     noMealsForDate: 'Nenhuma refeicao registrada nesta data.',
     stopVoiceRecording: 'Parar gravacao de voz',
     startVoiceRecording: 'Iniciar gravacao de voz',
+    typeMeal: 'Digitar',
+    typeMealAria: 'Digite o que voce comeu',
+    photoMeal: 'Foto',
+    photoMealAria: 'Registrar refeicao por foto',
+    recentMeals: 'Recentes',
+    recentMealsAria: 'Registrar de novo uma refeicao recente ou favorita',
+    mealRelogged: 'Registrado de novo',
+    recipeServingLogged: 'Registrada 1 porcao',
+    leftovers: 'Sobras',
+    leftoversAria: 'Registrar uma porcao de um preparo',
+    batchPortionLogged: 'Registrado do preparo',
+    batchPortionInvalid: 'Nao foi possivel comparar esta porcao com a quantidade do preparo',
+    batchAlmostGone: 'Resta menos de uma porcao de',
+    batchUsedUp: 'Preparo acabou',
+    batchOverdrawn: 'Registrado mais do que restava de',
+    noMealToRepeat: 'Nenhuma refeicao correspondente para repetir',
+    skippedItems: 'Ignorados',
+    sessionExpired: 'Sua sessao expirou. Entre novamente para continuar registrando refeicoes.',
+    loggedTo: 'Registrado em',
+    correctionUpdated: 'Atualizado',
+    correctionRemoved: 'Removido',
+    estimateUpdated: 'Estimativa atualizada',
+    quotaLeft: 'restam',
+    perMinute: 'por min',
+    perDay: 'em 24h',
+    rejected: 'rejeitados',
+    waterLogged: 'Agua',
   },
 } as const;
 
-type StoredFoodItem = Omit<FoodItem, 'timestamp'> & {
+type StoredFoodItem = Omit<FoodItem, 'timestamp' | 'micronutrients'> & {
   timestamp: string | Date;
   mealId?: string;
+  /** Free text before micronutrients were typed. */
+  micronutrients?: Micronutrients | string;
 };
 type StoredMealGroup = Omit<MealGroup, 'createdAt'> & { createdAt: string | Date };
 type AuthMode = 'signIn' | 'signUp';
 type AuthAction = AuthMode | 'google' | null;
 
-const formatMealLabel = (date: Date, language: SupportedLanguageCode = 'en-US'): string => {
+const MEAL_TYPE_LABELS: Record<SupportedLanguageCode, Record<MealType, string>> = {
+  'en-US': { breakfast: 'Breakfast', lunch: 'Lunch', dinner: 'Dinner', snack: 'Snack' },
+  'pt-BR': { breakfast: 'Cafe da manha', lunch: 'Almoco', dinner: 'Jantar', snack: 'Lanche' },
+};
+
+const formatMealLabel = (date: Date, language: SupportedLanguageCode = 'en-US', mealType?: MealType): string => {
+  if (mealType) return MEAL_TYPE_LABELS[language][mealType];
   const time = date.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' });
   return language === 'pt-BR' ? `Refeicao ${time}` : `Meal ${time}`;
 };
 
+/** Typical clock time for a named meal when the user gave no time. */
+const DEFAULT_MEAL_TIMES: Record<MealType, [number, number]> = {
+  breakfast: [8, 0],
+  lunch: [12, 30],
+  snack: [16, 0],
+  dinner: [19, 30],
+};
+
+const hasPlacement = (placement?: FoodPlacement): boolean =>
+  !!placement && (placement.mealType !== undefined || (placement.dayOffset ?? 0) !== 0 || placement.time !== undefined);
+
+/** Where "for breakfast yesterday" lands: that day at the stated or typical time, never in the future. */
+const resolvePlacementDate = (placement: FoodPlacement, now = new Date()): Date => {
+  const date = new Date(now);
+  date.setDate(date.getDate() + (placement.dayOffset ?? 0));
+  if (placement.time) {
+    const [hours, minutes] = placement.time.split(':').map(Number);
+    date.setHours(hours, minutes, 0, 0);
+  } else if (placement.mealType) {
+    const [hours, minutes] = DEFAULT_MEAL_TIMES[placement.mealType];
+    date.setHours(hours, minutes, 0, 0);
+  }
+  return date > now ? now : date;
+};
+
 const startOfLocalDay = (date: Date): Date => {
   const normalized = new Date(date);
   normalized.setHours(0, 0, 0, 0);
@@ -108,47 +240,12 @@ const isSameCalendarDay = (a: Date, b: Date): boolean =>
   && a.getMonth() === b.getMonth()
   && a.getDate() === b.getDate();
 
-const parseQuantityAmount = (quantity: string): number | null => {
-  const normalized = quantity.trim().toLowerCase();
-  if (!normalized) return null;
-
-  const mixedFractionMatch = normalized.match(/(\d+)\s+(\d+)\/(\d+)/);
-  if (mixedFractionMatch) {
-    const whole = Number(mixedFractionMatch[1]);
-    const numerator = Number(mixedFractionMatch[2]);
-    const denominator = Number(mixedFractionMatch[3]);
-    if (denominator > 0) return whole + numerator / denominator;
-  }
-
-  const fractionMatch = normalized.match(/(\d+)\/(\d+)/);
-  if (fractionMatch) {
-    const numerator = Number(fractionMatch[1]);
-    const denominator = Number(fractionMatch[2]);
-    if (denominator > 0) return numerator / denominator;
-  }
-
-  const decimalMatch = normalized.match(/(\d+(?:[.,]\d+)?)/);
-  if (!decimalMatch) return null;
-
-  const value = Number(decimalMatch[1].replace(',', '.'));
-  return Number.isFinite(value) && value > 0 ? value : null;
-};
-
 const formatScaledNumber = (value: number): string => {
   const rounded = Math.round(value * 10) / 10;
   return Number.isInteger(rounded) ? String(Math.trunc(rounded)) : String(rounded);
 };
 
-const scaleMicronutrientsText = (micronutrients: string | undefined, factor: number): string | undefined => {
-  if (!micronutrients) return micronutrients;
-  return micronutrients.replace(/\d+(?:[.,]\d+)?/g, (raw) => {
-    const parsed = Number(raw.replace(',', '.'));
-    if (!Number.isFinite(parsed)) return raw;
-    return formatScaledNumber(parsed * factor);
-  });
-};
-
-const scaleFoodNutrition = (item: FoodItem, factor: number): FoodItem => {
+const scaleFoodNutrition = <T extends FoodEstimate>(item: T, factor: number): T => {
   const safeFactor = Number.isFinite(factor) && factor > 0 ? factor : 1;
   return {
     ...item,
@@ -157,7 +254,56 @@ const scaleFoodNutrition = (item: FoodItem, factor: number): FoodItem => {
     carbs: Math.max(0, Number(formatScaledNumber(item.carbs * safeFactor))),
     fat: Math.max(0, Number(formatScaledNumber(item.fat * safeFactor))),
     fiber: Math.max(0, Number(formatScaledNumber(item.fiber * safeFactor))),
-    micronutrients: scaleMicronutrientsText(item.micronutrients, safeFactor),
+    sodium: item.sodium != null ? Math.max(0, Math.round(item.sodium * safeFactor)) : undefined,
+    addedSugar: item.addedSugar != null ? Math.max(0, Number(formatScaledNumber(item.addedSugar * safeFactor))) : undefined,
+    saturatedFat: item.saturatedFat != null
+      ? Math.max(0, Number(formatScaledNumber(item.saturatedFat * safeFactor)))
+      : undefined,
+    micronutrients: item.micronutrients && scaleMicronutrients(item.micronutrients, safeFactor),
+  };
+};
+
+/** The values an item was logged with; once it has been edited, the ones from before the first edit. */
+const getOriginalEstimate = (item: FoodItem): OriginalEstimate =>
+  item.originalEstimate ?? {
+    quantity: item.quantity,
+    calories: item.calories,
+    protein: item.protein,
+    carbs: item.carbs,
+    fat: item.fat,
+    fiber: item.fiber,
+  };
+
+type FoodItemPatch = Parameters<typeof nutritionRepository.updateFoodItem>[2];
+
+/**
+ * The update for a new quantity: nutrients rescaled when the old and new quantities compare (same unit, or
+ * both convertible to grams), else the numbers kept as they are ("1 bowl" → "2 cups" of an unknown food).
+ * A new portion keeps the per-unit values, so it is not recorded as a correction (see editItemNutrition).
+ */
+const buildQuantityPatch = (item: FoodItem, quantity: string): FoodItemPatch => {
+  const previous = item.measure ?? resolveQuantity(item.quantity, item.name, item.portionGrams);
+  const rescaled = previous ? rescaleQuantity(previous, quantity, item.name) : null;
+  if (!rescaled) {
+    return { quantity, measure: resolveQuantity(quantity, item.name), batchAmount: item.batchAmount };
+  }
+  const scaled = scaleFoodNutrition(item, rescaled.factor);
+  return {
+    quantity,
+    measure: rescaled.quantity,
+    calories: scaled.calories,
+    protein: scaled.protein,
+    carbs: scaled.carbs,
+    fat: scaled.fat,
+    fiber: scaled.fiber,
+    sodium: scaled.sodium,
+    addedSugar: scaled.addedSugar,
+    saturatedFat: scaled.saturatedFat,
+    micronutrients: scaled.micronutrients,
+    // A batch portion uses more or less of its batch.
+    batchAmount: item.batchAmount != null
+      ? Math.round(item.batchAmount * rescaled.factor * 1000) / 1000
+      : undefined,
   };
 };
 
@@ -181,6 +327,7 @@ const loadLocalPersistedData = (): { items: FoodItem[]; meals: MealGroup[] } =>
         return {
           ...item,
           mealId: legacyMealId,
+          micronutrients: normalizeMicronutrients(item.micronutrients),
           timestamp: new Date(item.timestamp),
         };
       }
@@ -188,6 +335,7 @@ const loadLocalPersistedData = (): { items: FoodItem[]; meals: MealGroup[] } =>
       return {
         ...item,
         mealId: item.mealId,
+        micronutrients: normalizeMicronutrients(item.micronutrients),
         timestamp: new Date(item.timestamp),
       };
     });
@@ -225,6 +373,7 @@ const loadLocalPersistedGoals = (): NutritionGoals => {
     const rawGoals = localStorage.getItem(GOALS_STORAGE_KEY);
     if (!rawGoals) return {};
     const parsed = JSON.parse(rawGoals) as Partial<Record<keyof NutritionGoals, unknown>>;
+    const profile = (parsed.driProfile ?? {}) as Record<string, unknown>;
     const toOptionalNumber = (value: unknown): number | undefined => {
       if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return undefined;
       return value;
@@ -236,6 +385,12 @@ const loadLocalPersistedGoals = (): NutritionGoals => {
       carbs: toOptionalNumber(parsed.carbs),
       fat: toOptionalNumber(parsed.fat),
       fiber: toOptionalNumber(parsed.fiber),
+      sodium: toOptionalNumber(parsed.sodium),
+      addedSugar: toOptionalNumber(parsed.addedSugar),
+      saturatedFat: toOptionalNumber(parsed.saturatedFat),
+      water: toOptionalNumber(parsed.water),
+      micronutrients: normalizeMicronutrientGoals(parsed.micronutrients),
+      driProfile: normalizeDriProfile(profile.sex, profile.age),
     };
   } catch (e) {
     console.error('Failed to load local goals', e);
@@ -268,6 +423,9 @@ const App: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isTextInputOpen, setIsTextInputOpen] = useState(false);
+  const [isMealPickerOpen, setIsMealPickerOpen] = useState(false);
+  const [isBatchPickerOpen, setIsBatchPickerOpen] = useState(false);
   const [amplitude, setAmplitude] = useState(0);
   const [transcript, setTranscript] = useState("");
   /** In testing mode: log of what the user said (no LLM); last entry is most recent. */
@@ -283,18 +441,45 @@ const App: React.FC = () => {
   const [items, setItems] = useState<FoodItem[]>([]);
   const [meals, setMeals] = useState<MealGroup[]>([]);
   const [goals, setGoals] = useState<NutritionGoals>({});
-  const [activeTab, setActiveTab] = useState<'today' | 'history' | 'goals'>('today');
+  /** Today's hydration log, newest first. */
+  const [waterEntries, setWaterEntries] = useState<WaterEntry[]>([]);
+  /** The user's food library, most recently updated first. */
+  const [customFoods, setCustomFoods] = useState<CustomFood[]>([]);
+  /** The user's recipes, most recently updated first. */
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  /** Cooked batches not cleared yet, newest first. */
+  const [batches, setBatches] = useState<FoodBatch[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  /** Foods from the last request waiting in the review sheet (review-before-save mode). */
+  const [reviewDraft, setReviewDraft] = useState<{ foods: ReviewFood[]; transcript: string } | null>(null);
+  const [activeTab, setActiveTab] = useState<'today' | 'history' | 'goals' | 'library'>('today');
   const [selectedHistoryDate, setSelectedHistoryDate] = useState<Date>(() => startOfLocalDay(new Date()));
 
   const [liveService, setLiveService] = useState<ProcessAudioService | null>(null);
   const [error, setError] = useState<string | null>(null);
+  /** Short-lived confirmation, e.g. after a spoken correction was applied. */
+  const [notice, setNotice] = useState<string | null>(null);
   /** Last API result for production debugging (visible on mobile). */
   const [lastDebug, setLastDebug] = useState<ApiDebugInfo | null>(null);
   const serviceRef = useRef<ProcessAudioService | null>(null);
   const isTransitioningRef = useRef(false);
   const lastTranscriptRef = useRef('');
   const activeRecordingMealIdRef = useRef<string | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
   const recordingFoodsCountRef = useRef(0);
+  /** Latest today's items and correction handler, read by services created before they changed. */
+  const todayItemsRef = useRef<FoodItem[]>([]);
+  const mealsRef = useRef<MealGroup[]>([]);
+  /**
+   * Groups used for placed foods during the current request, keyed by day + meal type. `saved` resolves once
+   * the group row exists, so later foods of the same request never insert ahead of it.
+   */
+  const placedMealsRef = useRef(new Map<string, { id: string; saved: Promise<void> }>());
+  const applyFoodCorrectionRef = useRef<(correction: FoodCorrection) => void>(() => {});
+  const logWaterRef = useRef<(drink: LoggedDrink) => void>(() => {});
+  const repeatMealRef = useRef<(repeat: MealRepeat) => void>(() => {});
+  /** Foods collected during the current request while review mode is on; handed to the review sheet on close. */
+  const draftFoodsRef = useRef<ReviewFood[]>([]);
   const t = UI_TEXT[selectedLanguage];
 
   useEffect(() => {
@@ -330,6 +515,12 @@ const App: React.FC = () => {
       setItems([]);
       setMeals([]);
       setGoals({});
+      setWaterEntries([]);
+      setCustomFoods([]);
+      setRecipes([]);
+      setBatches([]);
+      setSettings(DEFAULT_USER_SETTINGS);
+      setReviewDraft(null);
       setIsDataLoading(false);
       return;
     }
@@ -353,10 +544,22 @@ const App: React.FC = () => {
           localStorage.setItem(SUPABASE_IMPORT_DONE_KEY, 'true');
           snapshot = await nutritionRepository.loadInitialData(sessionUserId);
         }
+        const [userSettings, water, library, savedRecipes, openBatches] = await Promise.all([
+          nutritionRepository.loadSettings(sessionUserId),
+          nutritionRepository.loadWaterEntries(sessionUserId, startOfLocalDay(new Date())),
+          nutritionRepository.loadCustomFoods(sessionUserId),
+          nutritionRepository.loadRecipes(sessionUserId),
+          nutritionRepository.loadOpenBatches(sessionUserId),
+        ]);
         if (!isMounted) return;
         setItems(snapshot.items);
         setMeals(snapshot.meals);
         setGoals(snapshot.goals);
+        setWaterEntries(water);
+        setCustomFoods(library);
+        setRecipes(savedRecipes);
+        setBatches(openBatches);
+        setSettings(userSettings);
       } catch (e) {
         console.error(e);
         if (!isMounted) return;
@@ -398,6 +601,23 @@ const App: React.FC = () => {
     return items.filter((item) => isSameCalendarDay(item.timestamp, today));
   }, [items]);
 
+  useEffect(() => {
+    todayItemsRef.current = todayItems;
+  }, [todayItems]);
+
+  useEffect(() => {
+    mealsRef.current = meals;
+  }, [meals]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 5000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  /** Newest of today's foods still waiting for an answer to its follow-up question. */
+  const pendingClarification = useMemo(() => todayItems.find((item) => item.clarification) ?? null, [todayItems]);
+
   const todayMealIds = useMemo(() => new Set(todayItems.map((item) => item.mealId)), [todayItems]);
 
   const todayMeals = useMemo(
@@ -450,29 +670,82 @@ const App: React.FC = () => {
 
   // Calculate today's stats
   const stats: DailyStats = useMemo(() => {
-    return todayItems.reduce((acc, item) => ({
+    const totals = todayItems.reduce((acc, item) => ({
       totalCalories: acc.totalCalories + item.calories,
       totalProtein: acc.totalProtein + item.protein,
       totalCarbs: acc.totalCarbs + item.carbs,
       totalFat: acc.totalFat + item.fat,
       totalFiber: acc.totalFiber + (item.fiber || 0),
-    }), { totalCalories: 0, totalProtein: 0, totalCarbs: 0, totalFat: 0, totalFiber: 0 });
+      totalSodium: acc.totalSodium + (item.sodium || 0),
+      totalAddedSugar: acc.totalAddedSugar + (item.addedSugar || 0),
+      totalSaturatedFat: acc.totalSaturatedFat + (item.saturatedFat || 0),
+    }), {
+      totalCalories: 0,
+      totalProtein: 0,
+      totalCarbs: 0,
+      totalFat: 0,
+      totalFiber: 0,
+      totalSodium: 0,
+      totalAddedSugar: 0,
+      totalSaturatedFat: 0,
+    });
+    return { ...totals, micronutrients: sumMicronutrients(todayItems.map((item) => item.micronutrients)) };
   }, [todayItems]);
 
-  const createMealGroup = useCallback((createdAt = new Date()): MealGroup => {
+  // Sodium, added sugar and saturated fat columns only appear once the user set a limit for them.
+  const limitColumns = useMemo(() => LIMIT_NUTRIENT_KEYS.filter((key) => goals[key] != null), [goals]);
+
+  const createMealGroup = useCallback((createdAt = new Date(), mealType?: MealType): MealGroup => {
     const meal: MealGroup = {
       id: crypto.randomUUID(),
-      label: formatMealLabel(createdAt, selectedLanguage),
+      label: formatMealLabel(createdAt, selectedLanguage, mealType),
       createdAt,
+      mealType,
     };
     setMeals((prev) => [meal, ...prev]);
     return meal;
   }, [selectedLanguage]);
 
-  const handleFoodLogged = useCallback((foodData: Omit<FoodItem, 'id' | 'timestamp' | 'mealId'>) => {
+  /**
+   * Meal for a food the user placed ("for breakfast yesterday"): the same-day meal of that type if one
+   * exists, else the group already used for this placement during the request, else a new group.
+   */
+  const findOrCreatePlacedMeal = useCallback((placement: FoodPlacement, timestamp: Date) => {
+    const key = `${startOfLocalDay(timestamp).toISOString()}|${placement.mealType ?? placement.time ?? ''}`;
+    const known = placedMealsRef.current.get(key);
+    if (known) return { mealId: known.id, created: null, saved: known.saved };
+    const existing = placement.mealType
+      ? mealsRef.current.find((meal) => meal.mealType === placement.mealType && isSameCalendarDay(meal.createdAt, timestamp))
+      : undefined;
+    if (existing) {
+      const saved = Promise.resolve();
+      placedMealsRef.current.set(key, { id: existing.id, saved });
+      return { mealId: existing.id, created: null, saved };
+    }
+    const created = createMealGroup(timestamp, placement.mealType);
+    const snippet = lastTranscriptRef.current.trim();
+    if (snippet) created.transcriptSnippet = snippet.slice(0, 120);
+    const saved = sessionUserId ? nutritionRepository.insertMeal(sessionUserId, created) : Promise.resolve();
+    placedMealsRef.current.set(key, { id: created.id, saved });
+    return { mealId: created.id, created, saved };
+  }, [createMealGroup, sessionUserId]);
+
+  const handleFoodLogged = useCallback((foodData: Omit<FoodItem, 'id' | 'timestamp' | 'mealId'>, placement?: FoodPlacement) => {
     let mealId = activeRecordingMealIdRef.current;
     let newlyCreatedMeal: MealGroup | null = null;
-    if (!mealId) {
+    let placedMealSaved: Promise<void> | null = null;
+    let timestamp = new Date();
+    if (placement && hasPlacement(placement)) {
+      timestamp = resolvePlacementDate(placement, timestamp);
+      const placed = findOrCreatePlacedMeal(placement, timestamp);
+      mealId = placed.mealId;
+      newlyCreatedMeal = placed.created;
+      placedMealSaved = placed.saved;
+      if (!isSameCalendarDay(timestamp, new Date())) {
+        const day = timestamp.toLocaleDateString(selectedLanguage, { weekday: 'short', day: 'numeric', month: 'short' });
+        setNotice(`${t.loggedTo}: ${formatMealLabel(timestamp, selectedLanguage, placement.mealType)}, ${day}`);
+      }
+    } else if (!mealId) {
       newlyCreatedMeal = createMealGroup();
       mealId = newlyCreatedMeal.id;
     }
@@ -480,14 +753,17 @@ const App: React.FC = () => {
       ...foodData,
       id: crypto.randomUUID(),
       mealId,
-      timestamp: new Date(),
+      timestamp,
     };
-    recordingFoodsCountRef.current += 1;
+    // Only foods in the request's own group keep it alive; placed foods leave it empty (and deleted on close).
+    if (mealId === activeRecordingMealIdRef.current) recordingFoodsCountRef.current += 1;
     setItems((prev) => [newItem, ...prev]);
     if (!sessionUserId) return;
     void (async () => {
       try {
-        if (newlyCreatedMeal) {
+        if (placedMealSaved) {
+          await placedMealSaved;
+        } else if (newlyCreatedMeal) {
           await nutritionRepository.insertMeal(sessionUserId, newlyCreatedMeal);
         }
         await nutritionRepository.insertFoodItem(sessionUserId, newItem);
@@ -501,7 +777,7 @@ const App: React.FC = () => {
         }
       }
     })();
-  }, [createMealGroup, sessionUserId]);
+  }, [createMealGroup, findOrCreatePlacedMeal, selectedLanguage, sessionUserId, t.loggedTo]);
 
   const removeItem = useCallback((id: string) => {
     const previousItems = items;
@@ -545,39 +821,22 @@ const App: React.FC = () => {
 
   const editItemQuantity = useCallback((itemId: string, quantity: string) => {
     const previousItems = items;
-    let persistedPatch: Parameters<typeof nutritionRepository.updateFoodItem>[2] | null = null;
+    const item = previousItems.find((candidate) => candidate.id === itemId);
+    if (!item) return;
+    // Built from the current items, not inside the setItems updater: React may run that later, after the save.
+    const patch = buildQuantityPatch(item, quantity);
+    const { measure, batchAmount, ...values } = patch;
     setItems((prev) =>
-      prev.map((item) =>
-        item.id === itemId
-          ? (() => {
-              const previousAmount = parseQuantityAmount(item.quantity);
-              const nextAmount = parseQuantityAmount(quantity);
-              if (!previousAmount || !nextAmount) {
-                persistedPatch = {
-                  quantity,
-                };
-                return { ...item, quantity };
-              }
-              const factor = nextAmount / previousAmount;
-              const scaled = scaleFoodNutrition(item, factor);
-              persistedPatch = {
-                quantity,
-                calories: scaled.calories,
-                protein: scaled.protein,
-                carbs: scaled.carbs,
-                fat: scaled.fat,
-                fiber: scaled.fiber,
-                micronutrients: scaled.micronutrients,
-              };
-              return { ...scaled, quantity };
-            })()
-          : item
+      prev.map((candidate) =>
+        candidate.id === itemId
+          ? { ...candidate, ...values, measure: measure ?? undefined, batchAmount }
+          : candidate
       )
     );
-    if (!sessionUserId || !persistedPatch) return;
+    if (!sessionUserId) return;
     void (async () => {
       try {
-        await nutritionRepository.updateFoodItem(sessionUserId, itemId, persistedPatch ?? { quantity });
+        await nutritionRepository.updateFoodItem(sessionUserId, itemId, patch);
       } catch (e) {
         console.error(e);
         const message = e instanceof Error ? e.message : 'Failed to update item quantity';
@@ -587,37 +846,242 @@ const App: React.FC = () => {
     })();
   }, [items, sessionUserId]);
 
-  const startRecording = useCallback(async () => {
-    if (isTransitioningRef.current || isRecording || isStarting || isProcessing) return;
-    if (!sessionUserId) {
-      setError('Please sign in before recording.');
-      return;
+  /** Overwrites the macros with values the user typed in the details sheet; nothing is rescaled. */
+  const editItemNutrition = useCallback((
+    itemId: string,
+    quantity: string,
+    nutrition: Pick<FoodItem, 'calories' | 'protein' | 'carbs' | 'fat'>
+  ) => {
+    const previousItems = items;
+    const item = previousItems.find((candidate) => candidate.id === itemId);
+    if (!item) return;
+    const measure = quantity === item.quantity ? item.measure : resolveQuantity(quantity, item.name) ?? undefined;
+    const originalEstimate = getOriginalEstimate(item);
+    setItems((prev) =>
+      prev.map((candidate) =>
+        candidate.id === itemId ? { ...candidate, ...nutrition, quantity, measure, originalEstimate } : candidate
+      )
+    );
+    if (!sessionUserId) return;
+    void (async () => {
+      try {
+        await nutritionRepository.updateFoodItem(sessionUserId, itemId, {
+          ...nutrition,
+          quantity,
+          measure: measure ?? null,
+          originalEstimate,
+        });
+      } catch (e) {
+        console.error(e);
+        const message = e instanceof Error ? e.message : 'Failed to update item';
+        setError(message);
+        setItems(previousItems);
+      }
+    })();
+  }, [items, sessionUserId]);
+
+  /** Applies a spoken/typed correction through the same paths as the table's edit and delete actions. */
+  const applyFoodCorrection = useCallback((correction: FoodCorrection) => {
+    if (correction.action === 'remove') {
+      removeItem(correction.id);
+      setNotice(`${t.correctionRemoved}: ${correction.name}`);
+    } else if (correction.quantity) {
+      editItemQuantity(correction.id, correction.quantity);
+      setNotice(`${t.correctionUpdated}: ${correction.name} → ${correction.quantity}`);
     }
-    isTransitioningRef.current = true;
-    setError(null);
-    setTranscript("");
-    setIsStarting(true);
-    const recordingMeal = createMealGroup();
-    activeRecordingMealIdRef.current = recordingMeal.id;
-    recordingFoodsCountRef.current = 0;
-    try {
-      await nutritionRepository.insertMeal(sessionUserId, recordingMeal);
-    } catch (e) {
+  }, [editItemQuantity, removeItem, t.correctionRemoved, t.correctionUpdated]);
+
+  useEffect(() => {
+    applyFoodCorrectionRef.current = applyFoodCorrection;
+  }, [applyFoodCorrection]);
+
+  const todayWaterMl = useMemo(() => {
+    const today = new Date();
+    return waterEntries
+      .filter((entry) => isSameCalendarDay(entry.timestamp, today))
+      .reduce((total, entry) => total + entry.volumeMl, 0);
+  }, [waterEntries]);
+
+  /** Adds a drink to the hydration log, from the Dashboard quick-add buttons or a log_water call. */
+  const logWater = useCallback((volumeMl: number, drink?: string) => {
+    const entry: WaterEntry = { id: crypto.randomUUID(), volumeMl: Math.round(volumeMl), drink, timestamp: new Date() };
+    setWaterEntries((prev) => [entry, ...prev]);
+    if (!sessionUserId) return;
+    void nutritionRepository.insertWaterEntry(sessionUserId, entry).catch((e) => {
       console.error(e);
-      const message = e instanceof Error ? e.message : 'Failed to create meal';
+      const message = e instanceof Error ? e.message : 'Failed to log water';
       setError(message);
-      setMeals((prev) => prev.filter((meal) => meal.id !== recordingMeal.id));
-      activeRecordingMealIdRef.current = null;
-      recordingFoodsCountRef.current = 0;
-      setIsStarting(false);
-      isTransitioningRef.current = false;
-      return;
-    }
+      setWaterEntries((prev) => prev.filter((item) => item.id !== entry.id));
+    });
+  }, [sessionUserId]);
+
+  /** Removes today's most recent drink (quick-add undo). */
+  const undoLastWater = useCallback(() => {
+    const last = waterEntries.find((entry) => isSameCalendarDay(entry.timestamp, new Date()));
+    if (!last) return;
+    setWaterEntries((prev) => prev.filter((entry) => entry.id !== last.id));
+    if (!sessionUserId) return;
+    void nutritionRepository.deleteWaterEntry(sessionUserId, last.id).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to delete water entry';
+      setError(message);
+      setWaterEntries((prev) => [last, ...prev]);
+    });
+  }, [sessionUserId, waterEntries]);
+
+  useEffect(() => {
+    logWaterRef.current = (drink) => {
+      logWater(drink.volumeMl, drink.drink);
+      setNotice(`${t.waterLogged}: +${drink.volumeMl} ml`);
+    };
+  }, [logWater, t.waterLogged]);
+
+  /** Logs a copy of a past meal now (new meal and item ids, current timestamp) without calling the model. */
+  const relogMeal = useCallback((mealId: string) => {
+    const source = meals.find((meal) => meal.id === mealId);
+    const sourceItems = items.filter((item) => item.mealId === mealId);
+    if (!source || sourceItems.length === 0) return;
+    const now = new Date();
+    const meal = createMealGroup(now, source.mealType);
+    const copies: FoodItem[] = sourceItems.map((item) => ({
+      ...item,
+      id: crypto.randomUUID(),
+      mealId: meal.id,
+      timestamp: now,
+      clarification: undefined,
+      originalEstimate: undefined,
+      // A copy is not taken from the batch again; portions come through the leftovers picker.
+      batchId: undefined,
+      batchAmount: undefined,
+    }));
+    setItems((prev) => [...copies, ...prev]);
+    setNotice(`${t.mealRelogged}: ${meal.label}`);
+    if (!sessionUserId) return;
+    void (async () => {
+      try {
+        await nutritionRepository.insertMeal(sessionUserId, meal);
+        await nutritionRepository.insertFoodItems(sessionUserId, copies);
+      } catch (e) {
+        console.error(e);
+        const message = e instanceof Error ? e.message : 'Failed to log meal again';
+        setError(message);
+        const copyIds = new Set(copies.map((item) => item.id));
+        setItems((prev) => prev.filter((item) => !copyIds.has(item.id)));
+        setMeals((prev) => prev.filter((candidate) => candidate.id !== meal.id));
+      }
+    })();
+  }, [createMealGroup, items, meals, sessionUserId, t.mealRelogged]);
+
+  const toggleMealFavorite = useCallback((mealId: string) => {
+    const target = meals.find((meal) => meal.id === mealId);
+    if (!target) return;
+    const isFavorite = !target.isFavorite;
+    const setFavorite = (value: boolean) =>
+      setMeals((prev) => prev.map((meal) => (meal.id === mealId ? { ...meal, isFavorite: value || undefined } : meal)));
+    setFavorite(isFavorite);
+    if (!sessionUserId) return;
+    void nutritionRepository.setMealFavorite(sessionUserId, mealId, isFavorite).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to update favorite';
+      setError(message);
+      setFavorite(!isFavorite);
+    });
+  }, [meals, sessionUserId]);
+
+  // "Same breakfast as yesterday": the latest non-empty meal of that day (and type, when named).
+  useEffect(() => {
+    repeatMealRef.current = (repeat) => {
+      const day = startOfLocalDay(new Date());
+      day.setDate(day.getDate() + repeat.dayOffset);
+      const source = meals
+        .filter((meal) =>
+          isSameCalendarDay(meal.createdAt, day)
+          && (!repeat.mealType || meal.mealType === repeat.mealType)
+          && items.some((item) => item.mealId === meal.id)
+        )
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+      if (source) {
+        relogMeal(source.id);
+      } else {
+        setError(t.noMealToRepeat);
+      }
+    };
+  }, [items, meals, relogMeal, t.noMealToRepeat]);
+
+  /** Replaces a food's estimate with the one the model gave after the user answered its follow-up. */
+  const applyClarifiedEstimate = useCallback((original: FoodItem, estimate: FoodEstimate) => {
+    // The recipe or batch link stays with the food, as in replaceFoodEstimate.
+    const links = { recipeId: original.recipeId, batchId: original.batchId, batchAmount: original.batchAmount };
+    setItems((prev) => prev.map((item) => (item.id === original.id ? { ...item, ...estimate, ...links } : item)));
+    setNotice(`${t.estimateUpdated}: ${estimate.name} · ${estimate.quantity}`);
+    if (!sessionUserId) return;
+    void nutritionRepository.replaceFoodEstimate(sessionUserId, original.id, estimate).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to update food estimate';
+      setError(message);
+      setItems((prev) => prev.map((item) => (item.id === original.id ? original : item)));
+    });
+  }, [sessionUserId, t.estimateUpdated]);
+
+  /** "Keep estimate": drops the follow-up question but leaves the numbers as they are. */
+  const dismissClarification = useCallback((target: FoodItem) => {
+    setItems((prev) => prev.map((item) => (item.id === target.id ? { ...item, clarification: undefined } : item)));
+    if (!sessionUserId) return;
+    void nutritionRepository.clearClarification(sessionUserId, target.id).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to dismiss question';
+      setError(message);
+      setItems((prev) => prev.map((item) => (item.id === target.id ? target : item)));
+    });
+  }, [sessionUserId]);
 
-    const service = new ProcessAudioService({
+  /**
+   * Builds the service with the callbacks shared by voice recording and typed logging. With `clarifying`
+   * the request answers that food's follow-up and its (single) result replaces the food instead of adding one.
+   */
+  const createProcessService = useCallback((userId: string, clarifying?: FoodItem): ProcessAudioService => {
+    let clarified = false;
+    return new ProcessAudioService({
       testingMode: isTestingMode,
       language: selectedLanguage,
-      onFoodLogged: handleFoodLogged,
+      fixture: llmFixture,
+      stream: true,
+      getAccessToken: async () => {
+        const { data } = await supabase.auth.getSession();
+        return data.session?.access_token ?? null;
+      },
+      onUnauthorized: () => {
+        setAuthError(t.sessionExpired);
+        void supabase.auth.signOut();
+      },
+      getFoodContext: () =>
+        todayItemsRef.current.map((item) => ({ id: item.id, name: item.name, quantity: item.quantity })),
+      clarification: clarifying?.clarification
+        ? {
+            name: clarifying.name,
+            quantity: clarifying.quantity,
+            assumptions: clarifying.assumptions,
+            question: clarifying.clarification.question,
+          }
+        : undefined,
+      onFoodLogged: clarifying
+        ? (food) => {
+            if (clarified) return;
+            clarified = true;
+            applyClarifiedEstimate(clarifying, food);
+          }
+        : settings.reviewBeforeSave
+          ? (food, placement) => {
+              draftFoodsRef.current.push({ key: crypto.randomUUID(), food, placement });
+            }
+          : handleFoodLogged,
+      onFoodCorrected: (correction) => applyFoodCorrectionRef.current(correction),
+      onWaterLogged: (drink) => logWaterRef.current(drink),
+      onMealRepeated: (repeat) => repeatMealRef.current(repeat),
+      onFoodsRejected: (rejected) => {
+        const details = rejected.map((r) => `${r.name} (${r.reason})`).join(', ');
+        setError(`${t.skippedItems}: ${details}`);
+      },
       onAudioData: (amp) => setAmplitude(amp),
       onTranscription: (text) => {
         lastTranscriptRef.current = text;
@@ -632,7 +1096,7 @@ const App: React.FC = () => {
             )
           );
           void nutritionRepository
-            .updateMealTranscript(sessionUserId, activeMealId, text)
+            .updateMealTranscript(userId, activeMealId, text)
             .catch((updateError) => console.error(updateError));
         }
       },
@@ -652,10 +1116,14 @@ const App: React.FC = () => {
         isTransitioningRef.current = false;
       },
       onClose: () => {
+        if (draftFoodsRef.current.length > 0) {
+          setReviewDraft({ foods: draftFoodsRef.current, transcript: lastTranscriptRef.current.trim() });
+          draftFoodsRef.current = [];
+        }
         const activeMealId = activeRecordingMealIdRef.current;
         if (activeMealId && recordingFoodsCountRef.current === 0) {
           setMeals((prev) => prev.filter((meal) => meal.id !== activeMealId));
-          void nutritionRepository.deleteMeal(sessionUserId, activeMealId).catch((deleteError) => {
+          void nutritionRepository.deleteMeal(userId, activeMealId).catch((deleteError) => {
             console.error(deleteError);
             const message = deleteError instanceof Error ? deleteError.message : 'Failed to delete empty meal';
             setError(message);
@@ -676,6 +1144,41 @@ const App: React.FC = () => {
       },
       onDebug: setLastDebug,
     });
+  }, [applyClarifiedEstimate, handleFoodLogged, selectedLanguage, settings.reviewBeforeSave, t.sessionExpired, t.skippedItems]);
+
+  const startRecording = useCallback(async (clarifyItem?: FoodItem) => {
+    if (isTransitioningRef.current || isRecording || isStarting || isProcessing) return;
+    if (!sessionUserId) {
+      setError('Please sign in before recording.');
+      return;
+    }
+    isTransitioningRef.current = true;
+    setError(null);
+    setTranscript("");
+    setIsStarting(true);
+    // An answer to a follow-up re-estimates an existing food, so it needs no meal group of its own.
+    const recordingMeal = clarifyItem ? null : createMealGroup();
+    activeRecordingMealIdRef.current = recordingMeal?.id ?? null;
+    recordingFoodsCountRef.current = 0;
+    placedMealsRef.current.clear();
+    draftFoodsRef.current = [];
+    if (recordingMeal) {
+      try {
+        await nutritionRepository.insertMeal(sessionUserId, recordingMeal);
+      } catch (e) {
+        console.error(e);
+        const message = e instanceof Error ? e.message : 'Failed to create meal';
+        setError(message);
+        setMeals((prev) => prev.filter((meal) => meal.id !== recordingMeal.id));
+        activeRecordingMealIdRef.current = null;
+        recordingFoodsCountRef.current = 0;
+        setIsStarting(false);
+        isTransitioningRef.current = false;
+        return;
+      }
+    }
+
+    const service = createProcessService(sessionUserId, clarifyItem);
 
     serviceRef.current = service;
     setLiveService(service);
@@ -693,10 +1196,12 @@ const App: React.FC = () => {
       setIsProcessing(false);
       serviceRef.current = null;
       setLiveService(null);
-      setMeals((prev) => prev.filter((meal) => meal.id !== recordingMeal.id));
-      void nutritionRepository.deleteMeal(sessionUserId, recordingMeal.id).catch((deleteError) => {
-        console.error(deleteError);
-      });
+      if (recordingMeal) {
+        setMeals((prev) => prev.filter((meal) => meal.id !== recordingMeal.id));
+        void nutritionRepository.deleteMeal(sessionUserId, recordingMeal.id).catch((deleteError) => {
+          console.error(deleteError);
+        });
+      }
       activeRecordingMealIdRef.current = null;
       recordingFoodsCountRef.current = 0;
       isTransitioningRef.current = false;
@@ -705,7 +1210,7 @@ const App: React.FC = () => {
       setIsStarting(false);
       isTransitioningRef.current = false;
     }
-  }, [createMealGroup, handleFoodLogged, isRecording, isStarting, isProcessing, selectedLanguage, sessionUserId, t.startFailed]);
+  }, [createMealGroup, createProcessService, isRecording, isStarting, isProcessing, sessionUserId, t.startFailed]);
 
   const stopRecording = useCallback(() => {
     if (isTransitioningRef.current || !serviceRef.current || !isRecording) return;
@@ -730,6 +1235,121 @@ const App: React.FC = () => {
     startRecording();
   }, [isRecording, startRecording, stopRecording]);
 
+  /** Typed and photo logging: create a loading meal group, then let the service fill it via handleFoodLogged. */
+  const runServiceRequest = useCallback(async (send: (service: ProcessAudioService) => Promise<void>) => {
+    if (isTransitioningRef.current || isRecording || isStarting || isProcessing) return;
+    if (!sessionUserId) {
+      setError('Please sign in before logging.');
+      return;
+    }
+    isTransitioningRef.current = true;
+    setError(null);
+    setTranscript("");
+    setIsTextInputOpen(false);
+    setIsProcessing(true);
+    const requestMeal = createMealGroup();
+    activeRecordingMealIdRef.current = requestMeal.id;
+    recordingFoodsCountRef.current = 0;
+    placedMealsRef.current.clear();
+    draftFoodsRef.current = [];
+    setMeals((prev) => prev.map((m) => m.id === requestMeal.id ? { ...m, isLoading: true } : m));
+    try {
+      await nutritionRepository.insertMeal(sessionUserId, requestMeal);
+    } catch (e) {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to create meal';
+      setError(message);
+      setMeals((prev) => prev.filter((meal) => meal.id !== requestMeal.id));
+      activeRecordingMealIdRef.current = null;
+      recordingFoodsCountRef.current = 0;
+      setIsProcessing(false);
+      isTransitioningRef.current = false;
+      return;
+    }
+
+    const service = createProcessService(sessionUserId);
+    serviceRef.current = service;
+    setLiveService(service);
+    await send(service);
+  }, [createMealGroup, createProcessService, isRecording, isStarting, isProcessing, sessionUserId]);
+
+  const submitTextMeal = useCallback((text: string) => {
+    void runServiceRequest((service) => service.sendText(text));
+  }, [runServiceRequest]);
+
+  /** Tapped answer to a follow-up; voice answers go through startRecording(item). */
+  const answerClarification = useCallback(async (item: FoodItem, answer: string) => {
+    if (isTransitioningRef.current || isRecording || isStarting || isProcessing || !sessionUserId) return;
+    isTransitioningRef.current = true;
+    setError(null);
+    setTranscript("");
+    setIsProcessing(true);
+    const service = createProcessService(sessionUserId, item);
+    serviceRef.current = service;
+    setLiveService(service);
+    await service.sendText(answer);
+  }, [createProcessService, isRecording, isStarting, isProcessing, sessionUserId]);
+
+  const handlePhotoSelected = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same photo again still fires onChange
+    event.target.value = '';
+    if (!file) return;
+    void runServiceRequest(async (service) => {
+      const upload = await resizeImageForUpload(file).catch((resizeError) => {
+        console.error(resizeError);
+        return file;
+      });
+      await service.sendImage(upload);
+    });
+  }, [runServiceRequest]);
+
+  /**
+   * Saves the reviewed foods. The request's own (empty) group was deleted on close, so foods without a
+   * placement get a fresh group carrying the transcript; placed foods go through handleFoodLogged as usual.
+   */
+  const confirmReviewedFoods = useCallback(async (foods: ReviewFood[]) => {
+    const transcriptSnippet = reviewDraft?.transcript ?? '';
+    setReviewDraft(null);
+    if (!sessionUserId || foods.length === 0) return;
+    placedMealsRef.current.clear();
+    lastTranscriptRef.current = transcriptSnippet;
+    if (foods.some((entry) => !entry.placement || !hasPlacement(entry.placement))) {
+      const meal = createMealGroup();
+      if (transcriptSnippet) meal.transcriptSnippet = transcriptSnippet.slice(0, 120);
+      activeRecordingMealIdRef.current = meal.id;
+      try {
+        await nutritionRepository.insertMeal(sessionUserId, meal);
+      } catch (e) {
+        console.error(e);
+        const message = e instanceof Error ? e.message : 'Failed to create meal';
+        setError(message);
+        setMeals((prev) => prev.filter((m) => m.id !== meal.id));
+        activeRecordingMealIdRef.current = null;
+        lastTranscriptRef.current = '';
+        return;
+      }
+    }
+    for (const entry of foods) {
+      handleFoodLogged(entry.food, entry.placement);
+    }
+    activeRecordingMealIdRef.current = null;
+    recordingFoodsCountRef.current = 0;
+    lastTranscriptRef.current = '';
+  }, [createMealGroup, handleFoodLogged, reviewDraft, sessionUserId]);
+
+  const handleSettingsChange = useCallback((next: UserSettings) => {
+    const previousSettings = settings;
+    setSettings(next);
+    if (!sessionUserId) return;
+    void nutritionRepository.upsertSettings(sessionUserId, next).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to save settings';
+      setError(message);
+      setSettings(previousSettings);
+    });
+  }, [sessionUserId, settings]);
+
   const handleGoalsChange = useCallback<React.Dispatch<React.SetStateAction<NutritionGoals>>>((update) => {
     const previousGoals = goals;
     let nextGoals = previousGoals;
@@ -751,6 +1371,192 @@ const App: React.FC = () => {
     })();
   }, [goals, sessionUserId]);
 
+  /** Adds or replaces a library food; it moves to the top like the server's updated_at order. */
+  const saveCustomFood = useCallback((food: CustomFood) => {
+    const previousFoods = customFoods;
+    setCustomFoods([food, ...previousFoods.filter((item) => item.id !== food.id)]);
+    if (!sessionUserId) return;
+    void nutritionRepository.upsertCustomFood(sessionUserId, food).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to save food';
+      setError(message);
+      setCustomFoods(previousFoods);
+    });
+  }, [customFoods, sessionUserId]);
+
+  const deleteCustomFood = useCallback((id: string) => {
+    const previousFoods = customFoods;
+    setCustomFoods(previousFoods.filter((item) => item.id !== id));
+    if (!sessionUserId) return;
+    void nutritionRepository.deleteCustomFood(sessionUserId, id).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to delete food';
+      setError(message);
+      setCustomFoods(previousFoods);
+    });
+  }, [customFoods, sessionUserId]);
+
+  /** Adds or replaces a recipe; like library foods, it moves to the top. */
+  const saveRecipe = useCallback((recipe: Recipe) => {
+    const previousRecipes = recipes;
+    setRecipes([recipe, ...previousRecipes.filter((item) => item.id !== recipe.id)]);
+    if (!sessionUserId) return;
+    void nutritionRepository.saveRecipe(sessionUserId, recipe).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to save recipe';
+      setError(message);
+      setRecipes(previousRecipes);
+    });
+  }, [recipes, sessionUserId]);
+
+  const deleteRecipe = useCallback((id: string) => {
+    const previousRecipes = recipes;
+    setRecipes(previousRecipes.filter((item) => item.id !== id));
+    if (!sessionUserId) return;
+    void nutritionRepository.deleteRecipe(sessionUserId, id).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to delete recipe';
+      setError(message);
+      setRecipes(previousRecipes);
+    });
+  }, [recipes, sessionUserId]);
+
+  /** Logs one food now, in a meal of its own, without calling the model (recipe servings, batch portions). */
+  const logStandaloneFood = useCallback((food: FoodEstimate) => {
+    const now = new Date();
+    const meal = createMealGroup(now);
+    const item: FoodItem = { ...food, id: crypto.randomUUID(), mealId: meal.id, timestamp: now };
+    setItems((prev) => [item, ...prev]);
+    if (!sessionUserId) return;
+    void (async () => {
+      try {
+        await nutritionRepository.insertMeal(sessionUserId, meal);
+        await nutritionRepository.insertFoodItem(sessionUserId, item);
+      } catch (e) {
+        console.error(e);
+        const message = e instanceof Error ? e.message : 'Failed to log food';
+        setError(message);
+        setItems((prev) => prev.filter((candidate) => candidate.id !== item.id));
+        setMeals((prev) => prev.filter((candidate) => candidate.id !== meal.id));
+      }
+    })();
+  }, [createMealGroup, sessionUserId]);
+
+  /** Logs one serving as a single food linked to the recipe. */
+  const logRecipeServing = useCallback((recipe: Recipe) => {
+    logStandaloneFood({
+      name: recipe.name,
+      quantity: '1 serving',
+      ...perServing(recipe),
+      source: 'recipe',
+      sourceRef: recipe.name,
+      recipeId: recipe.id,
+    });
+    setNotice(`${t.recipeServingLogged}: ${recipe.name}`);
+  }, [logStandaloneFood, t.recipeServingLogged]);
+
+  const createBatch = useCallback((batch: FoodBatch) => {
+    const previousBatches = batches;
+    setBatches([batch, ...previousBatches]);
+    if (!sessionUserId) return;
+    void nutritionRepository.insertBatch(sessionUserId, batch).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to save batch';
+      setError(message);
+      setBatches(previousBatches);
+    });
+  }, [batches, sessionUserId]);
+
+  const finishBatch = useCallback((batchId: string) => {
+    const previousBatches = batches;
+    setBatches(previousBatches.filter((batch) => batch.id !== batchId));
+    if (!sessionUserId) return;
+    void nutritionRepository.finishBatch(sessionUserId, batchId, new Date()).catch((e) => {
+      console.error(e);
+      const message = e instanceof Error ? e.message : 'Failed to clear batch';
+      setError(message);
+      setBatches(previousBatches);
+    });
+  }, [batches, sessionUserId]);
+
+  /**
+   * Logs a portion of a batch, scaled from the whole batch's values, and warns when it leaves less than
+   * another portion, uses the batch up, or takes more than was left.
+   */
+  const logBatchPortion = useCallback((batchId: string, quantity: string) => {
+    const batch = batches.find((candidate) => candidate.id === batchId);
+    if (!batch) return;
+    const portion = batchPortion(batch, quantity);
+    if (!portion) {
+      setError(`${t.batchPortionInvalid}: ${quantity}`);
+      return;
+    }
+    const wholeBatch: FoodEstimate = {
+      name: batch.name,
+      quantity,
+      calories: batch.calories,
+      protein: batch.protein,
+      carbs: batch.carbs,
+      fat: batch.fat,
+      fiber: batch.fiber,
+      sodium: batch.sodium,
+      addedSugar: batch.addedSugar,
+      saturatedFat: batch.saturatedFat,
+      micronutrients: batch.micronutrients ?? {},
+      source: batch.recipeId ? 'recipe' : undefined,
+      sourceRef: batch.recipeId ? batch.name : undefined,
+      recipeId: batch.recipeId,
+    };
+    logStandaloneFood({
+      ...scaleFoodNutrition(wholeBatch, portion.factor),
+      measure: portion.quantity,
+      batchId: batch.id,
+      batchAmount: portion.amount,
+    });
+    setIsBatchPickerOpen(false);
+    // The portion is logged either way, so these are notices; the error banner is for failures.
+    const left = batchRemaining(batch, items) - portion.amount;
+    if (left < 0 && !isBatchUsedUp(batch, -left)) {
+      setNotice(`${t.batchOverdrawn}: ${batch.name}`);
+    } else if (isBatchUsedUp(batch, Math.max(0, left))) {
+      setNotice(`${t.batchUsedUp}: ${batch.name}`);
+    } else if (left < portion.amount) {
+      setNotice(`${t.batchAlmostGone}: ${batch.name}`);
+    } else {
+      setNotice(`${t.batchPortionLogged}: ${batch.name}`);
+    }
+  }, [batches, items, logStandaloneFood, t.batchAlmostGone, t.batchOverdrawn, t.batchPortionInvalid, t.batchPortionLogged, t.batchUsedUp]);
+
+  /**
+   * Estimates without logging (recipe ingredients, a new batch): the usual endpoints, but the estimated foods
+   * go to the caller instead of a meal.
+   */
+  const createEstimateService = useCallback(
+    (onIngredient: (ingredient: RecipeIngredient) => void, onDone: () => void) =>
+      new ProcessAudioService({
+        language: selectedLanguage,
+        fixture: llmFixture,
+        stream: true,
+        getAccessToken: async () => {
+          const { data } = await supabase.auth.getSession();
+          return data.session?.access_token ?? null;
+        },
+        onUnauthorized: () => {
+          setAuthError(t.sessionExpired);
+          void supabase.auth.signOut();
+        },
+        onFoodLogged: (food) => onIngredient(toRecipeIngredient(food)),
+        onAudioData: () => {},
+        onTranscription: () => {},
+        onError: (err) => {
+          console.error(err);
+          setError(err.message);
+        },
+        onClose: onDone,
+      }),
+    [selectedLanguage, t.sessionExpired]
+  );
+
   const handleEmailPasswordAuth = useCallback(async (mode: AuthMode, email: string, password: string) => {
     const normalizedEmail = email.trim();
     if (!normalizedEmail || !password) return;
@@ -827,7 +1633,7 @@ const App: React.FC = () => {
   }
 
   return (
-    <div className="min-h-screen bg-stone-50 text-stone-900 pb-32">
+    <div className="min-h-screen bg-stone-50 text-stone-900 pb-44">
       <div className="max-w-4xl mx-auto px-4 py-8 md:py-12">
         
         {/* Simple Header */}
@@ -881,6 +1687,13 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {notice && (
+          <div className="mb-6 bg-emerald-50 text-emerald-700 px-4 py-3 rounded-xl text-sm flex items-center gap-2 border border-emerald-100 animate-in fade-in slide-in-from-top-2">
+            <Check size={16} />
+            {notice}
+          </div>
+        )}
+
         {/* Debug: last API result (for production mobile testing). In testing mode no API is called. */}
         {(lastDebug || isTestingMode) && (
           <div className="mb-4 rounded-lg border border-slate-300 bg-slate-100 px-3 py-2 text-xs font-mono text-slate-700">
@@ -891,8 +1704,14 @@ const App: React.FC = () => {
                 <span className="font-semibold">{t.api}</span>{' '}
                 {lastDebug.status || '—'} {lastDebug.ok ? 'OK' : 'ERR'}
                 {' · '}{t.foods}{': '}{lastDebug.foodsCount}
+                {!!lastDebug.rejectedCount && ` · ${t.rejected}: ${lastDebug.rejectedCount}`}
                 {lastDebug.payloadBytes != null && ` · payload: ${(lastDebug.payloadBytes / 1024).toFixed(1)} KB`}
                 {lastDebug.errorMsg && ` · ${lastDebug.errorMsg}`}
+                {lastDebug.quota && (
+                  <span className={lastDebug.quota.minuteRemaining === 0 || lastDebug.quota.dayRemaining === 0 ? 'text-amber-700' : undefined}>
+                    {` · ${t.quotaLeft}: ${lastDebug.quota.minuteRemaining}/${lastDebug.quota.perMinute} ${t.perMinute}, ${lastDebug.quota.dayRemaining}/${lastDebug.quota.perDay} ${t.perDay}`}
+                  </span>
+                )}
                 {(lastDebug.wavMs != null || lastDebug.fetchMs != null) && (
                   <span className="block mt-0.5 text-slate-500">
                     {lastDebug.serverTiming != null && `total: ${lastDebug.serverTiming.totalMs}ms`}
@@ -900,7 +1719,17 @@ const App: React.FC = () => {
                     {lastDebug.fetchMs != null && ` | fetch: ${lastDebug.fetchMs}ms`}
                     {lastDebug.parseMs != null && ` | json: ${lastDebug.parseMs}ms`}
                     {lastDebug.serverTiming != null &&
-                      ` | gemini: ${lastDebug.serverTiming.geminiMs}ms body: ${lastDebug.serverTiming.bodyMs}ms`}
+                      ` | ${lastDebug.provider ?? 'llm'}: ${lastDebug.serverTiming.llmMs}ms body: ${lastDebug.serverTiming.bodyMs}ms`}
+                  </span>
+                )}
+                {lastDebug.usage && (
+                  <span className="block mt-0.5 text-slate-500">
+                    {`tokens: ${lastDebug.usage.promptTokens} in`}
+                    {lastDebug.usage.audioTokens > 0 && ` (${lastDebug.usage.audioTokens} audio)`}
+                    {lastDebug.usage.imageTokens > 0 && ` (${lastDebug.usage.imageTokens} image)`}
+                    {` / ${lastDebug.usage.outputTokens} out`}
+                    {lastDebug.usage.costUsd != null && ` · ~$${lastDebug.usage.costUsd.toFixed(5)}`}
+                    {` · ${lastDebug.usage.model}`}
                   </span>
                 )}
               </>
@@ -945,13 +1774,32 @@ const App: React.FC = () => {
         <div className="w-full animate-in fade-in slide-in-from-bottom-4 duration-700 fill-mode-both">
           {activeTab === 'today' && (
             <>
-              <Dashboard stats={stats} goals={goals} language={selectedLanguage} />
+              <Dashboard
+                stats={stats}
+                goals={goals}
+                waterMl={todayWaterMl}
+                onAddWater={(volumeMl) => logWater(volumeMl)}
+                onUndoWater={undoLastWater}
+                language={selectedLanguage}
+              />
+              {pendingClarification && !reviewDraft && (
+                <ClarificationPrompt
+                  item={pendingClarification}
+                  onAnswer={(answer) => void answerClarification(pendingClarification, answer)}
+                  onVoiceAnswer={() => void startRecording(pendingClarification)}
+                  onDismiss={() => dismissClarification(pendingClarification)}
+                  disabled={isRecording || isStarting || isProcessing}
+                  language={selectedLanguage}
+                />
+              )}
               <FoodTable
                 items={todayItems}
                 meals={todayMeals}
                 onMoveItem={moveItemToMeal}
                 onRemove={removeItem}
                 onEditQuantity={editItemQuantity}
+                onEditNutrition={editItemNutrition}
+                limitColumns={limitColumns}
                 language={selectedLanguage}
               />
             </>
@@ -1003,6 +1851,8 @@ const App: React.FC = () => {
                   onMoveItem={moveItemToMeal}
                   onRemove={removeItem}
                   onEditQuantity={editItemQuantity}
+                  onEditNutrition={editItemNutrition}
+                  limitColumns={limitColumns}
                   language={selectedLanguage}
                 />
               )}
@@ -1016,6 +1866,33 @@ const App: React.FC = () => {
               language={selectedLanguage}
             />
           )}
+          {activeTab === 'goals' && (
+            <Settings
+              settings={settings}
+              onSettingsChange={handleSettingsChange}
+              language={selectedLanguage}
+            />
+          )}
+
+          {activeTab === 'library' && (
+            <>
+              <FoodLibrary
+                foods={customFoods}
+                onSave={saveCustomFood}
+                onDelete={deleteCustomFood}
+                language={selectedLanguage}
+              />
+              <Recipes
+                recipes={recipes}
+                items={items}
+                onSave={saveRecipe}
+                onDelete={deleteRecipe}
+                onLogServing={logRecipeServing}
+                createIngredientService={createEstimateService}
+                language={selectedLanguage}
+              />
+            </>
+          )}
         </div>
       </div>
 
@@ -1042,6 +1919,109 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {reviewDraft && (
+        <FoodReview
+          foods={reviewDraft.foods}
+          transcript={reviewDraft.transcript}
+          onConfirm={(foods) => void confirmReviewedFoods(foods)}
+          onDiscard={() => setReviewDraft(null)}
+          language={selectedLanguage}
+        />
+      )}
+
+      {isMealPickerOpen && (
+        <MealPicker
+          meals={meals}
+          items={items}
+          onRelog={(mealId) => {
+            relogMeal(mealId);
+            setIsMealPickerOpen(false);
+          }}
+          onToggleFavorite={toggleMealFavorite}
+          onClose={() => setIsMealPickerOpen(false)}
+          language={selectedLanguage}
+        />
+      )}
+
+      {isBatchPickerOpen && (
+        <BatchPicker
+          batches={batches}
+          items={items}
+          recipes={recipes}
+          onCreate={createBatch}
+          onLogPortion={logBatchPortion}
+          onFinish={finishBatch}
+          createEstimateService={createEstimateService}
+          onClose={() => setIsBatchPickerOpen(false)}
+          language={selectedLanguage}
+        />
+      )}
+
+      {/* Typed and photo logging: alternatives to the mic when speaking is not an option */}
+      {!isRecording && !isStarting && (
+        <div className="fixed bottom-32 left-1/2 z-40 w-11/12 max-w-md -translate-x-1/2 flex justify-center">
+          {isTextInputOpen ? (
+            <TextMealInput
+              onSubmit={submitTextMeal}
+              onClose={() => setIsTextInputOpen(false)}
+              disabled={isProcessing}
+              language={selectedLanguage}
+            />
+          ) : (
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setIsTextInputOpen(true)}
+                disabled={isProcessing}
+                aria-label={t.typeMealAria}
+                className="flex items-center gap-1.5 rounded-full border border-stone-200 bg-white px-3 py-1.5 text-xs font-semibold text-stone-600 shadow-md hover:bg-stone-50 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <Keyboard size={14} />
+                {t.typeMeal}
+              </button>
+              <button
+                type="button"
+                onClick={() => photoInputRef.current?.click()}
+                disabled={isProcessing}
+                aria-label={t.photoMealAria}
+                className="flex items-center gap-1.5 rounded-full border border-stone-200 bg-white px-3 py-1.5 text-xs font-semibold text-stone-600 shadow-md hover:bg-stone-50 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <Camera size={14} />
+                {t.photoMeal}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsMealPickerOpen(true)}
+                disabled={isProcessing}
+                aria-label={t.recentMealsAria}
+                className="flex items-center gap-1.5 rounded-full border border-stone-200 bg-white px-3 py-1.5 text-xs font-semibold text-stone-600 shadow-md hover:bg-stone-50 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <History size={14} />
+                {t.recentMeals}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsBatchPickerOpen(true)}
+                disabled={isProcessing}
+                aria-label={t.leftoversAria}
+                className="flex items-center gap-1.5 rounded-full border border-stone-200 bg-white px-3 py-1.5 text-xs font-semibold text-stone-600 shadow-md hover:bg-stone-50 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <CookingPot size={14} />
+                {t.leftovers}
+              </button>
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handlePhotoSelected}
+                className="hidden"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Bottom Navigation Bar */}
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-stone-200 h-20 px-4 z-50 shadow-[0_-4px_20px_rgba(0,0,0,0.03)] pb-safe md:left-1/2 md:right-auto md:w-[560px] md:-translate-x-1/2 md:rounded-t-2xl md:border md:border-stone-200">
         <div className="relative h-full">
@@ -1076,7 +2056,20 @@ const App: React.FC = () => {
 
             <div />
 
-            <div className="flex items-center justify-end">
+            <div className="flex items-center justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setActiveTab('library')}
+                className={`flex flex-col items-center gap-1 transition-colors w-16 ${
+                  activeTab === 'library'
+                    ? 'text-stone-900'
+                    : 'text-stone-400 hover:text-stone-900'
+                }`}
+              >
+                <BookMarked size={24} strokeWidth={2.5} />
+                <span className={`text-[10px] ${activeTab === 'library' ? 'font-bold text-stone-900' : 'font-medium'}`}>{t.library}</span>
+              </button>
+
               <button
                 type="button"
                 onClick={() => setActiveTab('goals')}
@@ -0,0 +1,37 @@
+/**
+ * Atwater consistency check: compares the reported calories with 4 kcal/g protein,
+ * 4 kcal/g carbs and 9 kcal/g fat. LLM estimates are often internally inconsistent
+ * (e.g. 500 kcal with 5 g protein, 5 g carbs, 2 g fat); those get flagged for review.
+ */
+
+export interface AtwaterCheck {
+  /** 1 = calories match the macros exactly, 0 = completely inconsistent. */
+  consistencyScore: number;
+  /** Human-readable reason when the item should be double-checked, otherwise null. */
+  flagReason: string | null;
+}
+
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+/** Relative deviation above which an item is flagged. */
+const MAX_DEVIATION = 0.35;
+/** Ignore mismatches smaller than this; rounding dominates for light items (coffee, lettuce). */
+const MIN_ABSOLUTE_GAP_KCAL = 40;
+
+export const checkAtwater = (food: { calories: number; protein: number; carbs: number; fat: number }): AtwaterCheck => {
+  const expected =
+    food.protein * KCAL_PER_GRAM.protein + food.carbs * KCAL_PER_GRAM.carbs + food.fat * KCAL_PER_GRAM.fat;
+  const gap = Math.abs(food.calories - expected);
+  const scale = Math.max(food.calories, expected);
+  if (scale === 0) return { consistencyScore: 1, flagReason: null };
+
+  const deviation = gap / scale;
+  const consistencyScore = Math.round((1 - deviation) * 100) / 100;
+  if (deviation <= MAX_DEVIATION || gap < MIN_ABSOLUTE_GAP_KCAL) {
+    return { consistencyScore, flagReason: null };
+  }
+
+  return {
+    consistencyScore,
+    flagReason: `${Math.round(food.calories)} kcal reported, but macros add up to ~${Math.round(expected)} kcal (4/4/9 kcal per g)`,
+  };
+};
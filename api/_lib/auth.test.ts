@@ -0,0 +1,35 @@
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AuthError, verifyAccessToken } from './auth.js';
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/** An RS256 token without `kid`, signed with the RSA key. */
+const rsaToken = (): string => {
+  const claims = { sub: 'user-1', aud: 'authenticated', role: 'authenticated', exp: Math.floor(Date.now() / 1000) + 60 };
+  const input = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${input}.${sign('sha256', Buffer.from(input), rsa.privateKey).toString('base64url')}`;
+};
+
+const setJwks = (...keys: object[]) => {
+  process.env.SUPABASE_JWKS = JSON.stringify({ keys });
+};
+
+describe('verifyAccessToken', () => {
+  afterEach(() => {
+    delete process.env.SUPABASE_JWKS;
+  });
+
+  it('skips keys of another type when the token has no kid', async () => {
+    setJwks({ ...ec.publicKey.export({ format: 'jwk' }), alg: 'ES256' }, rsa.publicKey.export({ format: 'jwk' }));
+    await expect(verifyAccessToken(rsaToken())).resolves.toEqual({ id: 'user-1', email: undefined });
+  });
+
+  it('refuses with an AuthError when no key fits the algorithm', async () => {
+    setJwks(ec.publicKey.export({ format: 'jwk' }));
+    await expect(verifyAccessToken(rsaToken())).rejects.toBeInstanceOf(AuthError);
+  });
+});
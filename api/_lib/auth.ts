@@ -0,0 +1,194 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify, type JsonWebKey, type KeyObject } from 'node:crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+/**
+ * Supabase access-token verification for /api/process-*.
+ *
+ * Key sources, first match wins:
+ *   1. SUPABASE_JWKS — inline JWKS JSON (local dev, or pinning keys)
+ *   2. SUPABASE_JWT_SECRET — legacy HS256 project secret
+ *   3. SUPABASE_URL (or VITE_SUPABASE_URL) — the project's /auth/v1/.well-known/jwks.json, cached
+ * With none of them set every request is refused: the endpoints spend LLM quota and must not be open.
+ */
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+/** Missing, malformed, expired or forged token. Always answered with 401. */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/** No way to verify tokens on this deployment. Answered with 500 so it is not mistaken for a bad session. */
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigError';
+  }
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface JwtClaims {
+  sub?: string;
+  email?: string;
+  role?: string;
+  aud?: string | string[];
+  exp?: number;
+}
+
+type Jwk = JsonWebKey & { kid?: string; alg?: string };
+
+const KEY_TYPE_BY_ALG: Record<string, string> = { RS256: 'RSA', ES256: 'EC' };
+
+/** A key can check the token when its type fits the algorithm and its own `alg`, if set, is the same. */
+const fitsAlgorithm = (jwk: Jwk, alg: string): boolean =>
+  jwk.kty === KEY_TYPE_BY_ALG[alg] && (!jwk.alg || jwk.alg === alg);
+
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+/** Tolerated clock drift between Supabase and the function host. */
+const CLOCK_SKEW_S = 30;
+
+let jwksCache: { url: string; keys: Jwk[]; fetchedAt: number } | null = null;
+
+const decodeSegment = <T>(segment: string): T => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new AuthError('Malformed access token');
+  }
+};
+
+/** Reads `Authorization: Bearer <token>`; null when absent. */
+export function getBearerToken(req: VercelRequest): string | null {
+  const header = req.headers.authorization;
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+async function loadJwks(forceRefresh = false): Promise<Jwk[] | null> {
+  const inline = process.env.SUPABASE_JWKS;
+  if (inline) {
+    try {
+      const parsed = JSON.parse(inline) as { keys?: Jwk[] };
+      return parsed.keys ?? [];
+    } catch {
+      throw new AuthConfigError('SUPABASE_JWKS is not valid JSON');
+    }
+  }
+  const base = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  if (!base) return null;
+
+  const url = `${base.replace(/\/$/, '')}/auth/v1/.well-known/jwks.json`;
+  const fresh = jwksCache && jwksCache.url === url && Date.now() - jwksCache.fetchedAt < JWKS_CACHE_MS;
+  if (fresh && !forceRefresh) return jwksCache.keys;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new AuthConfigError(`Could not load Supabase JWKS (${response.status})`);
+  }
+  const body = (await response.json()) as { keys?: Jwk[] };
+  jwksCache = { url, keys: body.keys ?? [], fetchedAt: Date.now() };
+  return jwksCache.keys;
+}
+
+function verifyHmac(signingInput: string, signature: Buffer, secret: string): boolean {
+  const expected = createHmac('sha256', secret).update(signingInput).digest();
+  return expected.length === signature.length && timingSafeEqual(expected, signature);
+}
+
+function verifyWithJwk(alg: string, signingInput: string, signature: Buffer, jwk: Jwk): boolean {
+  let key: KeyObject;
+  try {
+    key = createPublicKey({ key: jwk, format: 'jwk' });
+  } catch {
+    return false;
+  }
+  const data = Buffer.from(signingInput);
+  try {
+    if (alg === 'RS256') return verify('sha256', data, key, signature);
+    // JWS encodes ECDSA signatures as raw r||s, not DER.
+    if (alg === 'ES256') return verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  } catch {
+    // A key the algorithm cannot use (e.g. a different curve) is a bad token, not a server error.
+    return false;
+  }
+  return false;
+}
+
+/** Verifies signature, expiry and audience of a Supabase access token and returns its user. */
+export async function verifyAccessToken(token: string): Promise<AuthUser> {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new AuthError('Malformed access token');
+  const [headerPart, payloadPart, signaturePart] = parts;
+  const header = decodeSegment<JwtHeader>(headerPart);
+  const claims = decodeSegment<JwtClaims>(payloadPart);
+  const signingInput = `${headerPart}.${payloadPart}`;
+  const signature = Buffer.from(signaturePart, 'base64url');
+
+  let valid = false;
+  if (header.alg === 'HS256') {
+    const secret = process.env.SUPABASE_JWT_SECRET;
+    if (!secret) throw new AuthConfigError('HS256 tokens need SUPABASE_JWT_SECRET');
+    valid = verifyHmac(signingInput, signature, secret);
+  } else if (header.alg === 'RS256' || header.alg === 'ES256') {
+    const alg = header.alg;
+    const pick = (keys: Jwk[]) => keys.find((k) => (!header.kid || k.kid === header.kid) && fitsAlgorithm(k, alg));
+    let keys = await loadJwks();
+    if (!keys) throw new AuthConfigError('Set SUPABASE_URL, SUPABASE_JWKS or SUPABASE_JWT_SECRET to verify tokens');
+    let jwk = pick(keys);
+    if (!jwk && header.kid) {
+      // Key rotation: refetch once before giving up on an unknown kid.
+      keys = (await loadJwks(true)) ?? [];
+      jwk = pick(keys);
+    }
+    if (!jwk) throw new AuthError('No signing key matches this token');
+    valid = verifyWithJwk(alg, signingInput, signature, jwk);
+  } else {
+    throw new AuthError(`Unsupported token algorithm ${header.alg ?? '(none)'}`);
+  }
+  if (!valid) throw new AuthError('Invalid token signature');
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_S < now) {
+    throw new AuthError('Session expired');
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes('authenticated') || claims.role === 'anon') {
+    throw new AuthError('Token does not belong to a signed-in user');
+  }
+  if (!claims.sub) throw new AuthError('Token has no subject');
+
+  return { id: claims.sub, email: claims.email };
+}
+
+/**
+ * Resolves the caller or answers for the handler: 401 (with code "auth_required", which the client maps to
+ * a sign-in prompt) for missing/invalid tokens, 500 when the deployment cannot verify tokens at all.
+ * Handlers return early when this returns null.
+ */
+export async function requireUser(req: VercelRequest, res: VercelResponse): Promise<AuthUser | null> {
+  const token = getBearerToken(req);
+  try {
+    if (!token) throw new AuthError('Sign in to log meals');
+    return await verifyAccessToken(token);
+  } catch (err) {
+    if (err instanceof AuthError) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="nutrivoice", error="invalid_token"');
+      res.status(401).json({ error: 'Unauthorized', details: err.message, code: 'auth_required' });
+      return null;
+    }
+    console.error('auth error', err);
+    res.status(500).json({ error: err instanceof Error ? err.message : 'Auth not configured' });
+    return null;
+  }
+}
@@ -0,0 +1,49 @@
+import type { VercelRequest } from '@vercel/node';
+
+/**
+ * Answers to a low-confidence follow-up ("how big was the bowl?"). The client sends the food being
+ * clarified in the X-Food-Clarification header together with the answer (audio or text body); the model
+ * then re-estimates that one food and the client replaces the logged item with the result.
+ */
+
+/** The logged food the answer refers to, as sent by the client. */
+export interface ClarificationTarget {
+  name: string;
+  quantity: string;
+  assumptions: string;
+  question: string;
+}
+
+const MAX_FIELD_LENGTH = 200;
+
+const clip = (value: unknown): string => (typeof value === 'string' ? value.trim().slice(0, MAX_FIELD_LENGTH) : '');
+
+/** Parses X-Food-Clarification (URI-encoded JSON object). Malformed headers are ignored rather than rejected. */
+export function getClarificationTarget(req: VercelRequest): ClarificationTarget | null {
+  const header = req.headers['x-food-clarification'];
+  const raw = Array.isArray(header) ? header[0] : header;
+  if (!raw) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(decodeURIComponent(raw));
+  } catch {
+    return null;
+  }
+  const target = (parsed ?? {}) as Record<string, unknown>;
+  const name = clip(target.name);
+  const question = clip(target.question);
+  if (!name || !question) return null;
+  return { name, quantity: clip(target.quantity), assumptions: clip(target.assumptions), question };
+}
+
+/** Tells the model to answer with exactly one revised log_food call; empty without a target. */
+export function buildClarificationInstruction(target: ClarificationTarget | null): string {
+  if (!target) return '';
+  const assumed = target.assumptions ? `, assumed: ${target.assumptions}` : '';
+  return (
+    `\n\nThe user is answering a follow-up about one food already logged: "${target.name}" (${target.quantity || '?'}${assumed}). ` +
+    `Question asked: "${target.question}". ` +
+    'Re-estimate ONLY this food using the answer: call log_food exactly once with the complete revised item ' +
+    '(name, quantity, nutrition, confidence, assumptions). Do not log other foods and do not set meal_type, day_offset or time.'
+  );
+}
@@ -0,0 +1,136 @@
+import type { VercelRequest } from '@vercel/node';
+import type { RejectedFood } from './foodValidation.js';
+import type { LlmToolCall, LlmToolDeclaration } from './llm/index.js';
+
+/**
+ * Voice/typed corrections ("actually make that three eggs", "remove the soda"). The client sends the
+ * foods already logged today in the X-Food-Context header; the model refers to them by their number in
+ * the prompt list and the server maps that number back to the item id before answering.
+ */
+
+/** One already-logged food, as sent by the client. */
+export interface FoodContextItem {
+  id: string;
+  name: string;
+  quantity: string;
+}
+
+/** A resolved correction the client applies with its existing edit/remove flows. */
+export interface FoodCorrection {
+  action: 'update' | 'remove';
+  id: string;
+  /** Name of the targeted item, for the confirmation message. */
+  name: string;
+  /** New quantity (update only); the client rescales nutrition from it. */
+  quantity?: string;
+}
+
+const MAX_CONTEXT_ITEMS = 40;
+const MAX_FIELD_LENGTH = 80;
+const CORRECTION_TOOLS = new Set(['update_food', 'remove_food']);
+
+export const UPDATE_FOOD_SCHEMA: LlmToolDeclaration = {
+  name: 'update_food',
+  description:
+    'Change the quantity of a food that is already logged. Call this when the user corrects an earlier item (e.g. "actually make that three eggs").',
+  parameters: {
+    type: 'OBJECT',
+    properties: {
+      item: { type: 'INTEGER', description: 'Number of the logged item, from the list in the instructions' },
+      quantity: { type: 'STRING', description: 'New total amount (e.g. 3 eggs, 200 g)' },
+    },
+    required: ['item', 'quantity'],
+  },
+};
+
+export const REMOVE_FOOD_SCHEMA: LlmToolDeclaration = {
+  name: 'remove_food',
+  description: 'Delete a food that is already logged. Call this when the user asks to remove or undo an item (e.g. "remove the soda").',
+  parameters: {
+    type: 'OBJECT',
+    properties: {
+      item: { type: 'INTEGER', description: 'Number of the logged item, from the list in the instructions' },
+    },
+    required: ['item'],
+  },
+};
+
+const clip = (value: unknown): string => (typeof value === 'string' ? value.trim().slice(0, MAX_FIELD_LENGTH) : '');
+
+/** Parses X-Food-Context (URI-encoded JSON array). Malformed headers are ignored rather than rejected. */
+export function getFoodContext(req: VercelRequest): FoodContextItem[] {
+  const header = req.headers['x-food-context'];
+  const raw = Array.isArray(header) ? header[0] : header;
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(decodeURIComponent(raw));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed
+    .map((entry) => {
+      const item = (entry ?? {}) as Record<string, unknown>;
+      return { id: clip(item.id), name: clip(item.name), quantity: clip(item.quantity) };
+    })
+    .filter((item) => item.id && item.name)
+    .slice(0, MAX_CONTEXT_ITEMS);
+}
+
+/** update_food/remove_food are only offered when there is something to correct. */
+export const getCorrectionTools = (context: FoodContextItem[]): LlmToolDeclaration[] =>
+  context.length > 0 ? [UPDATE_FOOD_SCHEMA, REMOVE_FOOD_SCHEMA] : [];
+
+/** Numbered list of today's foods plus when to use the correction tools; empty without context. */
+export function buildCorrectionInstruction(context: FoodContextItem[]): string {
+  if (context.length === 0) return '';
+  const list = context.map((item, i) => `${i + 1}. ${item.name} (${item.quantity || '?'})`).join('\n');
+  return (
+    `\n\nFoods already logged today:\n${list}\n` +
+    'If the user corrects one of these (different amount), call update_food with its number and the new total quantity. ' +
+    'If the user asks to remove, delete or undo one of these, call remove_food with its number. ' +
+    'Do NOT call log_food for a correction. Only use a number from the list; if the item is ambiguous or not listed, do nothing for it.'
+  );
+}
+
+export const isCorrectionCall = (call: LlmToolCall): boolean => CORRECTION_TOOLS.has(call.name);
+
+/** Maps one update_food/remove_food call to its item; `reason` explains calls that cannot be applied. */
+export function resolveCorrection(
+  call: LlmToolCall,
+  context: FoodContextItem[]
+): { correction?: FoodCorrection; reason?: string } {
+  const number = Number(call.args.item);
+  const target = Number.isInteger(number) ? context[number - 1] : undefined;
+  if (!target) {
+    return { reason: `No logged item #${String(call.args.item ?? '?')}` };
+  }
+  if (call.name === 'remove_food') {
+    return { correction: { action: 'remove', id: target.id, name: target.name } };
+  }
+  const quantity = clip(call.args.quantity);
+  if (!quantity) {
+    return { reason: `No new quantity for ${target.name}` };
+  }
+  return { correction: { action: 'update', id: target.id, name: target.name, quantity } };
+}
+
+/** Resolves every correction call in a response; unresolvable ones are reported like rejected foods. */
+export function collectCorrections(
+  calls: LlmToolCall[],
+  context: FoodContextItem[]
+): { corrections: FoodCorrection[]; rejected: RejectedFood[] } {
+  const corrections: FoodCorrection[] = [];
+  const rejected: RejectedFood[] = [];
+  calls.filter(isCorrectionCall).forEach((call, index) => {
+    const result = resolveCorrection(call, context);
+    if (result.correction) {
+      corrections.push(result.correction);
+    } else {
+      console.warn(`[${call.name}] unresolved`, { index, reason: result.reason });
+      rejected.push({ index, name: call.name, reason: result.reason ?? 'Unknown item' });
+    }
+  });
+  return { corrections, rejected };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { isMeaningfulCorrection, type CorrectedRow } from './estimateHints.js';
+
+const row = (quantity: string, calories: number, original: CorrectedRow['original']): CorrectedRow => ({
+  name: 'egg',
+  quantity,
+  calories,
+  protein: 6,
+  carbs: 1,
+  fat: 5,
+  original,
+});
+
+describe('isMeaningfulCorrection', () => {
+  it('ignores a portion change that only rescales the estimate', () => {
+    expect(isMeaningfulCorrection(row('3 eggs', 210, { quantity: '2 eggs', calories: 140 }))).toBe(false);
+    expect(isMeaningfulCorrection(row('150 g', 216, { quantity: '100 g', calories: 143 }))).toBe(false);
+  });
+
+  it('ignores rounding at the same quantity', () => {
+    expect(isMeaningfulCorrection(row('2 eggs', 145, { quantity: '2 eggs', calories: 140 }))).toBe(false);
+  });
+
+  it('keeps new values, with or without a new portion', () => {
+    expect(isMeaningfulCorrection(row('2 eggs', 180, { quantity: '2 eggs', calories: 140 }))).toBe(true);
+    expect(isMeaningfulCorrection(row('3 eggs', 270, { quantity: '2 eggs', calories: 140 }))).toBe(true);
+  });
+
+  it('keeps a change between quantities that do not compare', () => {
+    expect(isMeaningfulCorrection(row('2 cups', 140, { quantity: '1 bowl', calories: 140 }))).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+import { rescaleQuantity, resolveQuantity } from '../../lib/units.js';
+import { tokenize } from './foodDb/index.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+/**
+ * Personal hints learned from the user's edits. The client keeps a food's original estimate in
+ * food_items.original_estimate when it is first corrected (table edit or spoken correction); corrections
+ * of the same food are grouped here and summarised in the prompt ("your coffee is 60 kcal, not 5").
+ */
+
+/** A food the user has corrected, with the values of the latest correction. */
+export interface EstimateHint {
+  /** Name as last logged. */
+  name: string;
+  corrections: number;
+  estimatedQuantity: string;
+  estimatedCalories: number;
+  quantity: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+const MAX_CORRECTED_ROWS = 200;
+const MAX_HINTS = 15;
+/** Smaller calorie changes than expected for the quantity are rounding, not corrections. */
+const MIN_CALORIE_CHANGE = 10;
+const MIN_CALORIE_CHANGE_RATIO = 0.1;
+
+export interface CorrectedRow {
+  name: string;
+  quantity: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  original: { quantity: string; calories: number };
+}
+
+const normalizeQuantity = (quantity: string): string => quantity.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const parseOriginal = (value: unknown): CorrectedRow['original'] | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const { quantity, calories } = value as Record<string, unknown>;
+  return typeof quantity === 'string' && typeof calories === 'number' ? { quantity, calories } : null;
+};
+
+/**
+ * Calories the original estimate gives for the row's quantity: scaled when the two quantities compare
+ * ("2 eggs" → "3 eggs"), null when they do not ("1 bowl" → "2 cups" of an unknown food).
+ */
+function expectedCalories(row: CorrectedRow): number | null {
+  if (normalizeQuantity(row.quantity) === normalizeQuantity(row.original.quantity)) return row.original.calories;
+  const previous = resolveQuantity(row.original.quantity, row.name);
+  const rescaled = previous ? rescaleQuantity(previous, row.quantity, row.name) : null;
+  return rescaled && Number.isFinite(rescaled.factor) ? row.original.calories * rescaled.factor : null;
+}
+
+/**
+ * Measured against the estimate scaled to the row's portion, so a portion changed after the correction is
+ * not taken for one.
+ */
+export const isMeaningfulCorrection = (row: CorrectedRow): boolean => {
+  const expected = expectedCalories(row);
+  if (expected === null) return true;
+  const change = Math.abs(row.calories - expected);
+  return change >= MIN_CALORIE_CHANGE && change >= expected * MIN_CALORIE_CHANGE_RATIO;
+};
+
+/** Groups corrections by food (same words in any order); most corrected first, then most recent. */
+function summarizeCorrections(rows: CorrectedRow[]): EstimateHint[] {
+  const groups = new Map<string, CorrectedRow[]>();
+  for (const row of rows) {
+    if (!isMeaningfulCorrection(row)) continue;
+    const key = tokenize(row.name).sort().join(' ');
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+  // Rows come newest first, so group[0] is the latest correction.
+  return [...groups.values()]
+    .map(([latest, ...older]) => ({
+      name: latest.name,
+      corrections: older.length + 1,
+      estimatedQuantity: latest.original.quantity,
+      estimatedCalories: latest.original.calories,
+      quantity: latest.quantity,
+      calories: latest.calories,
+      protein: latest.protein,
+      carbs: latest.carbs,
+      fat: latest.fat,
+    }))
+    .sort((a, b) => b.corrections - a.corrections)
+    .slice(0, MAX_HINTS);
+}
+
+/**
+ * Loads the user's latest corrected foods with the service-role client, filtered by the verified user id.
+ * Without SUPABASE_SERVICE_ROLE_KEY (or if the query fails) the request goes on without hints.
+ */
+export async function loadEstimateHints(userId: string): Promise<EstimateHint[]> {
+  const admin = getSupabaseAdmin();
+  if (!admin) return [];
+  const { data, error } = await admin
+    .from('food_items')
+    .select('name, quantity, calories, protein, carbs, fat, original_estimate')
+    .eq('user_id', userId)
+    .not('corrected_at', 'is', null)
+    .order('corrected_at', { ascending: false })
+    .limit(MAX_CORRECTED_ROWS);
+  if (error) {
+    console.warn('[estimate-hints] load failed; continuing without them', error.message);
+    return [];
+  }
+  const rows = (data ?? []).flatMap((row): CorrectedRow[] => {
+    const original = parseOriginal(row.original_estimate);
+    return original
+      ? [{
+          name: row.name,
+          quantity: row.quantity,
+          calories: row.calories,
+          protein: Number(row.protein),
+          carbs: Number(row.carbs),
+          fat: Number(row.fat),
+          original,
+        }]
+      : [];
+  });
+  return summarizeCorrections(rows);
+}
+
+/** One line per corrected food; empty without hints. */
+export function buildEstimateHintsInstruction(hints: EstimateHint[]): string {
+  if (hints.length === 0) return '';
+  const list = hints
+    .map((hint) => {
+      const times = hint.corrections > 1 ? ` (corrected ${hint.corrections} times)` : '';
+      return (
+        `- ${hint.name}${times}: estimated ${hint.estimatedCalories} kcal for "${hint.estimatedQuantity}", ` +
+        `the user's values are ${hint.calories} kcal, P ${hint.protein} g, C ${hint.carbs} g, F ${hint.fat} g for "${hint.quantity}"`
+      );
+    })
+    .join('\n');
+  return (
+    `\n\nThe user corrected these estimates before:\n${list}\n` +
+    'When they log one of these foods, start from their values and portion, scaled to the amount they say.'
+  );
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { ValidatedFood } from '../foodValidation.js';
+import { MATCH_THRESHOLD, applyFoodDatabase, searchFoods } from './index.js';
+
+const food = (name: string, quantity: string, calories: number): ValidatedFood => ({
+  name,
+  quantity,
+  calories,
+  protein: 10,
+  carbs: 30,
+  fat: 10,
+  fiber: 1,
+  micronutrients: {},
+  portionGrams: 150,
+});
+
+describe('searchFoods', () => {
+  it('matches a name that is an alias', () => {
+    const [best] = searchFoods('banana', 'en-US', 1);
+    expect(best.score).toBe(1);
+  });
+
+  it('lets one extra descriptor through', () => {
+    const [best] = searchFoods('grilled chicken breast', 'en-US', 1);
+    expect(best.score).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+  });
+});
+
+describe('applyFoodDatabase', () => {
+  // A single word matching an alias of another food once scored 0.707 and replaced the estimate.
+  it.each([
+    ['apple pie', '1 slice', 411],
+    ['chicken soup', '1 bowl', 150],
+    ['banana bread', '1 slice', 320],
+    ['buttered toast', '1 slice', 120],
+    ['fried egg', '1 piece', 90],
+    ['chocolate milk', '1 cup', 210],
+  ])('keeps the estimate for "%s"', (name, quantity, calories) => {
+    const result = applyFoodDatabase(food(name, quantity, calories));
+    expect(result.source).toBe('llm');
+    expect(result.calories).toBe(calories);
+  });
+
+  it('uses the table for a plain match', () => {
+    const result = applyFoodDatabase(food('white rice', '100 g', 200));
+    expect(result.source).toBe('database');
+    expect(result.calories).not.toBe(200);
+  });
+});
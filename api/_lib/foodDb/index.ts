@@ -0,0 +1,150 @@
+import { resolveQuantity } from '../../../lib/units.js';
+import type { NutrientSource, ValidatedFood } from '../foodValidation.js';
+import { TACO } from './taco.js';
+import { USDA_SR_LEGACY } from './usdaSrLegacy.js';
+
+/**
+ * Offline nutrient lookup. Each log_food name is matched against bundled tables (a USDA SR Legacy subset
+ * and the Brazilian TACO table); when the match is good and the grams are known, the table's per-100 g
+ * values replace the model's estimate. Anything else keeps the LLM numbers. FOOD_DB=off disables it.
+ */
+
+/** [id, description, aliases, kcal, protein g, carbohydrate g, fat g, fiber g] per 100 g. */
+export type FoodDbRow = [
+  id: string,
+  description: string,
+  aliases: string[],
+  calories: number,
+  protein: number,
+  carbs: number,
+  fat: number,
+  fiber: number,
+];
+
+export type FoodDbSource = 'usda' | 'taco';
+
+export interface FoodDbEntry {
+  id: string;
+  source: FoodDbSource;
+  description: string;
+  per100g: { calories: number; protein: number; carbs: number; fat: number; fiber: number };
+  /** Tokenized aliases (see tokenize). */
+  aliases: string[][];
+}
+
+export interface FoodDbMatch {
+  entry: FoodDbEntry;
+  /** 1 = every word of the name matched an alias; 0 = no alias fully contained in the name. */
+  score: number;
+}
+
+/**
+ * Below this the LLM estimate is kept. Above 1/√2, so one matched word of a two-word name never passes
+ * ("apple pie" is not an apple, "fried egg" not a raw egg); "grilled chicken breast" → chicken breast still does.
+ */
+export const MATCH_THRESHOLD = 0.75;
+
+const SOURCE_LABELS: Record<FoodDbSource, string> = { usda: 'USDA SR Legacy', taco: 'TACO' };
+/** Table preferred on equal scores, so "banana" resolves to the Brazilian variety for pt-BR users. */
+const PREFERRED_SOURCE: Record<'en-US' | 'pt-BR', FoodDbSource> = { 'en-US': 'usda', 'pt-BR': 'taco' };
+
+/** Articles, connectors and serving words that say nothing about what the food is. */
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'with', 'and', 'some', 'fresh', 'plain',
+  'um', 'uma', 'de', 'da', 'do', 'das', 'dos', 'com', 'e',
+  'bowl', 'plate', 'cup', 'glass', 'slice', 'piece', 'serving', 'portion',
+  'tigela', 'prato', 'xicara', 'copo', 'fatia', 'pedaco', 'porcao',
+]);
+
+const singularize = (token: string): string => {
+  if (token.length <= 3) return token;
+  if (token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.endsWith('oes')) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+/** Lowercase, unaccented, singular words without filler; shared by names and aliases so both sides agree. */
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9%]+/g, ' ')
+    .split(' ')
+    .filter((token) => token && !FILLER_WORDS.has(token))
+    .map(singularize);
+
+const toEntries = (rows: FoodDbRow[], source: FoodDbSource): FoodDbEntry[] =>
+  rows.map(([id, description, aliases, calories, protein, carbs, fat, fiber]) => ({
+    id,
+    source,
+    description,
+    per100g: { calories, protein, carbs, fat, fiber },
+    aliases: aliases.map(tokenize).filter((alias) => alias.length > 0),
+  }));
+
+let entries: FoodDbEntry[] | null = null;
+const getEntries = (): FoodDbEntry[] => {
+  entries ??= [...toEntries(USDA_SR_LEGACY, 'usda'), ...toEntries(TACO, 'taco')];
+  return entries;
+};
+
+/**
+ * An alias scores only if all its words appear in the name; the score then falls with the share of
+ * name words it leaves unexplained (sqrt, so one extra descriptor like "grilled" still passes).
+ */
+const scoreAlias = (words: Set<string>, alias: string[]): number => {
+  if (!alias.every((token) => words.has(token))) return 0;
+  return Math.sqrt(alias.length / words.size);
+};
+
+/** Best table entries for a food name, highest score first. */
+export function searchFoods(name: string, language: 'en-US' | 'pt-BR' = 'en-US', limit = 5): FoodDbMatch[] {
+  const words = new Set(tokenize(name));
+  if (words.size === 0) return [];
+  const preferred = PREFERRED_SOURCE[language];
+  return getEntries()
+    .map((entry) => {
+      const best = Math.max(0, ...entry.aliases.map((alias) => scoreAlias(words, alias)));
+      // Tie-breaker only: never lifts a weaker match above a better one from the other table.
+      return { entry, score: best > 0 && entry.source === preferred ? best + 0.001 : best };
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((match) => ({ ...match, score: Math.min(1, Math.round(match.score * 1000) / 1000) }));
+}
+
+const roundTo1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Replaces the estimate with table values when the name matches well and the grams are known, and
+ * records where the numbers came from. Micronutrients and the model's notes are kept either way. Every
+ * food also gets its structured quantity (`measure`, see lib/units), converted to grams where possible.
+ */
+export function applyFoodDatabase<T extends ValidatedFood>(food: T, language: 'en-US' | 'pt-BR' = 'en-US'): T {
+  const measure = resolveQuantity(food.quantity, food.name, food.portionGrams) ?? undefined;
+  const fromLlm = { ...food, measure, source: 'llm' as NutrientSource };
+  if (process.env.FOOD_DB === 'off') return fromLlm;
+  const [best] = searchFoods(food.name, language, 1);
+  if (!best || best.score < MATCH_THRESHOLD) return fromLlm;
+  // resolveQuantity already falls back to portion_grams when the unit cannot be converted.
+  const grams = measure?.grams ?? food.portionGrams;
+  if (!grams || grams <= 0) return fromLlm;
+
+  const factor = grams / 100;
+  const { per100g } = best.entry;
+  return {
+    ...food,
+    calories: Math.round(per100g.calories * factor),
+    protein: roundTo1(per100g.protein * factor),
+    carbs: roundTo1(per100g.carbs * factor),
+    fat: roundTo1(per100g.fat * factor),
+    fiber: roundTo1(per100g.fiber * factor),
+    portionGrams: Math.round(grams),
+    measure,
+    source: 'database',
+    sourceRef: `${SOURCE_LABELS[best.entry.source]}: ${best.entry.description}`,
+  };
+}
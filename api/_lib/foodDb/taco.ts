@@ -0,0 +1,59 @@
+import type { FoodDbRow } from './index.js';
+
+/**
+ * Hand-picked subset of TACO — Tabela Brasileira de Composição de Alimentos (NEPA/UNICAMP, 4th ed.),
+ * per 100 g edible portion: [id, description, aliases, kcal, protein g, carbohydrate g, fat g, fiber g].
+ * Aliases are unaccented Portuguese names as people say them.
+ */
+export const TACO: FoodDbRow[] = [
+  ['taco-arroz-cozido', 'Arroz, tipo 1, cozido', ['arroz', 'arroz branco', 'arroz cozido'], 128, 2.5, 28.1, 0.2, 1.6],
+  ['taco-arroz-integral', 'Arroz, integral, cozido', ['arroz integral'], 124, 2.6, 25.8, 1.0, 2.7],
+  ['taco-feijao-carioca', 'Feijão, carioca, cozido', ['feijao', 'feijao carioca'], 76, 4.8, 13.6, 0.5, 8.5],
+  ['taco-feijao-preto', 'Feijão, preto, cozido', ['feijao preto'], 77, 4.5, 14.0, 0.5, 8.4],
+  ['taco-lentilha', 'Lentilha, cozida', ['lentilha'], 93, 6.3, 16.3, 0.5, 7.9],
+  ['taco-pao-frances', 'Pão, trigo, francês', ['pao', 'pao frances', 'paozinho', 'pao de sal'], 300, 8.0, 58.6, 3.1, 2.3],
+  ['taco-pao-de-queijo', 'Pão, de queijo, assado', ['pao de queijo'], 363, 5.1, 34.2, 24.6, 0.6],
+  ['taco-cuscuz', 'Cuscuz, de milho, cozido com sal', ['cuscuz', 'cuscuz de milho'], 113, 2.2, 25.3, 0.7, 2.1],
+  ['taco-farinha-mandioca', 'Farinha, de mandioca, torrada', ['farinha de mandioca', 'farinha'], 365, 1.2, 89.2, 0.3, 6.5],
+  ['taco-mandioca-cozida', 'Mandioca, cozida', ['mandioca', 'aipim', 'macaxeira'], 125, 0.6, 30.1, 0.3, 1.6],
+  ['taco-batata-cozida', 'Batata, inglesa, cozida', ['batata', 'batata cozida', 'batata inglesa'], 52, 1.2, 11.9, 0.0, 1.3],
+  ['taco-batata-doce', 'Batata, doce, cozida', ['batata doce'], 77, 0.6, 18.4, 0.1, 2.2],
+  ['taco-aveia', 'Aveia, flocos, crua', ['aveia', 'aveia em flocos'], 394, 13.9, 66.6, 8.5, 9.1],
+  ['taco-ovo-cozido', 'Ovo, de galinha, inteiro, cozido/10minutos', ['ovo', 'ovo cozido'], 146, 13.3, 0.6, 9.5, 0],
+  ['taco-ovo-frito', 'Ovo, de galinha, inteiro, frito', ['ovo frito'], 240, 15.6, 1.2, 18.6, 0],
+  ['taco-frango-peito', 'Frango, peito, sem pele, grelhado', ['frango', 'peito de frango', 'frango grelhado', 'file de frango'], 159, 32.0, 0, 2.5, 0],
+  ['taco-patinho', 'Carne, bovina, patinho, sem gordura, grelhado', ['patinho', 'bife', 'carne', 'carne grelhada'], 219, 35.9, 0, 7.3, 0],
+  ['taco-carne-moida', 'Carne, bovina, acém, moído, cozido', ['carne moida'], 212, 26.7, 0, 10.9, 0],
+  ['taco-picanha', 'Carne, bovina, picanha, com gordura, grelhada', ['picanha'], 289, 26.4, 0, 19.5, 0],
+  ['taco-linguica', 'Linguiça, porco, grelhada', ['linguica'], 296, 23.2, 0, 21.9, 0],
+  ['taco-sardinha', 'Sardinha, conserva em óleo', ['sardinha'], 285, 15.9, 0, 24.0, 0],
+  ['taco-coxinha', 'Coxinha de frango, frita', ['coxinha'], 283, 9.6, 34.5, 11.8, 5.0],
+  ['taco-queijo-minas', 'Queijo, minas, frescal', ['queijo minas', 'queijo branco', 'queijo'], 264, 17.4, 3.2, 20.2, 0],
+  ['taco-mucarela', 'Queijo, muçarela', ['mucarela', 'mussarela', 'muzarela'], 330, 22.6, 3.0, 25.2, 0],
+  ['taco-requeijao', 'Requeijão, cremoso', ['requeijao'], 257, 9.6, 2.4, 23.4, 0],
+  ['taco-iogurte-natural', 'Iogurte, natural', ['iogurte', 'iogurte natural'], 51, 4.1, 1.9, 3.0, 0],
+  ['taco-manteiga', 'Manteiga, com sal', ['manteiga'], 726, 0.4, 0.1, 82.4, 0],
+  ['taco-azeite', 'Azeite, de oliva, extra virgem', ['azeite', 'azeite de oliva'], 884, 0, 0, 100, 0],
+  ['taco-acucar', 'Açúcar, refinado', ['acucar'], 387, 0.3, 99.5, 0, 0],
+  ['taco-banana-prata', 'Banana, prata, crua', ['banana', 'banana prata'], 98, 1.3, 26.0, 0.1, 2.0],
+  ['taco-banana-nanica', 'Banana, nanica, crua', ['banana nanica', 'banana dagua'], 92, 1.4, 23.8, 0.1, 1.9],
+  ['taco-maca', 'Maçã, Fuji, com casca, crua', ['maca'], 56, 0.3, 15.2, 0.0, 1.3],
+  ['taco-laranja', 'Laranja, pêra, crua', ['laranja'], 37, 1.0, 8.9, 0.1, 0.8],
+  ['taco-mamao', 'Mamão, Papaia, cru', ['mamao', 'mamao papaia'], 40, 0.5, 10.4, 0.1, 1.0],
+  ['taco-manga', 'Manga, Tommy Atkins, crua', ['manga'], 51, 0.9, 12.8, 0.2, 2.1],
+  ['taco-abacate', 'Abacate, cru', ['abacate'], 96, 1.2, 6.0, 8.4, 6.3],
+  ['taco-acai', 'Açaí, polpa, congelada', ['acai', 'polpa de acai'], 58, 0.8, 6.2, 3.9, 2.6],
+  ['taco-goiaba', 'Goiaba, vermelha, com casca, crua', ['goiaba'], 54, 1.1, 13.0, 0.4, 6.2],
+  ['taco-melancia', 'Melancia, crua', ['melancia'], 33, 0.9, 8.1, 0.0, 0.1],
+  ['taco-abacaxi', 'Abacaxi, cru', ['abacaxi'], 48, 0.9, 12.3, 0.1, 1.0],
+  ['taco-uva', 'Uva, Itália, crua', ['uva', 'uvas'], 53, 0.7, 13.6, 0.2, 0.9],
+  ['taco-morango', 'Morango, cru', ['morango', 'morangos'], 30, 0.9, 6.8, 0.3, 1.7],
+  ['taco-alface', 'Alface, crespa, crua', ['alface'], 11, 1.3, 1.7, 0.2, 1.8],
+  ['taco-tomate', 'Tomate, com semente, cru', ['tomate'], 15, 1.1, 3.1, 0.2, 1.2],
+  ['taco-cenoura', 'Cenoura, crua', ['cenoura'], 34, 1.3, 7.7, 0.2, 3.2],
+  ['taco-brocolis', 'Brócolis, cozido', ['brocolis'], 25, 2.1, 4.4, 0.5, 3.4],
+  ['taco-couve', 'Couve, manteiga, refogada', ['couve', 'couve refogada'], 90, 1.7, 8.7, 6.6, 5.7],
+  ['taco-cafe', 'Café, infusão 10%', ['cafe', 'cafezinho', 'cafe preto'], 9, 0.7, 1.5, 0.1, 0],
+  ['taco-refrigerante-cola', 'Refrigerante, tipo cola', ['refrigerante', 'coca cola', 'refrigerante de cola'], 34, 0, 8.7, 0, 0],
+  ['taco-cerveja', 'Cerveja, pilsen', ['cerveja'], 41, 0.6, 3.3, 0, 0],
+];
@@ -0,0 +1,74 @@
+import type { FoodDbRow } from './index.js';
+
+/**
+ * Hand-picked subset of USDA FoodData Central "SR Legacy" (April 2018), per 100 g edible portion:
+ * [id, description, aliases, kcal, protein g, carbohydrate g, fat g, fiber g].
+ * Aliases are the everyday names the model tends to use; keep them lowercase and unaccented.
+ */
+export const USDA_SR_LEGACY: FoodDbRow[] = [
+  ['usda-egg-raw', 'Egg, whole, raw, fresh', ['egg', 'eggs', 'whole egg'], 143, 12.56, 0.72, 9.51, 0],
+  ['usda-egg-scrambled', 'Egg, whole, cooked, scrambled', ['scrambled egg', 'scrambled eggs'], 149, 9.99, 1.61, 10.98, 0],
+  ['usda-egg-boiled', 'Egg, whole, cooked, hard-boiled', ['boiled egg', 'hard boiled egg', 'hard-boiled egg'], 155, 12.58, 1.12, 10.61, 0],
+  ['usda-bread-white', 'Bread, white, commercially prepared', ['white bread', 'bread', 'toast', 'white toast'], 266, 7.64, 50.61, 3.29, 2.4],
+  ['usda-bread-whole-wheat', 'Bread, whole-wheat, commercially prepared', ['whole wheat bread', 'whole wheat toast', 'wholemeal bread'], 247, 12.95, 41.29, 3.35, 6.8],
+  ['usda-croissant', 'Croissants, butter', ['croissant'], 406, 8.2, 45.8, 21.0, 2.6],
+  ['usda-tortilla-corn', 'Tortillas, ready-to-bake or -fry, corn', ['corn tortilla'], 218, 5.7, 44.64, 2.85, 6.3],
+  ['usda-banana', 'Bananas, raw', ['banana'], 89, 1.09, 22.84, 0.33, 2.6],
+  ['usda-apple', 'Apples, raw, with skin', ['apple'], 52, 0.26, 13.81, 0.17, 2.4],
+  ['usda-orange', 'Oranges, raw, all commercial varieties', ['orange'], 47, 0.94, 11.75, 0.12, 2.4],
+  ['usda-strawberries', 'Strawberries, raw', ['strawberry', 'strawberries'], 32, 0.67, 7.68, 0.3, 2.0],
+  ['usda-blueberries', 'Blueberries, raw', ['blueberry', 'blueberries'], 57, 0.74, 14.49, 0.33, 2.4],
+  ['usda-grapes', 'Grapes, red or green, raw', ['grape', 'grapes'], 69, 0.72, 18.1, 0.16, 0.9],
+  ['usda-watermelon', 'Watermelon, raw', ['watermelon'], 30, 0.61, 7.55, 0.15, 0.4],
+  ['usda-mango', 'Mangos, raw', ['mango'], 60, 0.82, 14.98, 0.38, 1.6],
+  ['usda-pineapple', 'Pineapple, raw, all varieties', ['pineapple'], 50, 0.54, 13.12, 0.12, 1.4],
+  ['usda-papaya', 'Papayas, raw', ['papaya'], 43, 0.47, 10.82, 0.26, 1.7],
+  ['usda-avocado', 'Avocados, raw, all commercial varieties', ['avocado'], 160, 2.0, 8.53, 14.66, 6.7],
+  ['usda-rice-white', 'Rice, white, long-grain, regular, enriched, cooked', ['rice', 'white rice', 'cooked rice'], 130, 2.69, 28.17, 0.28, 0.4],
+  ['usda-rice-brown', 'Rice, brown, long-grain, cooked', ['brown rice'], 111, 2.58, 22.96, 0.9, 1.8],
+  ['usda-pasta', 'Pasta, cooked, enriched, without added salt', ['pasta', 'spaghetti', 'penne', 'macaroni', 'noodles'], 158, 5.8, 30.86, 0.93, 1.8],
+  ['usda-oats-dry', 'Cereals, oats, regular and quick, not fortified, dry', ['oats', 'rolled oats', 'oat flakes'], 379, 13.15, 67.7, 6.52, 10.1],
+  ['usda-oatmeal', 'Cereals, oats, regular and quick, cooked with water', ['oatmeal', 'porridge'], 71, 2.54, 12.0, 1.52, 1.7],
+  ['usda-potato-boiled', 'Potatoes, boiled, cooked without skin', ['potato', 'boiled potato', 'potatoes'], 86, 1.71, 20.01, 0.1, 1.8],
+  ['usda-french-fries', 'Fast foods, potato, french fried in vegetable oil', ['french fries', 'fries', 'chips'], 312, 3.43, 41.44, 14.73, 3.8],
+  ['usda-sweet-potato', 'Sweet potato, cooked, baked in skin', ['sweet potato'], 90, 2.01, 20.71, 0.15, 3.3],
+  ['usda-black-beans', 'Beans, black, mature seeds, cooked, boiled, without salt', ['black beans', 'beans'], 132, 8.86, 23.71, 0.54, 8.7],
+  ['usda-lentils', 'Lentils, mature seeds, cooked, boiled, without salt', ['lentils', 'lentil'], 116, 9.02, 20.13, 0.38, 7.9],
+  ['usda-chickpeas', 'Chickpeas, mature seeds, cooked, boiled, without salt', ['chickpeas', 'garbanzo beans'], 164, 8.86, 27.42, 2.59, 7.6],
+  ['usda-tofu-firm', 'Tofu, raw, firm, prepared with calcium sulfate', ['tofu'], 144, 15.78, 4.28, 8.72, 2.3],
+  ['usda-chicken-breast', 'Chicken, broilers or fryers, breast, meat only, cooked, roasted', ['chicken breast', 'chicken', 'grilled chicken', 'grilled chicken breast', 'roast chicken breast'], 165, 31.02, 0, 3.57, 0],
+  ['usda-ground-beef', 'Beef, ground, 85% lean meat / 15% fat, crumbles, cooked, pan-browned', ['ground beef', 'minced beef'], 250, 25.93, 0, 15.41, 0],
+  ['usda-bacon', 'Pork, cured, bacon, cooked, pan-fried', ['bacon'], 541, 37.04, 1.43, 41.78, 0],
+  ['usda-salmon', 'Fish, salmon, Atlantic, farmed, cooked, dry heat', ['salmon', 'grilled salmon', 'baked salmon'], 206, 22.1, 0, 12.35, 0],
+  ['usda-tuna-canned', 'Fish, tuna, light, canned in water, drained solids', ['tuna', 'canned tuna'], 116, 25.51, 0, 0.82, 0],
+  ['usda-shrimp', 'Crustaceans, shrimp, cooked', ['shrimp', 'prawns'], 99, 23.98, 0.2, 0.28, 0],
+  ['usda-milk-whole', 'Milk, whole, 3.25% milkfat', ['milk', 'whole milk'], 61, 3.15, 4.8, 3.25, 0],
+  ['usda-milk-2', 'Milk, reduced fat, fluid, 2% milkfat', ['reduced fat milk', '2% milk'], 50, 3.3, 4.8, 1.98, 0],
+  ['usda-yogurt-plain', 'Yogurt, plain, whole milk', ['yogurt', 'plain yogurt', 'natural yogurt'], 61, 3.47, 4.66, 3.25, 0],
+  ['usda-yogurt-greek', 'Yogurt, Greek, plain, nonfat', ['greek yogurt'], 59, 10.19, 3.6, 0.39, 0],
+  ['usda-cheddar', 'Cheese, cheddar', ['cheddar', 'cheddar cheese', 'cheese'], 403, 24.9, 1.28, 33.14, 0],
+  ['usda-mozzarella', 'Cheese, mozzarella, whole milk', ['mozzarella'], 300, 22.17, 2.19, 22.35, 0],
+  ['usda-butter', 'Butter, salted', ['butter'], 717, 0.85, 0.06, 81.11, 0],
+  ['usda-olive-oil', 'Oil, olive, salad or cooking', ['olive oil'], 884, 0, 0, 100, 0],
+  ['usda-peanut-butter', 'Peanut butter, smooth style, without salt', ['peanut butter'], 588, 25.09, 19.56, 50.39, 6.0],
+  ['usda-almonds', 'Nuts, almonds', ['almonds', 'almond'], 579, 21.15, 21.55, 49.93, 12.5],
+  ['usda-walnuts', 'Nuts, walnuts, english', ['walnuts', 'walnut'], 654, 15.23, 13.71, 65.21, 6.7],
+  ['usda-peanuts', 'Peanuts, all types, dry-roasted, without salt', ['peanuts', 'peanut'], 585, 23.68, 21.51, 49.66, 8.0],
+  ['usda-broccoli', 'Broccoli, cooked, boiled, drained, without salt', ['broccoli'], 35, 2.38, 7.18, 0.41, 3.3],
+  ['usda-carrot', 'Carrots, raw', ['carrot', 'carrots'], 41, 0.93, 9.58, 0.24, 2.8],
+  ['usda-tomato', 'Tomatoes, red, ripe, raw, year round average', ['tomato', 'tomatoes'], 18, 0.88, 3.89, 0.2, 1.2],
+  ['usda-lettuce', 'Lettuce, green leaf, raw', ['lettuce'], 15, 1.36, 2.87, 0.15, 1.3],
+  ['usda-spinach', 'Spinach, raw', ['spinach'], 23, 2.86, 3.63, 0.39, 2.2],
+  ['usda-cucumber', 'Cucumber, with peel, raw', ['cucumber'], 15, 0.65, 3.63, 0.11, 0.5],
+  ['usda-onion', 'Onions, raw', ['onion'], 40, 1.1, 9.34, 0.1, 1.7],
+  ['usda-pizza-cheese', 'Fast foods, pizza chain, 14" pizza, cheese topping, regular crust', ['cheese pizza', 'pizza'], 266, 11.39, 33.33, 9.69, 2.3],
+  ['usda-dark-chocolate', 'Chocolate, dark, 70-85% cacao solids', ['dark chocolate'], 598, 7.79, 45.9, 42.63, 10.9],
+  ['usda-ice-cream', 'Ice creams, vanilla', ['ice cream', 'vanilla ice cream'], 207, 3.5, 23.6, 11.0, 0.7],
+  ['usda-honey', 'Honey', ['honey'], 304, 0.3, 82.4, 0, 0.2],
+  ['usda-sugar', 'Sugars, granulated', ['sugar'], 387, 0, 99.98, 0, 0],
+  ['usda-coffee', 'Beverages, coffee, brewed, prepared with tap water', ['coffee', 'black coffee', 'brewed coffee'], 1, 0.12, 0, 0.02, 0],
+  ['usda-orange-juice', 'Orange juice, raw', ['orange juice'], 45, 0.7, 10.4, 0.2, 0.2],
+  ['usda-cola', 'Beverages, carbonated, cola, contains caffeine', ['cola', 'coke', 'soda'], 37, 0.07, 9.56, 0.02, 0],
+  ['usda-beer', 'Alcoholic beverage, beer, regular, all', ['beer'], 43, 0.46, 3.55, 0, 0],
+  ['usda-red-wine', 'Alcoholic beverage, wine, table, red', ['red wine', 'wine'], 85, 0.07, 2.61, 0, 0],
+];
@@ -0,0 +1,175 @@
+import { resolveQuantity, unitKind, type FoodQuantity } from '../../lib/units.js';
+import { tokenize } from './foodDb/index.js';
+import type { ValidatedFood } from './foodValidation.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+/**
+ * The user's food library (custom_foods): foods they log often with their own values per serving. Their
+ * recipes join it as one food each, valued per serving from the stored batch totals. The library is loaded
+ * for the verified user, listed in the prompt so the model names those foods the same way, and matched
+ * against every logged name before the food tables (see ./foodDb). A match replaces the estimate with the
+ * saved values scaled to the quantity said.
+ */
+
+export interface LibraryFood {
+  name: string;
+  aliases: string[];
+  /** What the values are for, e.g. "1 scoop (30 g)". */
+  serving: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium?: number;
+  addedSugar?: number;
+  saturatedFat?: number;
+  /** Set for recipes; logged servings link back to it. */
+  recipeId?: string;
+}
+
+/** Most recently updated foods sent to the model; the rest are still matched by name. */
+const MAX_PROMPT_FOODS = 40;
+const MAX_LIBRARY_FOODS = 200;
+/** Same scoring as the food tables, but stricter: the user's own foods should not catch look-alikes. */
+const LIBRARY_MATCH_THRESHOLD = 0.8;
+
+const toOptional = (value: number | null): number | undefined => (value != null ? Number(value) : undefined);
+
+const roundTo1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Loads the library with the service-role client, filtered by the verified user id. Without
+ * SUPABASE_SERVICE_ROLE_KEY (or if the query fails) the request goes on without a library.
+ */
+export async function loadFoodLibrary(userId: string): Promise<LibraryFood[]> {
+  const admin = getSupabaseAdmin();
+  if (!admin) return [];
+  const [foodsResult, recipesResult] = await Promise.all([
+    admin
+      .from('custom_foods')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(MAX_LIBRARY_FOODS),
+    admin
+      .from('recipes')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(MAX_LIBRARY_FOODS),
+  ]);
+  const error = foodsResult.error ?? recipesResult.error;
+  if (error) {
+    console.warn('[food-library] load failed; continuing without it', error.message);
+    return [];
+  }
+  const recipes = (recipesResult.data ?? []).map((row): LibraryFood => {
+    const perServing = (value: number | null) => (value != null ? roundTo1(Number(value) / Number(row.servings)) : undefined);
+    return {
+      name: row.name,
+      aliases: [],
+      serving: '1 serving',
+      calories: Math.round(row.calories / Number(row.servings)),
+      protein: perServing(row.protein) ?? 0,
+      carbs: perServing(row.carbs) ?? 0,
+      fat: perServing(row.fat) ?? 0,
+      fiber: perServing(row.fiber) ?? 0,
+      sodium: perServing(row.sodium),
+      addedSugar: perServing(row.added_sugar),
+      saturatedFat: perServing(row.saturated_fat),
+      recipeId: row.id,
+    };
+  });
+  const foods = (foodsResult.data ?? []).map((row) => ({
+    name: row.name,
+    aliases: row.aliases ?? [],
+    serving: row.serving,
+    calories: row.calories,
+    protein: Number(row.protein),
+    carbs: Number(row.carbs),
+    fat: Number(row.fat),
+    fiber: Number(row.fiber),
+    sodium: toOptional(row.sodium),
+    addedSugar: toOptional(row.added_sugar),
+    saturatedFat: toOptional(row.saturated_fat),
+  }));
+  return [...foods, ...recipes];
+}
+
+/** Numbered list of saved foods and how to log them; empty without a library. */
+export function buildLibraryInstruction(library: LibraryFood[]): string {
+  if (library.length === 0) return '';
+  const list = library
+    .slice(0, MAX_PROMPT_FOODS)
+    .map((food, i) => {
+      const aliases = food.aliases.length > 0 ? ` (also: ${food.aliases.join(', ')})` : '';
+      return `${i + 1}. ${food.name}${aliases}, ${food.recipeId ? 'home recipe, ' : ''}serving: ${food.serving}`;
+    })
+    .join('\n');
+  return (
+    `\n\nThe user's saved foods:\n${list}\n` +
+    'When the user mentions one of these, call log_food with exactly that name and the amount said as quantity ' +
+    '(e.g. "2 servings", "1.5 scoops"); its saved values will be used.'
+  );
+}
+
+/** Best library food for a name: every word of a name or alias must appear, as in the food tables. */
+function findLibraryFood(name: string, library: LibraryFood[]): LibraryFood | null {
+  const words = new Set(tokenize(name));
+  if (words.size === 0) return null;
+  let best: { food: LibraryFood; score: number } | null = null;
+  for (const food of library) {
+    for (const alias of [food.name, ...food.aliases].map(tokenize)) {
+      if (alias.length === 0 || !alias.every((token) => words.has(token))) continue;
+      const score = Math.sqrt(alias.length / words.size);
+      if (!best || score > best.score) best = { food, score };
+    }
+  }
+  return best && best.score >= LIBRARY_MATCH_THRESHOLD ? best.food : null;
+}
+
+/**
+ * Servings in the logged quantity. Same unit as the saved serving: ratio of amounts; both convertible
+ * to grams: ratio of grams; a count ("2", "2 bowls") against a weighed serving: that many servings.
+ */
+function countServings(logged: FoodQuantity | null, serving: FoodQuantity | null): number {
+  if (!logged) return 1;
+  if (serving && logged.unit === serving.unit) return logged.amount / serving.amount;
+  if (serving?.grams && logged.grams) return logged.grams / serving.grams;
+  return unitKind(logged.unit) === 'count' ? logged.amount : 1;
+}
+
+/**
+ * The food with the saved values when its name matches a library food, else null. The model's notes
+ * and micronutrients are kept; a follow-up question is dropped since the serving is known.
+ */
+export function applyFoodLibrary<T extends ValidatedFood>(food: T, library: LibraryFood[]): T | null {
+  if (library.length === 0) return null;
+  const saved = findLibraryFood(food.name, library);
+  if (!saved) return null;
+  const serving = resolveQuantity(saved.serving, saved.name);
+  const logged = resolveQuantity(food.quantity, saved.name);
+  const factor = countServings(logged, serving);
+  if (!Number.isFinite(factor) || factor <= 0) return null;
+  const scale = (value: number | undefined) => (value != null ? roundTo1(value * factor) : undefined);
+  const grams = serving?.grams ? roundTo1(serving.grams * factor) : logged?.grams;
+  return {
+    ...food,
+    name: saved.name,
+    calories: Math.round(saved.calories * factor),
+    protein: roundTo1(saved.protein * factor),
+    carbs: roundTo1(saved.carbs * factor),
+    fat: roundTo1(saved.fat * factor),
+    fiber: roundTo1(saved.fiber * factor),
+    sodium: saved.sodium != null ? Math.round(saved.sodium * factor) : undefined,
+    addedSugar: scale(saved.addedSugar),
+    saturatedFat: scale(saved.saturatedFat),
+    portionGrams: grams ? Math.round(grams) : food.portionGrams,
+    measure: logged ? { ...logged, grams } : undefined,
+    clarification: undefined,
+    source: saved.recipeId ? 'recipe' : 'library',
+    sourceRef: saved.name,
+    recipeId: saved.recipeId,
+  };
+}
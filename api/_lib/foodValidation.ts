@@ -0,0 +1,235 @@
+import { normalizeMicronutrients, type Micronutrients } from '../../lib/micronutrients.js';
+import type { FoodQuantity } from '../../lib/units.js';
+
+/**
+ * Validation and normalization of log_food arguments before they reach the client.
+ * Mirrors the food_items constraints (integer calories, non-negative macros) so a bad
+ * estimate is dropped here with a reason instead of failing the insert later.
+ */
+
+export interface ValidatedFood {
+  name: string;
+  quantity: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  /** Milligrams; like added sugar and saturated fat, absent when the model did not estimate it. */
+  sodium?: number;
+  /** Grams of added sugars, at most carbs. */
+  addedSugar?: number;
+  /** Grams, at most fat. */
+  saturatedFat?: number;
+  /** Vitamins and minerals in canonical units (see lib/micronutrients); unknown names are dropped. */
+  micronutrients: Micronutrients;
+  /** When the user said which meal this was ("for breakfast"). */
+  mealType?: MealType;
+  /** Days relative to today (0 today, -1 yesterday); only past days within MAX_DAYS_BACK. */
+  dayOffset?: number;
+  /** Explicit local time, "HH:MM" 24h. */
+  time?: string;
+  /** Model's confidence in the estimate, 0–1. */
+  confidence?: number;
+  /** Portion weight the estimate assumes. */
+  portionGrams?: number;
+  /** What the model assumed (portion, preparation), in the user's language. */
+  assumptions?: string;
+  /** Follow-up for low-confidence items, answered by voice or tap to re-estimate the food. */
+  clarification?: FoodClarification;
+  /** Where the nutrition numbers come from; set by the food database lookup (see ./foodDb). */
+  source?: NutrientSource;
+  /**
+   * Table entry used when source is "database" (e.g. "TACO: Arroz, tipo 1, cozido"), or the saved food's
+   * name for "library" and the recipe's name for "recipe".
+   */
+  sourceRef?: string;
+  /** Recipe a "recipe" serving was logged from. */
+  recipeId?: string;
+  /** Amount, unit and grams-equivalent parsed from quantity (see lib/units). */
+  measure?: FoodQuantity;
+}
+
+export type NutrientSource = 'database' | 'llm' | 'library' | 'recipe';
+
+export interface FoodClarification {
+  question: string;
+  /** Short tap answers ("small", "medium", "large"); may be empty. */
+  options: string[];
+}
+
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+export type MealType = (typeof MEAL_TYPES)[number];
+export type MealPlacement = Pick<ValidatedFood, 'mealType' | 'dayOffset' | 'time'>;
+export type LimitNutrients = Pick<ValidatedFood, 'sodium' | 'addedSugar' | 'saturatedFat'>;
+export type EstimateNotes = Pick<ValidatedFood, 'confidence' | 'portionGrams' | 'assumptions' | 'clarification'>;
+
+export interface RejectedFood {
+  /** Position of the call in the model response. */
+  index: number;
+  name: string;
+  reason: string;
+}
+
+const MAX_NAME_LENGTH = 120;
+const MAX_QUANTITY_LENGTH = 60;
+/** Upper bounds for a single logged item; anything above is a hallucination or unit mix-up. */
+const MAX_CALORIES = 5000;
+const MAX_MACRO_GRAMS = 500;
+const MAX_SODIUM_MG = 20000;
+/** Oldest relative day a spoken "last Monday" may land on. */
+export const MAX_DAYS_BACK = 7;
+const MAX_ASSUMPTIONS_LENGTH = 200;
+const MAX_QUESTION_LENGTH = 120;
+const MAX_OPTION_LENGTH = 40;
+const MAX_OPTIONS = 4;
+/** Below this the client asks the follow-up; confident items drop any question the model added. */
+export const LOW_CONFIDENCE = 0.6;
+
+const cleanText = (value: unknown, maxLength: number): string => {
+  if (typeof value !== 'string' && typeof value !== 'number') return '';
+  return String(value).replace(/\s+/g, ' ').trim().slice(0, maxLength);
+};
+
+/** Accepts numbers and numeric strings such as "12", "12.5", "12,5 g" or "250kcal". */
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(-?\d+(?:[.,]\d+)?)\s*(?:k?cal|g|grams?)?$/i);
+  if (!match) return null;
+  const parsed = Number(match[1].replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const roundTo1 = (value: number): number => Math.round(value * 10) / 10;
+
+/** Returns the cleaned grams, or a rejection reason. Missing macros default to 0. */
+const normalizeMacro = (value: unknown, label: string): { value: number; reason?: string } => {
+  if (value === undefined || value === null || value === '') return { value: 0 };
+  const parsed = toNumber(value);
+  if (parsed === null) return { value: 0, reason: `${label} is not a number (${String(value).slice(0, 20)})` };
+  if (parsed > MAX_MACRO_GRAMS) return { value: 0, reason: `${label} of ${parsed} g is not plausible` };
+  // Tiny negatives are rounding noise from the model; clamp rather than reject.
+  return { value: Math.max(0, roundTo1(parsed)) };
+};
+
+/**
+ * Sodium, added sugar and saturated fat are optional and never reject the food: implausible values are
+ * dropped, and sugar and saturated fat are capped at the carbs and fat they are part of.
+ */
+const normalizeLimitNutrients = (
+  args: Record<string, unknown>,
+  macros: { carbs: number; fat: number }
+): LimitNutrients => {
+  const nutrients: LimitNutrients = {};
+  const sodium = toNumber(args.sodium);
+  if (sodium !== null && sodium >= 0 && sodium <= MAX_SODIUM_MG) nutrients.sodium = Math.round(sodium);
+  const addedSugar = toNumber(args.added_sugar);
+  if (addedSugar !== null && addedSugar >= 0) nutrients.addedSugar = Math.min(roundTo1(addedSugar), macros.carbs);
+  const saturatedFat = toNumber(args.saturated_fat);
+  if (saturatedFat !== null && saturatedFat >= 0) nutrients.saturatedFat = Math.min(roundTo1(saturatedFat), macros.fat);
+  return nutrients;
+};
+
+/**
+ * Optional meal placement. Unlike nutrition values these never reject the food: an unknown meal type or
+ * a future/too-old day simply falls back to "now".
+ */
+const normalizePlacement = (args: Record<string, unknown>): MealPlacement => {
+  const placement: MealPlacement = {};
+  const mealType = typeof args.meal_type === 'string' ? args.meal_type.trim().toLowerCase() : '';
+  if ((MEAL_TYPES as readonly string[]).includes(mealType)) placement.mealType = mealType as MealType;
+
+  const dayOffset = toNumber(args.day_offset);
+  if (dayOffset !== null && Number.isInteger(dayOffset) && dayOffset <= 0 && dayOffset >= -MAX_DAYS_BACK) {
+    placement.dayOffset = dayOffset;
+  }
+
+  const time = typeof args.time === 'string' ? args.time.trim().match(/^([01]?\d|2[0-3])[:h]([0-5]\d)$/) : null;
+  if (time) placement.time = `${time[1].padStart(2, '0')}:${time[2]}`;
+  return placement;
+};
+
+/**
+ * Optional confidence notes. Like placement they never reject the food. Confidence given as a
+ * percentage (e.g. 70) is scaled to 0–1.
+ */
+const normalizeEstimateNotes = (args: Record<string, unknown>): EstimateNotes => {
+  const notes: EstimateNotes = {};
+  const confidence = toNumber(args.confidence);
+  if (confidence !== null && confidence >= 0 && confidence <= 100) {
+    notes.confidence = Math.round((confidence > 1 ? confidence / 100 : confidence) * 100) / 100;
+  }
+  const grams = toNumber(args.portion_grams);
+  if (grams !== null && grams > 0 && grams <= 5000) notes.portionGrams = Math.round(grams);
+  const assumptions = cleanText(args.assumptions, MAX_ASSUMPTIONS_LENGTH);
+  if (assumptions) notes.assumptions = assumptions;
+
+  const question = cleanText(args.clarification, MAX_QUESTION_LENGTH);
+  if (question && (notes.confidence === undefined || notes.confidence < LOW_CONFIDENCE)) {
+    const rawOptions = Array.isArray(args.clarification_options)
+      ? args.clarification_options
+      : typeof args.clarification_options === 'string'
+        ? args.clarification_options.split(',')
+        : [];
+    const options = rawOptions
+      .map((option) => cleanText(option, MAX_OPTION_LENGTH))
+      .filter(Boolean)
+      .slice(0, MAX_OPTIONS);
+    notes.clarification = { question, options };
+  }
+  return notes;
+};
+
+export const validateFood = (args: Record<string, unknown>): { food?: ValidatedFood; reason?: string } => {
+  const name = cleanText(args.name, MAX_NAME_LENGTH);
+  if (!name) return { reason: 'missing name' };
+
+  const calories = toNumber(args.calories);
+  if (calories === null) return { reason: 'calories missing or not a number' };
+  if (calories < 0) return { reason: `negative calories (${calories})` };
+  if (calories > MAX_CALORIES) return { reason: `${calories} kcal is not plausible for one item` };
+
+  const macros = {
+    protein: normalizeMacro(args.protein, 'protein'),
+    carbs: normalizeMacro(args.carbs, 'carbs'),
+    fat: normalizeMacro(args.fat, 'fat'),
+    fiber: normalizeMacro(args.fiber, 'fiber'),
+  };
+  const macroError = Object.values(macros).find((macro) => macro.reason);
+  if (macroError) return { reason: macroError.reason };
+
+  return {
+    food: {
+      name,
+      quantity: cleanText(args.quantity, MAX_QUANTITY_LENGTH) || '1 serving',
+      calories: Math.round(calories),
+      protein: macros.protein.value,
+      carbs: macros.carbs.value,
+      fat: macros.fat.value,
+      fiber: macros.fiber.value,
+      ...normalizeLimitNutrients(args, { carbs: macros.carbs.value, fat: macros.fat.value }),
+      micronutrients: normalizeMicronutrients(args.micronutrients),
+      ...normalizePlacement(args),
+      ...normalizeEstimateNotes(args),
+    },
+  };
+};
+
+/** Splits raw log_food arguments into accepted foods and per-item rejections. */
+export const validateFoods = (
+  rawFoods: Record<string, unknown>[]
+): { foods: ValidatedFood[]; rejected: RejectedFood[] } => {
+  const foods: ValidatedFood[] = [];
+  const rejected: RejectedFood[] = [];
+  rawFoods.forEach((raw, index) => {
+    const result = validateFood(raw);
+    if (result.food) {
+      foods.push(result.food);
+    } else {
+      rejected.push({ index, name: cleanText(raw.name, MAX_NAME_LENGTH) || '?', reason: result.reason ?? 'invalid' });
+    }
+  });
+  if (rejected.length > 0) console.warn('[log_food] rejected items', rejected);
+  return { foods, rejected };
+};
@@ -0,0 +1,70 @@
+import { parseQuantity, toMilliliters } from '../../lib/units.js';
+import type { RejectedFood } from './foodValidation.js';
+import type { LlmToolCall, LlmToolDeclaration } from './llm/index.js';
+
+/**
+ * Hydration ("I drank two glasses of water"). Plain water is recorded with log_water as a volume instead
+ * of a 0 kcal food; the client stores it in water_logs and counts it toward the daily water goal.
+ */
+
+/** A validated log_water call, as returned to the client. */
+export interface LoggedDrink {
+  /** Millilitres, rounded. */
+  volumeMl: number;
+  /** What was drunk, in the user's language ("water", "agua com gas"). */
+  drink: string;
+}
+
+/** Same bound as the water_logs check constraint. */
+const MAX_VOLUME_ML = 5000;
+const MAX_DRINK_LENGTH = 60;
+
+export const LOG_WATER_SCHEMA: LlmToolDeclaration = {
+  name: 'log_water',
+  description:
+    'Record water the user drank. Call this instead of log_food for plain water, still or sparkling (e.g. "two glasses of water", "a 500 ml bottle").',
+  parameters: {
+    type: 'OBJECT',
+    properties: {
+      volume_ml: { type: 'NUMBER', description: 'Total volume in millilitres (a glass is about 250 ml, a bottle 500 ml)' },
+      quantity: { type: 'STRING', description: 'Amount as said (e.g. 2 glasses, 1 liter)' },
+      drink: { type: 'STRING', description: 'What was drunk, in the same language as the user (e.g. water, sparkling water)' },
+    },
+    required: ['volume_ml'],
+  },
+};
+
+/** Appended after LOG_FOOD_RULES wherever log_water is offered. */
+export const LOG_WATER_RULES =
+  'For plain water (still or sparkling) call log_water with the volume instead of log_food. Every other drink (coffee, juice, milk, soda) is still a log_food call.';
+
+export const isWaterCall = (call: LlmToolCall): boolean => call.name === 'log_water';
+
+/** Volume from volume_ml, else from the spoken quantity ("2 glasses"); rejects missing and implausible amounts. */
+export function validateDrink(args: Record<string, unknown>): { drink?: LoggedDrink; reason?: string } {
+  let volume = typeof args.volume_ml === 'number' ? args.volume_ml : Number(args.volume_ml);
+  if (!Number.isFinite(volume) || volume <= 0) {
+    const parsed = typeof args.quantity === 'string' ? parseQuantity(args.quantity) : null;
+    volume = (parsed && toMilliliters(parsed.amount, parsed.unit)) ?? NaN;
+  }
+  if (!Number.isFinite(volume) || volume <= 0) return { reason: 'volume missing or not a number' };
+  if (volume > MAX_VOLUME_ML) return { reason: `${Math.round(volume)} ml is not plausible for one drink` };
+  const drink = typeof args.drink === 'string' ? args.drink.replace(/\s+/g, ' ').trim().slice(0, MAX_DRINK_LENGTH) : '';
+  return { drink: { volumeMl: Math.round(volume), drink: drink || 'water' } };
+}
+
+/** Validates every log_water call in a response; invalid ones are reported like rejected foods. */
+export function collectDrinks(calls: LlmToolCall[]): { drinks: LoggedDrink[]; rejected: RejectedFood[] } {
+  const drinks: LoggedDrink[] = [];
+  const rejected: RejectedFood[] = [];
+  calls.filter(isWaterCall).forEach((call, index) => {
+    const result = validateDrink(call.args);
+    if (result.drink) {
+      drinks.push(result.drink);
+    } else {
+      console.warn('[log_water] rejected', { index, reason: result.reason });
+      rejected.push({ index, name: call.name, reason: result.reason ?? 'invalid' });
+    }
+  });
+  return { drinks, rejected };
+}
@@ -0,0 +1,55 @@
+import type { VercelResponse } from '@vercel/node';
+
+/** Thrown when the selected provider is missing its API key or LLM_PROVIDER is unknown. */
+export class LlmConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmConfigError';
+  }
+}
+
+/** Non-2xx answer from the vendor API, after retries. */
+export class LlmProviderError extends Error {
+  readonly status: number;
+  readonly details: string;
+  /** Human-readable vendor name for error messages (Gemini, OpenAI). */
+  readonly vendor: string;
+
+  constructor(vendor: string, status: number, details: string) {
+    super(`${vendor} API error ${status}`);
+    this.name = 'LlmProviderError';
+    this.vendor = vendor;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/** Status and body the client already knows how to show for an upstream failure. */
+export function describeLlmError(err: LlmProviderError): { status: number; body: { error: string; details: string } } {
+  if (err.status === 429) {
+    return {
+      status: 429,
+      body: { error: 'Quota exceeded', details: `${err.vendor} rate limit reached. Wait a minute or check your plan.` },
+    };
+  }
+  if (err.status === 503) {
+    return {
+      status: 503,
+      body: { error: 'Model overloaded', details: `${err.vendor} is busy. Try again in a moment.` },
+    };
+  }
+  return {
+    status: 502,
+    body: {
+      error: err.status === 401 ? 'Invalid API key' : 'Upstream API error',
+      details: err.details.slice(0, 200),
+    },
+  };
+}
+
+/** Maps an upstream failure to the error response the client already knows how to show. */
+export function sendLlmError(res: VercelResponse, err: LlmProviderError) {
+  console.error(`${err.vendor} API error`, err.status, err.details);
+  const { status, body } = describeLlmError(err);
+  return res.status(status).json(body);
+}
@@ -0,0 +1,118 @@
+import { postJsonWithRetry, readSseJson } from './http.js';
+import type { LlmProvider, LlmRequest, LlmResponse, LlmStreamEvent, LlmToolCall, LlmUsage } from './types.js';
+
+interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { name: string; args: Record<string, unknown> };
+  function_call?: { name: string; args: Record<string, unknown> };
+}
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  /** Thinking tokens; billed as output. */
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+  promptTokensDetails?: Array<{ modality?: string; tokenCount?: number }>;
+}
+
+interface GeminiResponseBody {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] } }>;
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+const buildPayload = (request: LlmRequest) => {
+  const parts: GeminiPart[] = [{ text: request.instruction }];
+  if (request.userText) parts.push({ text: request.userText });
+  if (request.media) parts.push({ inlineData: request.media });
+
+  return {
+    contents: [{ role: 'user', parts }],
+    generationConfig: {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxOutputTokens,
+    },
+    tools: [{ functionDeclarations: request.tools }],
+  };
+};
+
+const toToolCall = (part: GeminiPart): LlmToolCall | null => {
+  const fc = part.functionCall ?? part.function_call;
+  return fc?.name && fc.args ? { name: fc.name, args: fc.args } : null;
+};
+
+const toUsage = (meta: GeminiUsageMetadata | undefined): LlmUsage | undefined => {
+  if (!meta) return undefined;
+  const byModality = (modality: string) =>
+    (meta.promptTokensDetails ?? []).filter((d) => d.modality === modality).reduce((sum, d) => sum + (d.tokenCount ?? 0), 0);
+  const promptTokens = meta.promptTokenCount ?? 0;
+  const outputTokens = (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0);
+  return {
+    promptTokens,
+    outputTokens,
+    audioTokens: byModality('AUDIO'),
+    imageTokens: byModality('IMAGE'),
+    totalTokens: meta.totalTokenCount ?? promptTokens + outputTokens,
+  };
+};
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+/**
+ * Google Gemini generateContent. Model: GEMINI_MODEL (default gemini-2.5-flash); must support
+ * generateContent — e.g. gemini-2.0-flash-lite for a different quota.
+ * GEMINI_BASE_URL points the provider at a stand-in such as scripts/mock-gemini-server.mjs.
+ */
+export function createGeminiProvider(apiKey: string): LlmProvider {
+  const model = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+  const baseUrl = (process.env.GEMINI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const isCustomBaseUrl = baseUrl !== DEFAULT_BASE_URL;
+  const url = `${baseUrl}/v1beta/models/${model}:generateContent?key=${encodeURIComponent(apiKey)}`;
+  const streamUrl = `${baseUrl}/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${encodeURIComponent(apiKey)}`;
+  // Only a stand-in server understands fixtures; never send the hint to Google.
+  const headersFor = (request: LlmRequest): Record<string, string> =>
+    isCustomBaseUrl && request.fixture ? { 'X-Mock-Fixture': request.fixture } : {};
+
+  return {
+    name: 'gemini',
+    model,
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      const { response, upstreamMs } = await postJsonWithRetry('Gemini', url, buildPayload(request), headersFor(request));
+
+      const parseStart = Date.now();
+      const data = (await response.json()) as GeminiResponseBody;
+      const parseMs = Date.now() - parseStart;
+
+      let text: string | undefined;
+      const toolCalls: LlmToolCall[] = [];
+      for (const part of data.candidates?.[0]?.content?.parts ?? []) {
+        if (part.text) text = part.text;
+        const call = toToolCall(part);
+        if (call) toolCalls.push(call);
+      }
+
+      return { text, toolCalls, usage: toUsage(data.usageMetadata), upstreamMs, parseMs };
+    },
+
+    async *stream(request: LlmRequest): AsyncGenerator<LlmStreamEvent> {
+      const { response } = await postJsonWithRetry('Gemini', streamUrl, buildPayload(request), headersFor(request));
+
+      let text = '';
+      let usage: LlmUsage | undefined;
+      for await (const chunk of readSseJson<GeminiResponseBody>(response)) {
+        // Every chunk repeats the running totals; the last one is final.
+        usage = toUsage(chunk.usageMetadata) ?? usage;
+        for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+          if (part.text) {
+            text += part.text;
+            yield { type: 'text', text };
+          }
+          const call = toToolCall(part);
+          if (call) yield { type: 'toolCall', call };
+        }
+      }
+      if (usage) yield { type: 'usage', usage };
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { LlmProviderError } from './errors.js';
+
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 2000;
+
+/** Yields the JSON payload of every `data:` line of a server-sent events response. */
+export async function* readSseJson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const parseLine = (line: string): T | null => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return null;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === '[DONE]') return null;
+    try {
+      return JSON.parse(data) as T;
+    } catch {
+      return null;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const parsed = parseLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (parsed) yield parsed;
+    }
+  }
+  const last = parseLine(buffer);
+  if (last) yield last;
+}
+
+/** POSTs JSON, retrying on 503/429. Throws LlmProviderError when the last attempt is not ok. */
+export async function postJsonWithRetry(
+  vendor: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<{ response: Response; upstreamMs: number }> {
+  let response: Response;
+  let errText = '';
+  const start = Date.now();
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+    if (response.ok) break;
+    errText = await response.text();
+    const isRetryable = response.status === 503 || response.status === 429;
+    if (!isRetryable || attempt === MAX_RETRIES) break;
+    await new Promise((r) => setTimeout(r, RETRY_DELAY_MS));
+  }
+  const upstreamMs = Date.now() - start;
+
+  if (!response!.ok) {
+    throw new LlmProviderError(vendor, response!.status, errText);
+  }
+  return { response: response!, upstreamMs };
+}
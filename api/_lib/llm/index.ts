@@ -0,0 +1,54 @@
+import { LlmConfigError } from './errors.js';
+import { createGeminiProvider } from './gemini.js';
+import { createMockProvider } from './mock.js';
+import { createOpenAiProvider } from './openai.js';
+import type { LlmProvider, LlmRequest, LlmStreamEvent } from './types.js';
+
+export { LlmConfigError, LlmProviderError, describeLlmError, sendLlmError } from './errors.js';
+export { estimateCostUsd } from './pricing.js';
+export type {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmStreamEvent,
+  LlmToolCall,
+  LlmToolDeclaration,
+  LlmUsage,
+} from './types.js';
+
+/**
+ * Picks the provider from LLM_PROVIDER (gemini | openai | mock; default gemini).
+ * Throws LlmConfigError when the selected provider has no API key.
+ */
+export function getLlmProvider(): LlmProvider {
+  const selected = (process.env.LLM_PROVIDER || 'gemini').trim().toLowerCase();
+
+  switch (selected) {
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) throw new LlmConfigError('Server missing GEMINI_API_KEY');
+      return createGeminiProvider(apiKey);
+    }
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) throw new LlmConfigError('Server missing OPENAI_API_KEY');
+      return createOpenAiProvider(apiKey);
+    }
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new LlmConfigError(`Unknown LLM_PROVIDER "${selected}" (expected gemini, openai or mock)`);
+  }
+}
+
+/** Streams from providers that support it; others are replayed from a single generate() call. */
+export async function* streamLlm(provider: LlmProvider, request: LlmRequest): AsyncGenerator<LlmStreamEvent> {
+  if (provider.stream) {
+    yield* provider.stream(request);
+    return;
+  }
+  const response = await provider.generate(request);
+  if (response.text) yield { type: 'text', text: response.text };
+  for (const call of response.toolCalls) yield { type: 'toolCall', call };
+  if (response.usage) yield { type: 'usage', usage: response.usage };
+}
@@ -0,0 +1,235 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseQuantity, toMilliliters } from '../../../lib/units.js';
+import { LlmProviderError } from './errors.js';
+import type { LlmProvider, LlmRequest, LlmResponse, LlmToolCall, LlmUsage } from './types.js';
+
+const FIXTURE_NAME = /^[a-z0-9-]+$/i;
+
+interface LlmFixture {
+  transcription?: string;
+  calls?: LlmToolCall[];
+  status?: number;
+  error?: string;
+}
+
+/** Same files scripts/mock-gemini-server.mjs serves, so both mocks answer a fixture identically. */
+const loadFixture = (name: string): LlmFixture | null => {
+  if (!FIXTURE_NAME.test(name)) return null;
+  const path = join(process.cwd(), 'fixtures', 'llm', `${name}.json`);
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, 'utf8')) as LlmFixture;
+};
+
+/** Per-unit values the mock uses for known words; anything else gets GENERIC_ITEM. */
+const MOCK_FOODS: Array<{
+  match: RegExp;
+  name: string;
+  unit: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+  addedSugar: number;
+  saturatedFat: number;
+}> = [
+  { match: /\b(eggs?|ovos?)\b/, name: 'Egg', unit: 'egg', calories: 72, protein: 6.3, carbs: 0.4, fat: 4.8, fiber: 0, sodium: 71, addedSugar: 0, saturatedFat: 1.6 },
+  { match: /\b(toast|bread|p[aã]o)\b/, name: 'Toast', unit: 'slice', calories: 80, protein: 3, carbs: 14, fat: 1, fiber: 1, sodium: 150, addedSugar: 1.5, saturatedFat: 0.2 },
+  { match: /\b(bananas?)\b/, name: 'Banana', unit: 'fruit', calories: 105, protein: 1.3, carbs: 27, fat: 0.4, fiber: 3.1, sodium: 1, addedSugar: 0, saturatedFat: 0.1 },
+  { match: /\b(rice|arroz)\b/, name: 'White rice', unit: 'cup', calories: 205, protein: 4.3, carbs: 45, fat: 0.4, fiber: 0.6, sodium: 2, addedSugar: 0, saturatedFat: 0.1 },
+  { match: /\b(beans|feij[aã]o)\b/, name: 'Black beans', unit: 'cup', calories: 227, protein: 15, carbs: 41, fat: 0.9, fiber: 15, sodium: 400, addedSugar: 0, saturatedFat: 0.2 },
+  { match: /\b(chicken|frango)\b/, name: 'Grilled chicken breast', unit: 'serving', calories: 165, protein: 31, carbs: 0, fat: 3.6, fiber: 0, sodium: 74, addedSugar: 0, saturatedFat: 1 },
+  { match: /\b(coffee|caf[eé])\b/, name: 'Coffee', unit: 'cup', calories: 2, protein: 0.3, carbs: 0, fat: 0, fiber: 0, sodium: 5, addedSugar: 0, saturatedFat: 0 },
+  { match: /\b(apples?|ma[cç][aã]s?)\b/, name: 'Apple', unit: 'fruit', calories: 95, protein: 0.5, carbs: 25, fat: 0.3, fiber: 4.4, sodium: 2, addedSugar: 0, saturatedFat: 0.1 },
+];
+const GENERIC_ITEM = {
+  unit: 'serving', calories: 150, protein: 5, carbs: 20, fat: 5, fiber: 1, sodium: 300, addedSugar: 5, saturatedFat: 2,
+};
+
+/** Plain water goes to log_water; a glass is assumed when the amount has no volume unit. */
+const WATER = /\b(water|[aá]gua)\b/i;
+const GLASS_ML = 250;
+
+/** Servings the mock treats as ambiguous, so the clarification flow can be exercised offline. */
+const VAGUE_SERVING = /\b(bowl|plate|tigela|prato)\b/i;
+const SIZE_FACTORS: Array<[RegExp, number, string]> = [
+  [/\b(small|pequen[oa])\b/i, 0.7, 'small'],
+  [/\b(large|big|grande)\b/i, 1.5, 'large'],
+  [/\b(medium|m[eé]di[oa])\b/i, 1, 'medium'],
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  um: 1, uma: 1, dois: 2, duas: 2, tres: 3, 'três': 3, quatro: 4, cinco: 5,
+};
+
+const MOCK_MEAL_TYPES: Array<[RegExp, string]> = [
+  [/\b(?:for |at |no |na |de )?(?:breakfast|caf[eé] da manh[aã])\b/i, 'breakfast'],
+  [/\b(?:for |at |no |na |de )?(?:lunch|almo[cç]o)\b/i, 'lunch'],
+  [/\b(?:for |at |no |na |de )?(?:dinner|jantar)\b/i, 'dinner'],
+  [/\b(?:for |at |no |na |de )?(?:snack|lanche)\b/i, 'snack'],
+];
+
+/** "same breakfast as yesterday" / "o mesmo almoco de ontem": the whole phrase, with the day in group 1. */
+const REPEAT_MEAL = /\b(?:the |o |a )?(?:same|mesm[oa])\b.*?\b(?:as|de|que)\s+(yesterday|today|ontem|hoje)\b/i;
+
+/** Turns a "same meal as yesterday" phrase into a repeat_meal call and removes it from the text. */
+const extractRepeat = (text: string): { rest: string; call: LlmToolCall | null } => {
+  const match = text.match(REPEAT_MEAL);
+  if (!match) return { rest: text, call: null };
+  const mealType = MOCK_MEAL_TYPES.find(([pattern]) => pattern.test(match[0]))?.[1];
+  const dayOffset = /yesterday|ontem/i.test(match[1]) ? -1 : 0;
+  return {
+    rest: text.replace(match[0], ' '),
+    call: { name: 'repeat_meal', args: { day_offset: dayOffset, ...(mealType ? { meal_type: mealType } : {}) } },
+  };
+};
+
+/** Pulls "for breakfast" / "yesterday" out of the text so the rest splits into foods as usual. */
+const extractPlacement = (text: string): { rest: string; placement: Record<string, unknown> } => {
+  const placement: Record<string, unknown> = {};
+  let rest = text;
+  for (const [pattern, mealType] of MOCK_MEAL_TYPES) {
+    if (pattern.test(rest)) {
+      placement.meal_type = mealType;
+      rest = rest.replace(pattern, ' ');
+      break;
+    }
+  }
+  if (/\b(yesterday|ontem)\b/i.test(rest)) {
+    placement.day_offset = -1;
+    rest = rest.replace(/\b(yesterday|ontem)\b/i, ' ');
+  }
+  rest = rest.replace(/\b(i had|i ate|i drank|comi|tomei|bebi)\b/gi, ' ');
+  return { rest, placement };
+};
+
+const toLogFoodCall = (segment: string): LlmToolCall | null => {
+  const normalized = segment.trim().toLowerCase();
+  if (!normalized) return null;
+  const [firstWord] = normalized.split(/\s+/);
+  const amount = Number(firstWord.replace(',', '.')) || NUMBER_WORDS[firstWord] || 1;
+  if (WATER.test(normalized)) {
+    const parsed = parseQuantity(normalized);
+    const volume = (parsed && toMilliliters(parsed.amount, parsed.unit)) ?? amount * GLASS_ML;
+    return { name: 'log_water', args: { volume_ml: volume, quantity: segment.trim(), drink: 'water' } };
+  }
+  const known = MOCK_FOODS.find((food) => food.match.test(normalized));
+  const base = known ?? { ...GENERIC_ITEM, name: segment.trim() };
+  const vague = VAGUE_SERVING.test(normalized);
+  return {
+    name: 'log_food',
+    args: {
+      name: base.name,
+      quantity: `${amount} ${amount === 1 ? base.unit : `${base.unit}s`}`,
+      calories: Math.round(base.calories * amount),
+      protein: base.protein * amount,
+      carbs: base.carbs * amount,
+      fat: base.fat * amount,
+      fiber: base.fiber * amount,
+      sodium: base.sodium * amount,
+      added_sugar: base.addedSugar * amount,
+      saturated_fat: base.saturatedFat * amount,
+      micronutrients: [],
+      confidence: vague ? 0.4 : known ? 0.85 : 0.5,
+      assumptions: `${amount} standard ${base.unit}${amount === 1 ? '' : 's'}`,
+      ...(vague
+        ? { clarification: 'How big was it?', clarification_options: ['Small', 'Medium', 'Large'] }
+        : {}),
+    },
+  };
+};
+
+/** Answer to a follow-up (see api/_lib/clarification.ts): re-logs the named food scaled by the size said. */
+const toClarifiedCall = (instruction: string, answer: string): LlmToolCall | null => {
+  const target = instruction.match(/already logged: "([^"]+)"/);
+  if (!target) return null;
+  const size = SIZE_FACTORS.find(([pattern]) => pattern.test(answer));
+  const factor = size ? size[1] : 1;
+  const call = toLogFoodCall(target[1]);
+  if (!call) return null;
+  const args = { ...call.args };
+  for (const key of ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sodium', 'added_sugar', 'saturated_fat'] as const) {
+    args[key] = Math.round(Number(args[key]) * factor * 10) / 10;
+  }
+  delete args.clarification;
+  delete args.clarification_options;
+  return {
+    name: 'log_food',
+    args: { ...args, confidence: 0.8, assumptions: size ? `${size[2]} portion` : String(args.assumptions) },
+  };
+};
+
+/** Extracts the quoted description the text handler wraps the user's input in. */
+const extractDescription = (userText: string): string => {
+  const quoted = userText.match(/"""([\s\S]*)"""/);
+  return (quoted ? quoted[1] : userText).trim();
+};
+
+/**
+ * Rough token counts so the usage/cost path has numbers offline: ~4 characters per text token,
+ * 32 tokens per second of 16 kHz audio and 258 per image (Gemini's published rates).
+ */
+const estimateUsage = (request: LlmRequest, text: string | undefined, toolCalls: LlmToolCall[]): LlmUsage => {
+  const textTokens = Math.ceil((request.instruction.length + (request.userText?.length ?? 0)) / 4);
+  const mediaBytes = request.media ? Math.floor((request.media.data.length * 3) / 4) : 0;
+  const isImage = request.media?.mimeType.startsWith('image/') ?? false;
+  const audioTokens = request.media && !isImage ? Math.ceil((Math.max(0, mediaBytes - 44) / 32000) * 32) : 0;
+  const imageTokens = isImage ? 258 : 0;
+  const outputTokens = Math.ceil(((text?.length ?? 0) + JSON.stringify(toolCalls).length) / 4);
+  const promptTokens = textTokens + audioTokens + imageTokens;
+  return { promptTokens, outputTokens, audioTokens, imageTokens, totalTokens: promptTokens + outputTokens };
+};
+
+/**
+ * Deterministic, offline provider (LLM_PROVIDER=mock). A request with a fixture replays
+ * fixtures/llm/<fixture>.json. Otherwise typed descriptions are split on commas / "and" and matched
+ * against a tiny table (water becomes a log_water call, "same breakfast as yesterday" a repeat_meal call); audio always yields "2 eggs and a slice of toast" and photos a rice, beans
+ * and chicken plate. A vague serving ("a bowl of pasta") comes back with low confidence and a follow-up,
+ * and an answer to that follow-up re-logs the food scaled by the size said. Good enough to run the
+ * whole stack without keys or network.
+ */
+export function createMockProvider(): LlmProvider {
+  return {
+    name: 'mock',
+    model: 'mock',
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      const fixture = request.fixture ? loadFixture(request.fixture) : null;
+      if (fixture) {
+        if (fixture.status && fixture.status !== 200) {
+          throw new LlmProviderError('Mock', fixture.status, fixture.error ?? 'Mock error');
+        }
+        const toolCalls = fixture.calls ?? [];
+        const usage = estimateUsage(request, fixture.transcription, toolCalls);
+        return { text: fixture.transcription, toolCalls, usage, upstreamMs: 0, parseMs: 0 };
+      }
+
+      let text: string;
+      if (request.userText) {
+        text = extractDescription(request.userText);
+      } else if (request.media?.mimeType.startsWith('image/')) {
+        text = 'rice, beans and chicken';
+      } else {
+        text = '2 eggs and a slice of toast';
+      }
+
+      const clarified = toClarifiedCall(request.instruction, text);
+      if (clarified) {
+        return { text, toolCalls: [clarified], usage: estimateUsage(request, text, [clarified]), upstreamMs: 0, parseMs: 0 };
+      }
+
+      const repeat = extractRepeat(text);
+      const { rest, placement } = extractPlacement(repeat.rest);
+      const toolCalls = rest
+        .split(/,|\band\b|\be\b|\+/i)
+        .map(toLogFoodCall)
+        .filter((call): call is LlmToolCall => call !== null)
+        .map((call) => ({ ...call, args: { ...call.args, ...placement } }));
+      if (repeat.call) toolCalls.unshift(repeat.call);
+
+      return { text, toolCalls, usage: estimateUsage(request, text, toolCalls), upstreamMs: 0, parseMs: 0 };
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { postJsonWithRetry } from './http.js';
+import type { LlmProvider, LlmRequest, LlmResponse, LlmSchema, LlmToolCall, LlmUsage } from './types.js';
+
+type JsonSchema = {
+  type: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: string[];
+  required?: string[];
+};
+
+/** The tool schemas are written Gemini-style (OBJECT, STRING); OpenAI expects JSON Schema types. */
+const toJsonSchema = (schema: LlmSchema): JsonSchema => ({
+  type: schema.type.toLowerCase(),
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+  ...(schema.items ? { items: toJsonSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? {
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        ),
+      }
+    : {}),
+});
+
+const parseArguments = (raw: string | undefined): Record<string, unknown> | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Any OpenAI-compatible chat completions endpoint with tool calling (OpenAI, OpenRouter,
+ * a local vLLM/Ollama gateway...). Audio input needs an audio-capable model (e.g. gpt-4o-audio-preview).
+ */
+export function createOpenAiProvider(apiKey: string): LlmProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+  return {
+    name: 'openai',
+    model,
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      const content: Array<Record<string, unknown>> = [{ type: 'text', text: request.instruction }];
+      if (request.userText) content.push({ type: 'text', text: request.userText });
+      if (request.media?.mimeType.startsWith('image/')) {
+        content.push({
+          type: 'image_url',
+          image_url: { url: `data:${request.media.mimeType};base64,${request.media.data}` },
+        });
+      } else if (request.media) {
+        content.push({ type: 'input_audio', input_audio: { data: request.media.data, format: 'wav' } });
+      }
+
+      const payload = {
+        model,
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        messages: [{ role: 'user', content }],
+        tools: request.tools.map((tool) => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) },
+        })),
+        tool_choice: 'auto',
+      };
+
+      const { response, upstreamMs } = await postJsonWithRetry(
+        'OpenAI',
+        `${baseUrl}/chat/completions`,
+        payload,
+        { Authorization: `Bearer ${apiKey}` }
+      );
+
+      const parseStart = Date.now();
+      const data = (await response.json()) as {
+        choices?: Array<{
+          message?: {
+            content?: string | null;
+            tool_calls?: Array<{ function?: { name?: string; arguments?: string } }>;
+          };
+        }>;
+        usage?: {
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          total_tokens?: number;
+          prompt_tokens_details?: { audio_tokens?: number };
+        };
+      };
+      const parseMs = Date.now() - parseStart;
+
+      const message = data.choices?.[0]?.message;
+      const toolCalls: LlmToolCall[] = [];
+      for (const call of message?.tool_calls ?? []) {
+        const args = parseArguments(call.function?.arguments);
+        if (call.function?.name && args) toolCalls.push({ name: call.function.name, args });
+      }
+
+      const usage: LlmUsage | undefined = data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens ?? 0,
+            outputTokens: data.usage.completion_tokens ?? 0,
+            audioTokens: data.usage.prompt_tokens_details?.audio_tokens ?? 0,
+            // OpenAI does not break image tokens out; they are part of prompt_tokens.
+            imageTokens: 0,
+            totalTokens: data.usage.total_tokens ?? (data.usage.prompt_tokens ?? 0) + (data.usage.completion_tokens ?? 0),
+          }
+        : undefined;
+
+      return { text: message?.content || undefined, toolCalls, usage, upstreamMs, parseMs };
+    },
+  };
+}
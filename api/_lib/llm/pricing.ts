@@ -0,0 +1,56 @@
+import type { LlmUsage } from './types.js';
+
+/** USD per 1M tokens. audioInput defaults to input when a model bills audio like text. */
+interface ModelPrice {
+  input: number;
+  audioInput?: number;
+  output: number;
+}
+
+/**
+ * List prices as of 2025 for the models this app is configured with; keys match model-id prefixes
+ * (longest wins, so gemini-2.5-flash-lite is not priced as gemini-2.5-flash). Override with
+ * LLM_PRICE_PER_MTOK="input,output[,audioInput]" for anything else.
+ */
+const PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-lite': { input: 0.1, audioInput: 0.3, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, audioInput: 1.0, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, audioInput: 0.7, output: 0.4 },
+  'gpt-4o-mini-audio': { input: 0.15, audioInput: 10, output: 0.6 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o-audio': { input: 2.5, audioInput: 40, output: 10 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  mock: { input: 0, output: 0 },
+};
+
+const priceFromEnv = (): ModelPrice | null => {
+  const raw = process.env.LLM_PRICE_PER_MTOK;
+  if (!raw) return null;
+  const [input, output, audioInput] = raw.split(',').map((v) => Number(v.trim()));
+  if (!Number.isFinite(input) || !Number.isFinite(output)) return null;
+  return { input, output, audioInput: Number.isFinite(audioInput) ? audioInput : undefined };
+};
+
+const priceFor = (model: string): ModelPrice | null => {
+  const override = priceFromEnv();
+  if (override) return override;
+  const key = Object.keys(PRICES)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? PRICES[key] : null;
+};
+
+/** Estimated request cost in USD, or null when the model has no known price. */
+export function estimateCostUsd(model: string, usage: LlmUsage): number | null {
+  const price = priceFor(model);
+  if (!price) return null;
+  const textInput = Math.max(0, usage.promptTokens - usage.audioTokens);
+  const cost =
+    textInput * price.input +
+    usage.audioTokens * (price.audioInput ?? price.input) +
+    usage.outputTokens * price.output;
+  // Rounded to a millionth of a cent; single requests cost fractions of a cent.
+  return Number((cost / 1e6).toFixed(8));
+}
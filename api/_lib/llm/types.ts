@@ -0,0 +1,87 @@
+/**
+ * Vendor-neutral request/response shapes. Handlers build one LlmRequest and every provider
+ * returns the same LlmResponse, so switching vendors is an env change (see ./index.ts).
+ */
+
+/** Tool parameter schema in the Gemini/OpenAPI subset the app already uses (uppercase types). */
+export interface LlmSchema {
+  type: 'OBJECT' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN' | 'ARRAY';
+  description?: string;
+  properties?: Record<string, LlmSchema>;
+  items?: LlmSchema;
+  enum?: string[];
+  required?: string[];
+}
+
+export interface LlmToolDeclaration {
+  name: string;
+  description: string;
+  parameters: LlmSchema;
+}
+
+export interface LlmMedia {
+  mimeType: string;
+  /** Base64-encoded bytes. */
+  data: string;
+}
+
+export interface LlmRequest {
+  /** Task instruction (what to extract, language, rules). */
+  instruction: string;
+  /** Typed user content, when the input is text. */
+  userText?: string;
+  /** Audio or image input. */
+  media?: LlmMedia;
+  tools: LlmToolDeclaration[];
+  temperature: number;
+  maxOutputTokens: number;
+  /**
+   * Scripted-response key for offline development (fixtures/llm/<fixture>.json).
+   * Used by the mock provider and forwarded to a mock Gemini server; real vendors never see it.
+   */
+  fixture?: string;
+}
+
+export interface LlmToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/** Token counts reported by the vendor. audioTokens/imageTokens are the share of promptTokens spent on media. */
+export interface LlmUsage {
+  promptTokens: number;
+  outputTokens: number;
+  audioTokens: number;
+  imageTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResponse {
+  /** Free text returned next to the tool calls (transcription / caption). */
+  text?: string;
+  toolCalls: LlmToolCall[];
+  /** Missing when the vendor did not report usage. */
+  usage?: LlmUsage;
+  /** Time spent waiting on the vendor, including retries. */
+  upstreamMs: number;
+  parseMs: number;
+}
+
+/** Incremental output of a streaming provider: text grows, tool calls arrive whole, usage comes last. */
+export type LlmStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'toolCall'; call: LlmToolCall }
+  | { type: 'usage'; usage: LlmUsage };
+
+export interface LlmProvider {
+  /** Short id shown in debug output (gemini, openai, mock). */
+  readonly name: string;
+  /** Model id used for pricing and the usage ledger. */
+  readonly model: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  /**
+   * Optional streaming variant. Providers without it are streamed by replaying generate()
+   * (see streamLlm in ./index.ts). Upstream errors must be thrown before the first event.
+   */
+  stream?(request: LlmRequest): AsyncGenerator<LlmStreamEvent>;
+}
@@ -0,0 +1,149 @@
+import type { VercelRequest } from '@vercel/node';
+import { MICRONUTRIENT_KEYS } from '../../lib/micronutrients.js';
+import { checkAtwater, type AtwaterCheck } from './atwater.js';
+import { applyFoodDatabase } from './foodDb/index.js';
+import { applyFoodLibrary, type LibraryFood } from './foodLibrary.js';
+import { validateFood, validateFoods, type RejectedFood, type ValidatedFood } from './foodValidation.js';
+import type { LlmResponse, LlmToolDeclaration } from './llm/index.js';
+
+export type PreferredLanguage = 'en-US' | 'pt-BR';
+
+/**
+ * Shared by every /api/process-* handler so audio, text and image logging produce the same
+ * tool calls and the same `{ transcription, foods }` response shape.
+ */
+export const LOG_FOOD_SCHEMA: LlmToolDeclaration = {
+  name: 'log_food',
+  description:
+    'Log a food item. Call this when the user mentions eating something. You MUST estimate the nutritional values based on the food and quantity provided.',
+  parameters: {
+    type: 'OBJECT',
+    properties: {
+      name: { type: 'STRING', description: 'Name of the food item' },
+      quantity: { type: 'STRING', description: 'Amount consumed (e.g. 1 cup, 2 slices)' },
+      calories: { type: 'NUMBER', description: 'Estimated calories (kCal)' },
+      protein: { type: 'NUMBER', description: 'Protein in grams' },
+      carbs: { type: 'NUMBER', description: 'Carbohydrates in grams' },
+      fat: { type: 'NUMBER', description: 'Fat in grams' },
+      fiber: { type: 'NUMBER', description: 'Fiber in grams' },
+      sodium: { type: 'NUMBER', description: 'Sodium in milligrams, including salt added in cooking' },
+      added_sugar: {
+        type: 'NUMBER',
+        description: 'Added sugars in grams (sugar, syrups, honey); not the natural sugar of fruit or plain milk',
+      },
+      saturated_fat: { type: 'NUMBER', description: 'Saturated fat in grams' },
+      micronutrients: {
+        type: 'ARRAY',
+        description: 'Key vitamins and minerals in this portion; leave out nutrients you cannot estimate',
+        items: {
+          type: 'OBJECT',
+          properties: {
+            nutrient: { type: 'STRING', enum: [...MICRONUTRIENT_KEYS] },
+            amount: { type: 'NUMBER', description: 'Amount in this portion' },
+            unit: { type: 'STRING', enum: ['mg', 'mcg'] },
+          },
+          required: ['nutrient', 'amount', 'unit'],
+        },
+      },
+      meal_type: {
+        type: 'STRING',
+        enum: ['breakfast', 'lunch', 'dinner', 'snack'],
+        description: 'Only if the user names the meal (e.g. "for breakfast")',
+      },
+      day_offset: {
+        type: 'INTEGER',
+        description: 'Only if the user says which day: 0 today, -1 yesterday, -2 the day before, and so on',
+      },
+      time: { type: 'STRING', description: 'Only if the user says a clock time: local 24h HH:MM (e.g. 07:30)' },
+      confidence: {
+        type: 'NUMBER',
+        description: 'How sure you are of this estimate, 0 to 1. Below 0.6 when size or preparation was not stated and changes the calories a lot',
+      },
+      portion_grams: { type: 'NUMBER', description: 'Weight in grams your estimate assumes' },
+      assumptions: {
+        type: 'STRING',
+        description: 'What you assumed, in the same language as the name (e.g. "about 300 g cooked, tomato sauce, no cheese")',
+      },
+      clarification: {
+        type: 'STRING',
+        description: 'Only when confidence is below 0.6: one short question that would most improve the estimate (e.g. "How big was the bowl?")',
+      },
+      clarification_options: {
+        type: 'ARRAY',
+        items: { type: 'STRING' },
+        description: 'Two to four short answers the user can tap (e.g. small, medium, large)',
+      },
+    },
+    required: ['name', 'quantity', 'calories', 'protein', 'carbs', 'fat', 'fiber'],
+  },
+};
+
+/** Rules appended to every prompt, regardless of whether the meal was spoken, typed or photographed. */
+export const LOG_FOOD_RULES =
+  'For EACH separate food or drink mentioned, call the log_food tool once (e.g. "2 bananas and 3 eggs" = two calls: one for bananas, one for eggs). Use your best estimate for each item and always set confidence and assumptions. Never answer with a question: log everything mentioned, and when an item is ambiguous put the follow-up in clarification instead. If nothing food-related is said, do not call the tool. If the user says when they ate (e.g. "for breakfast yesterday", "at lunch"), set meal_type, day_offset and/or time on every item of that meal; otherwise leave them out. Return ONLY tool calls. No explanations.';
+
+export const getPreferredLanguage = (req: VercelRequest): PreferredLanguage =>
+  req.query.lang === 'pt-BR' ? 'pt-BR' : 'en-US';
+
+/** ?fixture=<name> from the client's fixture mode; only mocks act on it (see LlmRequest.fixture). */
+export const getFixtureName = (req: VercelRequest): string | undefined =>
+  typeof req.query.fixture === 'string' && req.query.fixture ? req.query.fixture : undefined;
+
+export type InputSource = 'speech' | 'text' | 'image';
+
+export const buildLanguageInstruction = (language: PreferredLanguage, source: InputSource): string => {
+  if (source === 'image') {
+    return language === 'pt-BR'
+      ? 'Name each food/drink item in Portuguese (Brazil). Keep any caption in Portuguese.'
+      : 'Name each food/drink item in English.';
+  }
+  const subject = source === 'speech' ? 'The speaker may be using' : 'The user may be writing in';
+  const keep = source === 'speech' ? 'Keep the transcription in Portuguese when possible.' : '';
+  return language === 'pt-BR'
+    ? `${subject} Portuguese (Brazil). Understand Portuguese naturally and extract each food/drink item correctly. ${keep}`.trim()
+    : `${subject} English. Understand English naturally and extract each food/drink item correctly.`;
+};
+
+/** A food as returned to the client: validated values plus the Atwater consistency check. */
+export type LoggedFood = ValidatedFood & AtwaterCheck;
+
+/** The user's own values first (see ./foodLibrary), then the food tables; saved values are not second-guessed. */
+const resolveFood = (food: ValidatedFood, language: PreferredLanguage, library: LibraryFood[]): LoggedFood => {
+  const saved = applyFoodLibrary(food, library);
+  if (saved) return { ...saved, consistencyScore: 1, flagReason: null };
+  const resolved = applyFoodDatabase(food, language);
+  return { ...resolved, ...checkAtwater(resolved) };
+};
+
+/**
+ * Collects the model text (transcription) and every log_food call, whichever provider produced them.
+ * Calls are validated (see ./foodValidation); invalid ones are reported in `rejected` instead of `foods`.
+ * Accepted foods are resolved against the user's library and the food database (see resolveFood) and carry
+ * a consistency score and, when calories and macros disagree, a flag reason.
+ */
+export const collectFoods = (
+  response: LlmResponse,
+  language: PreferredLanguage = 'en-US',
+  library: LibraryFood[] = []
+): { transcription: string | undefined; foods: LoggedFood[]; rejected: RejectedFood[] } => {
+  const rawFoods = response.toolCalls
+    .filter((call) => call.name === 'log_food')
+    .map((call) => call.args);
+  const { foods, rejected } = validateFoods(rawFoods);
+  return {
+    transcription: response.text,
+    foods: foods.map((food) => resolveFood(food, language, library)),
+    rejected,
+  };
+};
+
+/** Single-call variant of collectFoods, for streaming responses. */
+export const prepareFood = (
+  args: Record<string, unknown>,
+  language: PreferredLanguage = 'en-US',
+  library: LibraryFood[] = []
+): { food?: LoggedFood; reason?: string } => {
+  const result = validateFood(args);
+  if (!result.food) return { reason: result.reason ?? 'invalid' };
+  return { food: resolveFood(result.food, language, library) };
+};
@@ -0,0 +1,103 @@
+import type { VercelResponse } from '@vercel/node';
+import type { AuthUser } from './auth.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+/** Remaining calls in both rolling windows, echoed to the client as `_quota`. */
+export interface QuotaStatus {
+  perMinute: number;
+  perDay: number;
+  minuteRemaining: number;
+  dayRemaining: number;
+}
+
+export interface QuotaCheck {
+  /** False when a 429 has already been sent; the handler must return. */
+  allowed: boolean;
+  /** Missing when rate limiting is not configured or the ledger was unreachable. */
+  quota?: QuotaStatus;
+  /** api_usage row recorded for this call; token usage is attached to it afterwards (see ./usage.ts). */
+  usageId?: number;
+}
+
+const DEFAULT_PER_MINUTE = 10;
+const DEFAULT_PER_DAY = 200;
+
+let warnedUnconfigured = false;
+
+const readLimit = (value: string | undefined, fallback: number): number => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+};
+
+export function getQuotaLimits(): { perMinute: number; perDay: number } {
+  return {
+    perMinute: readLimit(process.env.RATE_LIMIT_PER_MINUTE, DEFAULT_PER_MINUTE),
+    perDay: readLimit(process.env.RATE_LIMIT_PER_DAY, DEFAULT_PER_DAY),
+  };
+}
+
+/**
+ * Records one LLM call for the user in the api_usage ledger (consume_api_quota) and answers 429 when either
+ * window is full. The remaining quota is also sent as X-RateLimit-* headers.
+ *
+ * Without SUPABASE_SERVICE_ROLE_KEY, or when the ledger cannot be reached, the call is let through and
+ * logged: a database hiccup should not stop people from logging meals.
+ */
+export async function enforceQuota(
+  res: VercelResponse,
+  user: AuthUser,
+  endpoint: string
+): Promise<QuotaCheck> {
+  const admin = getSupabaseAdmin();
+  if (!admin) {
+    if (!warnedUnconfigured) {
+      warnedUnconfigured = true;
+      console.warn('[quota] SUPABASE_SERVICE_ROLE_KEY not set; rate limiting disabled');
+    }
+    return { allowed: true };
+  }
+
+  const { perMinute, perDay } = getQuotaLimits();
+  const { data, error } = await admin.rpc('consume_api_quota', {
+    p_user_id: user.id,
+    p_endpoint: endpoint,
+    p_per_minute: perMinute,
+    p_per_day: perDay,
+  });
+  const row = Array.isArray(data) ? data[0] : undefined;
+  if (error || !row) {
+    console.error('[quota] ledger unavailable', error?.message ?? 'no row');
+    return { allowed: true };
+  }
+
+  const quota: QuotaStatus = {
+    perMinute,
+    perDay,
+    minuteRemaining: Math.max(0, perMinute - row.minute_used),
+    dayRemaining: Math.max(0, perDay - row.day_used),
+  };
+  res.setHeader('X-RateLimit-Limit-Minute', String(perMinute));
+  res.setHeader('X-RateLimit-Limit-Day', String(perDay));
+  res.setHeader('X-RateLimit-Remaining-Minute', String(quota.minuteRemaining));
+  res.setHeader('X-RateLimit-Remaining-Day', String(quota.dayRemaining));
+
+  if (!row.allowed) {
+    const retryAfter = row.retry_after_seconds;
+    const window = row.day_used >= perDay ? `${perDay} requests per day` : `${perMinute} requests per minute`;
+    res.setHeader('Retry-After', String(retryAfter));
+    res.status(429).json({
+      error: `Limit of ${window} reached. Try again in ${formatWait(retryAfter)}.`,
+      code: 'rate_limited',
+      retryAfterSeconds: retryAfter,
+      _quota: quota,
+    });
+    return { allowed: false, quota };
+  }
+  return { allowed: true, quota, usageId: row.usage_id ?? undefined };
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 90) return `${seconds}s`;
+  if (seconds < 90 * 60) return `${Math.ceil(seconds / 60)} min`;
+  return `${Math.ceil(seconds / 3600)} h`;
+}
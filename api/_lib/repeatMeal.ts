@@ -0,0 +1,69 @@
+import { MAX_DAYS_BACK, MEAL_TYPES, type MealType, type RejectedFood } from './foodValidation.js';
+import type { LlmToolCall, LlmToolDeclaration } from './llm/index.js';
+
+/**
+ * Re-logging a past meal ("same breakfast as yesterday"). The server only says which meal; the client
+ * finds it in its history and copies its foods into a new meal, the same way as the favorites picker.
+ */
+
+/** A validated repeat_meal call, as returned to the client. */
+export interface MealRepeat {
+  /** Meal to copy; absent means the latest meal of that day. */
+  mealType?: MealType;
+  /** Day of the meal to copy: 0 today, -1 yesterday, down to -MAX_DAYS_BACK. */
+  dayOffset: number;
+}
+
+export const REPEAT_MEAL_SCHEMA: LlmToolDeclaration = {
+  name: 'repeat_meal',
+  description:
+    'Log again a meal the user already logged on an earlier day or earlier today (e.g. "same breakfast as yesterday", "o mesmo almoco de ontem").',
+  parameters: {
+    type: 'OBJECT',
+    properties: {
+      meal_type: {
+        type: 'STRING',
+        enum: [...MEAL_TYPES],
+        description: 'The meal to copy, if the user names it',
+      },
+      day_offset: {
+        type: 'INTEGER',
+        description: 'Day of the meal to copy: 0 today, -1 yesterday, -2 the day before, and so on',
+      },
+    },
+    required: ['day_offset'],
+  },
+};
+
+/** Appended after LOG_FOOD_RULES wherever repeat_meal is offered. */
+export const REPEAT_MEAL_RULES =
+  'If the user says they ate the same meal as before ("same breakfast as yesterday"), call repeat_meal instead of log_food; call log_food only for foods they add to it.';
+
+export const isRepeatMealCall = (call: LlmToolCall): boolean => call.name === 'repeat_meal';
+
+/** Yesterday when no day is given; rejects future days and days older than MAX_DAYS_BACK. */
+export function validateRepeat(args: Record<string, unknown>): { repeat?: MealRepeat; reason?: string } {
+  const dayOffset = typeof args.day_offset === 'number' ? args.day_offset : Number(args.day_offset ?? -1);
+  if (!Number.isInteger(dayOffset) || dayOffset > 0 || dayOffset < -MAX_DAYS_BACK) {
+    return { reason: `day_offset ${String(args.day_offset)} is out of range` };
+  }
+  const mealType = MEAL_TYPES.find((type) => type === args.meal_type);
+  if (args.meal_type != null && !mealType) return { reason: `Unknown meal_type ${String(args.meal_type)}` };
+  return { repeat: mealType ? { mealType, dayOffset } : { dayOffset } };
+}
+
+/** Validates every repeat_meal call in a response; invalid ones are reported like rejected foods. */
+export function collectRepeats(calls: LlmToolCall[]): { repeats: MealRepeat[]; rejected: RejectedFood[] } {
+  const repeats: MealRepeat[] = [];
+  const rejected: RejectedFood[] = [];
+  calls.filter(isRepeatMealCall).forEach((call, index) => {
+    const result = validateRepeat(call.args);
+    if (result.repeat) {
+      repeats.push(result.repeat);
+    } else {
+      console.warn('[repeat_meal] rejected', { index, reason: result.reason });
+      rejected.push({ index, name: call.name, reason: result.reason ?? 'invalid' });
+    }
+  });
+  return { repeats, rejected };
+}
@@ -0,0 +1,201 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  LlmProviderError,
+  describeLlmError,
+  sendLlmError,
+  streamLlm,
+  type LlmProvider,
+  type LlmRequest,
+} from './llm/index.js';
+import { collectCorrections, isCorrectionCall, resolveCorrection, type FoodContextItem } from './corrections.js';
+import { collectDrinks, isWaterCall, validateDrink } from './hydration.js';
+import type { LibraryFood } from './foodLibrary.js';
+import { collectFoods, prepareFood, type PreferredLanguage } from './logFood.js';
+import type { QuotaStatus } from './quota.js';
+import { collectRepeats, isRepeatMealCall, validateRepeat } from './repeatMeal.js';
+import { recordUsage, summarizeUsage, type UsageSummary } from './usage.js';
+
+export interface FoodsResponseOptions {
+  /** Log prefix, e.g. "process-audio". */
+  label: string;
+  provider: LlmProvider;
+  request: LlmRequest;
+  /** Handler start, for _timing.totalMs. */
+  t0: number;
+  bodyMs: number;
+  /** Replaces the model transcription (typed input echoes the text). */
+  transcription?: string;
+  /** Remaining rate-limit quota after this call, echoed as _quota. */
+  quota?: QuotaStatus;
+  /** api_usage ledger row that receives this call's token usage. */
+  usageId?: number;
+  /** Today's foods the request may correct (see ./corrections.ts). */
+  foodContext?: FoodContextItem[];
+  /** Picks the preferred food table on equal matches (see ./foodDb). */
+  language?: PreferredLanguage;
+  /** The user's saved foods, matched before the food tables (see ./foodLibrary). */
+  library?: LibraryFood[];
+}
+
+/** ?stream=1 switches the response to NDJSON events (see streamFoods). */
+export const wantsStream = (req: VercelRequest): boolean => req.query.stream === '1' || req.query.stream === 'true';
+
+/**
+ * Runs the request through the provider and answers with { transcription, foods, corrections, drinks, repeats, rejected, _timing }
+ * — or, when the client asked for a stream, with one NDJSON event per item as soon as it is parsed.
+ */
+export async function respondWithFoods(req: VercelRequest, res: VercelResponse, options: FoodsResponseOptions) {
+  if (wantsStream(req)) {
+    return streamFoods(res, options);
+  }
+
+  const { label, provider, request, t0, bodyMs } = options;
+  try {
+    const response = await provider.generate(request);
+    const { transcription, foods, rejected } = collectFoods(response, options.language, options.library);
+    const corrections = collectCorrections(response.toolCalls, options.foodContext ?? []);
+    const water = collectDrinks(response.toolCalls);
+    const repeated = collectRepeats(response.toolCalls);
+    const usage = summarizeUsage(provider, response.usage);
+    await recordUsage(options.usageId, provider, usage);
+
+    const totalMs = Date.now() - t0;
+    return res.status(200).json({
+      transcription: options.transcription ?? transcription ?? null,
+      foods,
+      corrections: corrections.corrections,
+      drinks: water.drinks,
+      repeats: repeated.repeats,
+      rejected: [...rejected, ...corrections.rejected, ...water.rejected, ...repeated.rejected],
+      _timing: { bodyMs, llmMs: response.upstreamMs, parseMs: response.parseMs, totalMs },
+      _provider: provider.name,
+      _quota: options.quota,
+      _usage: usage,
+    });
+  } catch (err) {
+    if (err instanceof LlmProviderError) {
+      return sendLlmError(res, err);
+    }
+    console.error(`${label} error`, err);
+    return res.status(500).json({
+      error: err instanceof Error ? err.message : 'Processing failed',
+    });
+  }
+}
+
+/**
+ * NDJSON stream, one JSON object per line:
+ *   { type: 'transcription', text }       — repeated as the text grows
+ *   { type: 'food', food }                — one per accepted log_food call
+ *   { type: 'correction', correction }    — one per resolved update_food / remove_food call
+ *   { type: 'water', drink }              — one per valid log_water call ({ volumeMl, drink })
+ *   { type: 'repeat', repeat }            — one per valid repeat_meal call ({ mealType?, dayOffset })
+ *   { type: 'rejected', item }            — one per invalid call ({ index, name, reason })
+ *   { type: 'done', foodsCount, _timing, _provider, _quota?, _usage? }
+ *   { type: 'error', status, error, details? } — upstream failure after the stream started
+ * Errors raised before the first event still get a regular JSON error response and status code.
+ */
+async function streamFoods(res: VercelResponse, options: FoodsResponseOptions) {
+  const { label, provider, request, t0, bodyMs } = options;
+  let started = false;
+  const write = (event: Record<string, unknown>) => {
+    if (!started) {
+      started = true;
+      res.status(200);
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      res.setHeader('X-Accel-Buffering', 'no');
+      if (options.transcription) res.write(`${JSON.stringify({ type: 'transcription', text: options.transcription })}\n`);
+    }
+    res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  const llmStart = Date.now();
+  let index = 0;
+  let correctionIndex = 0;
+  let waterIndex = 0;
+  let repeatIndex = 0;
+  let foodsCount = 0;
+  let usage: UsageSummary | undefined;
+  try {
+    for await (const event of streamLlm(provider, request)) {
+      if (event.type === 'text') {
+        if (!options.transcription) write({ type: 'transcription', text: event.text });
+        continue;
+      }
+      if (event.type === 'usage') {
+        usage = summarizeUsage(provider, event.usage);
+        continue;
+      }
+      if (isCorrectionCall(event.call)) {
+        const result = resolveCorrection(event.call, options.foodContext ?? []);
+        if (result.correction) {
+          write({ type: 'correction', correction: result.correction });
+        } else {
+          console.warn(`[${event.call.name}] unresolved`, { index: correctionIndex, reason: result.reason });
+          write({ type: 'rejected', item: { index: correctionIndex, name: event.call.name, reason: result.reason } });
+        }
+        correctionIndex += 1;
+        continue;
+      }
+      if (isWaterCall(event.call)) {
+        const result = validateDrink(event.call.args);
+        if (result.drink) {
+          write({ type: 'water', drink: result.drink });
+        } else {
+          console.warn('[log_water] rejected', { index: waterIndex, reason: result.reason });
+          write({ type: 'rejected', item: { index: waterIndex, name: event.call.name, reason: result.reason } });
+        }
+        waterIndex += 1;
+        continue;
+      }
+      if (isRepeatMealCall(event.call)) {
+        const result = validateRepeat(event.call.args);
+        if (result.repeat) {
+          write({ type: 'repeat', repeat: result.repeat });
+        } else {
+          console.warn('[repeat_meal] rejected', { index: repeatIndex, reason: result.reason });
+          write({ type: 'rejected', item: { index: repeatIndex, name: event.call.name, reason: result.reason } });
+        }
+        repeatIndex += 1;
+        continue;
+      }
+      if (event.call.name !== 'log_food') continue;
+      const result = prepareFood(event.call.args, options.language, options.library);
+      if (result.food) {
+        foodsCount += 1;
+        write({ type: 'food', food: result.food });
+      } else {
+        const name = typeof event.call.args.name === 'string' ? event.call.args.name : '?';
+        console.warn('[log_food] rejected item', { index, name, reason: result.reason });
+        write({ type: 'rejected', item: { index, name, reason: result.reason } });
+      }
+      index += 1;
+    }
+
+    const llmMs = Date.now() - llmStart;
+    await recordUsage(options.usageId, provider, usage);
+    write({
+      type: 'done',
+      foodsCount,
+      _timing: { bodyMs, llmMs, parseMs: 0, totalMs: Date.now() - t0 },
+      _provider: provider.name,
+      _quota: options.quota,
+      _usage: usage,
+    });
+    res.end();
+  } catch (err) {
+    if (!started) {
+      if (err instanceof LlmProviderError) return sendLlmError(res, err);
+      console.error(`${label} error`, err);
+      return res.status(500).json({ error: err instanceof Error ? err.message : 'Processing failed' });
+    }
+    console.error(`${label} stream error`, err);
+    const described =
+      err instanceof LlmProviderError
+        ? describeLlmError(err)
+        : { status: 500, body: { error: err instanceof Error ? err.message : 'Processing failed' } };
+    write({ type: 'error', status: described.status, ...described.body });
+    res.end();
+  }
+}
@@ -0,0 +1,19 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../lib/database.types.js';
+
+let client: SupabaseClient<Database> | null | undefined;
+
+/**
+ * Service-role Supabase client for server-side bookkeeping (usage ledger). Bypasses RLS, so it must never
+ * run with user-supplied filters it has not checked. Null when SUPABASE_SERVICE_ROLE_KEY is not set.
+ */
+export function getSupabaseAdmin(): SupabaseClient<Database> | null {
+  if (client !== undefined) return client;
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  client =
+    url && serviceKey
+      ? createClient<Database>(url, serviceKey, { auth: { persistSession: false, autoRefreshToken: false } })
+      : null;
+  return client;
+}
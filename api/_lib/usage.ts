@@ -0,0 +1,37 @@
+import { estimateCostUsd, type LlmProvider, type LlmUsage } from './llm/index.js';
+import { getSupabaseAdmin } from './supabaseAdmin.js';
+
+/** Token counts plus estimated cost, echoed to the client as `_usage`. */
+export interface UsageSummary extends LlmUsage {
+  model: string;
+  /** USD; null when the model has no known price (see ./llm/pricing.ts). */
+  costUsd: number | null;
+}
+
+export function summarizeUsage(provider: LlmProvider, usage: LlmUsage | undefined): UsageSummary | undefined {
+  if (!usage) return undefined;
+  return { ...usage, model: provider.model, costUsd: estimateCostUsd(provider.model, usage) };
+}
+
+/**
+ * Attaches token counts and cost to the api_usage row the quota check created. A no-op without a ledger
+ * row; failures are logged and never fail the request (the user already has their foods).
+ */
+export async function recordUsage(usageId: number | undefined, provider: LlmProvider, usage: UsageSummary | undefined) {
+  const admin = getSupabaseAdmin();
+  if (!admin || usageId == null || !usage) return;
+  const { error } = await admin
+    .from('api_usage')
+    .update({
+      provider: provider.name,
+      model: usage.model,
+      prompt_tokens: usage.promptTokens,
+      output_tokens: usage.outputTokens,
+      audio_tokens: usage.audioTokens,
+      image_tokens: usage.imageTokens,
+      total_tokens: usage.totalTokens,
+      cost_usd: usage.costUsd,
+    })
+    .eq('id', usageId);
+  if (error) console.error('[usage] could not record token usage', error.message);
+}
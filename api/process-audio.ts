@@ -1,4 +1,21 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireUser } from './_lib/auth.js';
+import { buildClarificationInstruction, getClarificationTarget } from './_lib/clarification.js';
+import { buildCorrectionInstruction, getCorrectionTools, getFoodContext } from './_lib/corrections.js';
+import { buildEstimateHintsInstruction, loadEstimateHints } from './_lib/estimateHints.js';
+import { buildLibraryInstruction, loadFoodLibrary } from './_lib/foodLibrary.js';
+import { LOG_WATER_RULES, LOG_WATER_SCHEMA } from './_lib/hydration.js';
+import { getLlmProvider, type LlmProvider, type LlmRequest } from './_lib/llm/index.js';
+import {
+  LOG_FOOD_RULES,
+  LOG_FOOD_SCHEMA,
+  buildLanguageInstruction,
+  getFixtureName,
+  getPreferredLanguage,
+} from './_lib/logFood.js';
+import { enforceQuota } from './_lib/quota.js';
+import { REPEAT_MEAL_RULES, REPEAT_MEAL_SCHEMA } from './_lib/repeatMeal.js';
+import { respondWithFoods } from './_lib/respond.js';
 
 export const config = { api: { bodyParser: false } };
 
@@ -15,36 +32,23 @@ function getRawBody(req: VercelRequest): Promise<Buffer> {
  * Same tool + instruction + response handling as in services/geminiLiveService.ts
  * (previously: logFoodTool, systemInstruction in live.connect, handleMessage for toolCall/inputTranscription).
  * Moved here so the API key stays server-side; client only sends audio and receives { transcription, food }.
+ * The tool schema and parsing are shared with the other /api/process-* handlers via ./_lib/logFood,
+ * and the model call goes through the provider selected by LLM_PROVIDER (./_lib/llm).
  */
-const LOG_FOOD_SCHEMA = {
-  name: 'log_food',
-  description:
-    'Log a food item. Call this when the user mentions eating something. You MUST estimate the nutritional values based on the food and quantity provided.',
-  parameters: {
-    type: 'OBJECT',
-    properties: {
-      name: { type: 'STRING', description: 'Name of the food item' },
-      quantity: { type: 'STRING', description: 'Amount consumed (e.g. 1 cup, 2 slices)' },
-      calories: { type: 'NUMBER', description: 'Estimated calories (kCal)' },
-      protein: { type: 'NUMBER', description: 'Protein in grams' },
-      carbs: { type: 'NUMBER', description: 'Carbohydrates in grams' },
-      fat: { type: 'NUMBER', description: 'Fat in grams' },
-      fiber: { type: 'NUMBER', description: 'Fiber in grams' },
-      micronutrients: { type: 'STRING', description: 'Key micronutrients (comma separated)' },
-    },
-    required: ['name', 'quantity', 'calories', 'protein', 'carbs', 'fat', 'fiber'],
-  },
-};
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', 'POST');
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return res.status(500).json({ error: 'Server missing GEMINI_API_KEY' });
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  let provider: LlmProvider;
+  try {
+    provider = getLlmProvider();
+  } catch (err) {
+    return res.status(500).json({ error: err instanceof Error ? err.message : 'LLM provider not configured' });
   }
 
   const contentType = req.headers['content-type'] ?? '';
@@ -53,7 +57,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       '— bodyParser:false may not be active.');
   }
 
-  const preferredLanguage = req.query.lang === 'pt-BR' ? 'pt-BR' : 'en-US';
+  const preferredLanguage = getPreferredLanguage(req);
 
   const t0 = Date.now();
 
@@ -66,127 +70,33 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   const wavBase64 = wavBuffer.toString('base64');
-  // Must support generateContent; use GEMINI_MODEL to override (e.g. gemini-2.0-flash-lite for quota)
-  const model = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${encodeURIComponent(apiKey)}`;
-
-  const languageInstruction =
-    preferredLanguage === 'pt-BR'
-      ? 'The speaker may be using Portuguese (Brazil). Understand Portuguese naturally and extract each food/drink item correctly. Keep the transcription in Portuguese when possible.'
-      : 'The speaker may be using English. Understand English naturally and extract each food/drink item correctly.';
-
-  const payload = {
-    contents: [
-      {
-        role: 'user',
-        parts: [
-          {
-            text: `Listen to this audio. The user is stating what they ate or drank. ${languageInstruction} For EACH separate food or drink mentioned, call the log_food tool once (e.g. "2 bananas and 3 eggs" = two calls: one for bananas, one for eggs). Use your best estimate for each item. Do not ask questions; just log everything mentioned. If nothing food-related is said, do not call the tool. Return ONLY tool calls. No explanations. If you include a transcription, max 15 words.`,
-          },
-          {
-            inlineData: {
-              mimeType: 'audio/wav',
-              data: wavBase64,
-            },
-          },
-        ],
-      },
-    ],
-    generationConfig: {
-      temperature: 0.2,
-      maxOutputTokens: 512,
-    },
-    tools: [
-      {
-        functionDeclarations: [LOG_FOOD_SCHEMA],
-      },
-    ],
+  const languageInstruction = buildLanguageInstruction(preferredLanguage, 'speech');
+
+  const quotaCheck = await enforceQuota(res, user, 'process-audio');
+  if (!quotaCheck.allowed) return;
+
+  const foodContext = getFoodContext(req);
+  const clarification = getClarificationTarget(req);
+  const [library, estimateHints] = await Promise.all([loadFoodLibrary(user.id), loadEstimateHints(user.id)]);
+  const request: LlmRequest = {
+    instruction: `Listen to this audio. The user is stating what they ate or drank. ${languageInstruction} ${LOG_FOOD_RULES} ${LOG_WATER_RULES} ${REPEAT_MEAL_RULES} If you include a transcription, max 15 words.${buildLibraryInstruction(library)}${buildEstimateHintsInstruction(estimateHints)}${buildCorrectionInstruction(foodContext)}${buildClarificationInstruction(clarification)}`,
+    media: { mimeType: 'audio/wav', data: wavBase64 },
+    tools: [LOG_FOOD_SCHEMA, LOG_WATER_SCHEMA, REPEAT_MEAL_SCHEMA, ...getCorrectionTools(foodContext)],
+    temperature: 0.2,
+    maxOutputTokens: 512,
+    fixture: getFixtureName(req),
   };
 
-  const maxRetries = 2;
-  const retryDelayMs = 2000;
-
-  try {
-    let geminiRes: Response;
-    let errText = '';
-    const geminiStart = Date.now();
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      geminiRes = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-      if (geminiRes.ok) break;
-      errText = await geminiRes.text();
-      const isRetryable = geminiRes.status === 503 || geminiRes.status === 429;
-      if (!isRetryable || attempt === maxRetries) break;
-      await new Promise((r) => setTimeout(r, retryDelayMs));
-    }
-    const geminiMs = Date.now() - geminiStart;
-
-    if (!geminiRes!.ok) {
-      console.error('Gemini API error', geminiRes!.status, errText);
-      if (geminiRes!.status === 429) {
-        return res.status(429).json({
-          error: 'Quota exceeded',
-          details: 'Gemini rate limit reached. Wait a minute or check your plan at ai.google.dev.',
-        });
-      }
-      if (geminiRes!.status === 503) {
-        return res.status(503).json({
-          error: 'Model overloaded',
-          details: 'Gemini is busy. Try again in a moment.',
-        });
-      }
-      return res.status(502).json({
-        error: geminiRes!.status === 401 ? 'Invalid API key' : 'Upstream API error',
-        details: errText.slice(0, 200),
-      });
-    }
-
-    interface Part {
-      text?: string;
-      functionCall?: { name: string; args: Record<string, unknown> };
-      function_call?: { name: string; args: Record<string, unknown> };
-    }
-    const parseStart = Date.now();
-    const data = (await geminiRes.json()) as {
-      candidates?: Array<{ content?: { parts?: Part[] } }>;
-    };
-    const parseMs = Date.now() - parseStart;
-
-    const parts = data.candidates?.[0]?.content?.parts ?? [];
-    let transcription: string | undefined;
-    const foods: Record<string, unknown>[] = [];
-
-    for (const part of parts) {
-      if (part.text) transcription = part.text;
-      const fc = part.functionCall ?? part.function_call;
-      if (fc?.name === 'log_food' && fc.args) {
-        const args = fc.args as Record<string, unknown>;
-        foods.push({
-          name: args.name,
-          quantity: args.quantity,
-          calories: args.calories,
-          protein: args.protein,
-          carbs: args.carbs,
-          fat: args.fat,
-          fiber: args.fiber ?? 0,
-          micronutrients: args.micronutrients ?? '',
-        });
-      }
-    }
-
-    const totalMs = Date.now() - t0;
-    return res.status(200).json({
-      transcription: transcription ?? null,
-      foods,
-      _timing: { bodyMs, geminiMs, parseMs, totalMs },
-    });
-  } catch (err) {
-    console.error('process-audio error', err);
-    return res.status(500).json({
-      error: err instanceof Error ? err.message : 'Processing failed',
-    });
-  }
+  return respondWithFoods(req, res, {
+    label: 'process-audio',
+    quota: quotaCheck.quota,
+    usageId: quotaCheck.usageId,
+    language: preferredLanguage,
+    foodContext,
+    library,
+    provider,
+    request,
+    t0,
+    bodyMs,
+  });
 }
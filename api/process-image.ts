@@ -0,0 +1,97 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireUser } from './_lib/auth.js';
+import { buildEstimateHintsInstruction, loadEstimateHints } from './_lib/estimateHints.js';
+import { buildLibraryInstruction, loadFoodLibrary } from './_lib/foodLibrary.js';
+import { getLlmProvider, type LlmProvider, type LlmRequest } from './_lib/llm/index.js';
+import {
+  LOG_FOOD_SCHEMA,
+  buildLanguageInstruction,
+  getFixtureName,
+  getPreferredLanguage,
+} from './_lib/logFood.js';
+import { enforceQuota } from './_lib/quota.js';
+import { respondWithFoods } from './_lib/respond.js';
+
+export const config = { api: { bodyParser: false } };
+
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+// Vercel caps request bodies at 4.5 MB; the client downsizes photos well below this.
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+const MIN_IMAGE_BYTES = 1024;
+
+function getRawBody(req: VercelRequest): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Photo counterpart of /api/process-audio: the raw image body is sent to Gemini as inlineData
+ * with the same log_food tool, and the response has the same { transcription, foods } shape
+ * (transcription is a short caption of the plate, when the model provides one).
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  let provider: LlmProvider;
+  try {
+    provider = getLlmProvider();
+  } catch (err) {
+    return res.status(500).json({ error: err instanceof Error ? err.message : 'LLM provider not configured' });
+  }
+
+  const mimeType = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  if (!SUPPORTED_IMAGE_TYPES.includes(mimeType)) {
+    return res.status(415).json({ error: 'Unsupported image type. Use a JPEG, PNG or WebP photo.' });
+  }
+
+  const preferredLanguage = getPreferredLanguage(req);
+
+  const t0 = Date.now();
+
+  const bodyStart = Date.now();
+  const imageBuffer = await getRawBody(req);
+  const bodyMs = Date.now() - bodyStart;
+  if (imageBuffer.length < MIN_IMAGE_BYTES) {
+    return res.status(400).json({ error: 'Image is empty or unreadable. Try another photo.' });
+  }
+  if (imageBuffer.length > MAX_IMAGE_BYTES) {
+    return res.status(413).json({ error: 'Image too large. Try a smaller photo.' });
+  }
+
+  const languageInstruction = buildLanguageInstruction(preferredLanguage, 'image');
+
+  const quotaCheck = await enforceQuota(res, user, 'process-image');
+  if (!quotaCheck.allowed) return;
+
+  const [library, estimateHints] = await Promise.all([loadFoodLibrary(user.id), loadEstimateHints(user.id)]);
+  const request: LlmRequest = {
+    instruction: `Look at this photo of a meal. For EACH separate food or drink visible, call the log_food tool once, estimating the portion size from the plate and utensils (e.g. "150 g", "1 cup"). ${languageInstruction} Use your best estimate for each item and set confidence and assumptions; when a portion is hard to judge, put the follow-up in clarification instead of asking. If no food or drink is visible, do not call the tool. Return ONLY tool calls. If you include a caption, max 15 words.${buildLibraryInstruction(library)}${buildEstimateHintsInstruction(estimateHints)}`,
+    media: { mimeType, data: imageBuffer.toString('base64') },
+    tools: [LOG_FOOD_SCHEMA],
+    temperature: 0.2,
+    maxOutputTokens: 1024,
+    fixture: getFixtureName(req),
+  };
+
+  return respondWithFoods(req, res, {
+    label: 'process-image',
+    quota: quotaCheck.quota,
+    usageId: quotaCheck.usageId,
+    language: preferredLanguage,
+    library,
+    provider,
+    request,
+    t0,
+    bodyMs,
+  });
+}
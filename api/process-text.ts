@@ -0,0 +1,91 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireUser } from './_lib/auth.js';
+import { buildClarificationInstruction, getClarificationTarget } from './_lib/clarification.js';
+import { buildCorrectionInstruction, getCorrectionTools, getFoodContext } from './_lib/corrections.js';
+import { buildEstimateHintsInstruction, loadEstimateHints } from './_lib/estimateHints.js';
+import { buildLibraryInstruction, loadFoodLibrary } from './_lib/foodLibrary.js';
+import { LOG_WATER_RULES, LOG_WATER_SCHEMA } from './_lib/hydration.js';
+import { getLlmProvider, type LlmProvider, type LlmRequest } from './_lib/llm/index.js';
+import {
+  LOG_FOOD_RULES,
+  LOG_FOOD_SCHEMA,
+  buildLanguageInstruction,
+  getFixtureName,
+  getPreferredLanguage,
+} from './_lib/logFood.js';
+import { enforceQuota } from './_lib/quota.js';
+import { REPEAT_MEAL_RULES, REPEAT_MEAL_SCHEMA } from './_lib/repeatMeal.js';
+import { respondWithFoods } from './_lib/respond.js';
+
+const MAX_TEXT_LENGTH = 1000;
+
+/**
+ * Typed counterpart of /api/process-audio for places where speaking is not an option.
+ * Body: { text }. Responds with the same { transcription, foods } shape; transcription echoes the text.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  let provider: LlmProvider;
+  try {
+    provider = getLlmProvider();
+  } catch (err) {
+    return res.status(500).json({ error: err instanceof Error ? err.message : 'LLM provider not configured' });
+  }
+
+  const t0 = Date.now();
+  const body = (typeof req.body === 'string' ? safeJsonParse(req.body) : req.body) as { text?: unknown } | null;
+  const text = typeof body?.text === 'string' ? body.text.trim() : '';
+  if (!text) {
+    return res.status(400).json({ error: 'Describe what you ate before sending.' });
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    return res.status(400).json({ error: `Description too long (max ${MAX_TEXT_LENGTH} characters).` });
+  }
+
+  const preferredLanguage = getPreferredLanguage(req);
+  const languageInstruction = buildLanguageInstruction(preferredLanguage, 'text');
+
+  const quotaCheck = await enforceQuota(res, user, 'process-text');
+  if (!quotaCheck.allowed) return;
+
+  const foodContext = getFoodContext(req);
+  const clarification = getClarificationTarget(req);
+  const [library, estimateHints] = await Promise.all([loadFoodLibrary(user.id), loadEstimateHints(user.id)]);
+  const request: LlmRequest = {
+    instruction: `The user typed what they ate or drank. ${languageInstruction} ${LOG_FOOD_RULES} ${LOG_WATER_RULES} ${REPEAT_MEAL_RULES}${buildLibraryInstruction(library)}${buildEstimateHintsInstruction(estimateHints)}${buildCorrectionInstruction(foodContext)}${buildClarificationInstruction(clarification)}`,
+    userText: `User description: """${text}"""`,
+    tools: [LOG_FOOD_SCHEMA, LOG_WATER_SCHEMA, REPEAT_MEAL_SCHEMA, ...getCorrectionTools(foodContext)],
+    temperature: 0.2,
+    maxOutputTokens: 512,
+    fixture: getFixtureName(req),
+  };
+
+  return respondWithFoods(req, res, {
+    label: 'process-text',
+    quota: quotaCheck.quota,
+    usageId: quotaCheck.usageId,
+    language: preferredLanguage,
+    foodContext,
+    library,
+    provider,
+    request,
+    t0,
+    bodyMs: 0,
+    transcription: text,
+  });
+}
+
+function safeJsonParse(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
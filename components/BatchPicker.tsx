@@ -0,0 +1,420 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, Plus, Sparkles, X } from 'lucide-react';
+import { FoodBatch, FoodItem, QuantityUnit, Recipe, RecipeIngredient } from '../types';
+import { batchRemaining, isBatchUsedUp } from '../lib/batches';
+import { sumRecipe } from '../lib/recipes';
+import { resolveQuantity, unitKind } from '../lib/units';
+import type { ProcessAudioService } from '../services/processAudioService';
+
+interface BatchPickerProps {
+  /** Batches not cleared yet, newest first. */
+  batches: FoodBatch[];
+  /** Logged foods; portions taken from a batch count against it. */
+  items: FoodItem[];
+  recipes: Recipe[];
+  onCreate: (batch: FoodBatch) => void;
+  /** Logs a portion ("200 g", "1 serving", "1/3") now, scaled from the whole batch. */
+  onLogPortion: (batchId: string, quantity: string) => void;
+  /** Clears a used-up or discarded batch from the list. */
+  onFinish: (batchId: string) => void;
+  /** Estimates the whole batch from its description without logging anything. */
+  createEstimateService: (
+    onIngredient: (ingredient: RecipeIngredient) => void,
+    onDone: () => void
+  ) => ProcessAudioService;
+  onClose: () => void;
+  language: 'en-US' | 'pt-BR';
+}
+
+type MacroField = 'calories' | 'protein' | 'carbs' | 'fat';
+
+const MACRO_FIELDS: MacroField[] = ['calories', 'protein', 'carbs', 'fat'];
+
+interface Draft {
+  name: string;
+  /** Whole batch as typed ("900 g", "6 servings", "1 pot (1200 g)"). */
+  amount: string;
+  recipeId?: string;
+  values: Record<MacroField, string>;
+  /** Filled by a recipe or an estimate; not editable here. */
+  extras: Pick<FoodBatch, 'fiber' | 'sodium' | 'addedSugar' | 'saturatedFat' | 'micronutrients'>;
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  amount: '',
+  values: { calories: '', protein: '', carbs: '', fat: '' },
+  extras: { fiber: 0 },
+};
+
+const parseAmount = (text: string): number | null => {
+  const trimmed = text.trim().replace(',', '.');
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed * 10) / 10 : NaN;
+};
+
+const formatNumber = (value: number): string => String(Math.round(value * 10) / 10);
+
+/** Draft values from summed foods: a recipe's ingredients or the foods of an estimate. */
+const toDraftNutrition = (foods: RecipeIngredient[]): Pick<Draft, 'values' | 'extras'> => {
+  const totals = sumRecipe(foods);
+  return {
+    values: {
+      calories: String(totals.calories),
+      protein: String(totals.protein),
+      carbs: String(totals.carbs),
+      fat: String(totals.fat),
+    },
+    extras: {
+      fiber: totals.fiber,
+      sodium: totals.sodium,
+      addedSugar: totals.addedSugar,
+      saturatedFat: totals.saturatedFat,
+      micronutrients: totals.micronutrients,
+    },
+  };
+};
+
+const BatchPicker: React.FC<BatchPickerProps> = ({
+  batches,
+  items,
+  recipes,
+  onCreate,
+  onLogPortion,
+  onFinish,
+  createEstimateService,
+  onClose,
+  language,
+}) => {
+  const isPortuguese = language === 'pt-BR';
+  const copy = {
+    title: isPortuguese ? 'Sobras e marmitas' : 'Leftovers & batches',
+    subtitle: isPortuguese
+      ? 'Registre a panela inteira uma vez e depois as porcoes que comer.'
+      : 'Register the whole pot once, then log the portions you eat.',
+    empty: isPortuguese ? 'Nenhum preparo em aberto.' : 'No open batches.',
+    add: isPortuguese ? 'Novo preparo' : 'New batch',
+    fromRecipe: isPortuguese ? 'A partir de uma receita' : 'From a recipe',
+    name: isPortuguese ? 'Nome' : 'Name',
+    namePlaceholder: isPortuguese ? 'Ex.: Arroz branco cozido' : 'E.g. Cooked white rice',
+    amount: isPortuguese ? 'Quantidade total' : 'Whole batch',
+    amountPlaceholder: isPortuguese ? 'Ex.: 900 g ou 6 porcoes' : 'E.g. 900 g or 6 servings',
+    wholeBatch: isPortuguese ? 'Valores da panela inteira' : 'Values for the whole batch',
+    estimate: isPortuguese ? 'Estimar' : 'Estimate',
+    save: isPortuguese ? 'Salvar' : 'Save',
+    cancel: isPortuguese ? 'Cancelar' : 'Cancel',
+    close: isPortuguese ? 'Fechar' : 'Close',
+    log: isPortuguese ? 'Registrar' : 'Log',
+    clear: isPortuguese ? 'Encerrar' : 'Clear',
+    usedUp: isPortuguese ? 'Acabou' : 'Used up',
+    left: isPortuguese ? 'restam' : 'left of',
+    portionPlaceholder: isPortuguese ? 'Ex.: 200 g ou 1/3' : 'E.g. 200 g or 1/3',
+    portionAria: isPortuguese ? 'Porcao de' : 'Portion of',
+    nameRequired: isPortuguese ? 'Informe um nome.' : 'Enter a name.',
+    amountRequired: isPortuguese
+      ? 'Informe a quantidade total, ex.: 900 g ou 6 porcoes.'
+      : 'Enter the whole amount, e.g. 900 g or 6 servings.',
+    caloriesRequired: isPortuguese ? 'Informe as calorias ou use Estimar.' : 'Enter the calories or use Estimate.',
+    invalidNumber: isPortuguese ? 'Use apenas numeros nao negativos.' : 'Use non-negative numbers only.',
+    fieldLabels: {
+      calories: 'kcal',
+      protein: 'P (g)',
+      carbs: 'C (g)',
+      fat: isPortuguese ? 'G (g)' : 'F (g)',
+    } as Record<MacroField, string>,
+    countUnits: {
+      piece: isPortuguese ? 'unid.' : 'pieces',
+      slice: isPortuguese ? 'fatias' : 'slices',
+      serving: isPortuguese ? 'porcoes' : 'servings',
+      bowl: isPortuguese ? 'tigelas' : 'bowls',
+      plate: isPortuguese ? 'pratos' : 'plates',
+    } as Partial<Record<QuantityUnit, string>>,
+  };
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [portions, setPortions] = useState<Record<string, string>>({});
+  const serviceRef = useRef<ProcessAudioService | null>(null);
+
+  useEffect(() => () => serviceRef.current?.stop(), []);
+
+  const formatAmount = (amount: number, unit: QuantityUnit) =>
+    `${formatNumber(amount)} ${copy.countUnits[unit] ?? unit.replace('_', ' ')}`;
+
+  // Count units default to one; weights and volumes are typed.
+  const defaultPortion = (batch: FoodBatch) =>
+    unitKind(batch.quantity.unit) === 'count' ? `1 ${batch.quantity.unit}` : '';
+
+  const pickRecipe = (recipeId: string) => {
+    const recipe = recipes.find((candidate) => candidate.id === recipeId);
+    if (!recipe || !draft) return;
+    setDraft({
+      ...draft,
+      name: recipe.name,
+      amount: `${formatNumber(recipe.servings)} servings`,
+      recipeId: recipe.id,
+      ...toDraftNutrition(recipe.ingredients),
+    });
+  };
+
+  const estimate = () => {
+    if (!draft || isEstimating) return;
+    const description = `${draft.amount.trim()} ${draft.name.trim()}`.trim();
+    if (!draft.name.trim() || !draft.amount.trim()) {
+      setFormError(!draft.name.trim() ? copy.nameRequired : copy.amountRequired);
+      return;
+    }
+    setFormError(null);
+    setIsEstimating(true);
+    const foods: RecipeIngredient[] = [];
+    const service = createEstimateService(
+      (food) => foods.push(food),
+      () => {
+        serviceRef.current = null;
+        setIsEstimating(false);
+        if (foods.length > 0) {
+          setDraft((prev) => (prev ? { ...prev, recipeId: undefined, ...toDraftNutrition(foods) } : prev));
+        }
+      }
+    );
+    serviceRef.current = service;
+    void service.sendText(description);
+  };
+
+  const handleSubmit = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) {
+      setFormError(copy.nameRequired);
+      return;
+    }
+    const quantity = resolveQuantity(draft.amount, name);
+    if (!quantity) {
+      setFormError(copy.amountRequired);
+      return;
+    }
+    const values = Object.fromEntries(
+      MACRO_FIELDS.map((key) => [key, parseAmount(draft.values[key])])
+    ) as Record<MacroField, number | null>;
+    if (Object.values(values).some((value) => Number.isNaN(value))) {
+      setFormError(copy.invalidNumber);
+      return;
+    }
+    if (values.calories == null) {
+      setFormError(copy.caloriesRequired);
+      return;
+    }
+    onCreate({
+      id: crypto.randomUUID(),
+      name: name.slice(0, 120),
+      quantity,
+      calories: Math.round(values.calories),
+      protein: values.protein ?? 0,
+      carbs: values.carbs ?? 0,
+      fat: values.fat ?? 0,
+      ...draft.extras,
+      recipeId: draft.recipeId,
+      cookedAt: new Date(),
+    });
+    setDraft(null);
+  };
+
+  const logPortion = (batch: FoodBatch) => {
+    const text = (portions[batch.id] || defaultPortion(batch)).trim();
+    if (!text) return;
+    onLogPortion(batch.id, text);
+    setPortions((prev) => ({ ...prev, [batch.id]: '' }));
+  };
+
+  const inputClass =
+    'h-10 w-full min-w-0 rounded-lg border border-stone-200 bg-white px-3 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300';
+  const smallButtonClass =
+    'flex shrink-0 items-center justify-center gap-1.5 rounded-lg border border-stone-200 px-3 py-2 text-xs font-semibold text-stone-600 hover:bg-stone-50 disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md rounded-2xl bg-white p-6 shadow-2xl border border-stone-200 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-xl font-bold text-stone-900">{copy.title}</h3>
+            <p className="mt-1 text-xs text-stone-500">{copy.subtitle}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={copy.close}
+            className="rounded-lg p-2 text-stone-400 hover:bg-stone-50 hover:text-stone-700"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {batches.length === 0 && !draft && <p className="mt-4 text-sm text-stone-400">{copy.empty}</p>}
+
+        {batches.length > 0 && (
+          <ul className="mt-2 divide-y divide-stone-100">
+            {batches.map((batch) => {
+              const remaining = batchRemaining(batch, items);
+              const usedUp = isBatchUsedUp(batch, remaining);
+              const share = Math.min(1, remaining / batch.quantity.amount);
+              return (
+                <li key={batch.id} className="py-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-semibold text-stone-800">{batch.name}</p>
+                      <p className="mt-0.5 text-xs text-stone-500">
+                        {batch.cookedAt.toLocaleDateString(language, { weekday: 'short', day: 'numeric', month: 'short' })}
+                        {' · '}
+                        {usedUp ? (
+                          <span className="font-semibold text-red-600">{copy.usedUp}</span>
+                        ) : (
+                          `${formatAmount(remaining, batch.quantity.unit)} ${copy.left} ${formatAmount(batch.quantity.amount, batch.quantity.unit)}`
+                        )}
+                      </p>
+                    </div>
+                    <button type="button" onClick={() => onFinish(batch.id)} className={smallButtonClass}>
+                      {copy.clear}
+                    </button>
+                  </div>
+                  <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-stone-100">
+                    <div
+                      className={`h-full rounded-full ${share <= 0.25 ? 'bg-amber-400' : 'bg-emerald-400'}`}
+                      style={{ width: `${Math.round(share * 100)}%` }}
+                    />
+                  </div>
+                  {!usedUp && (
+                    <div className="mt-2 flex gap-2">
+                      <input
+                        value={portions[batch.id] || defaultPortion(batch)}
+                        onChange={(e) => setPortions((prev) => ({ ...prev, [batch.id]: e.target.value }))}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') logPortion(batch);
+                        }}
+                        placeholder={copy.portionPlaceholder}
+                        aria-label={`${copy.portionAria} ${batch.name}`}
+                        className={inputClass}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => logPortion(batch)}
+                        className="shrink-0 rounded-lg bg-stone-900 px-4 py-2 text-xs font-semibold text-white hover:bg-stone-700"
+                      >
+                        {copy.log}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {draft ? (
+          <div className="mt-4 rounded-2xl border border-stone-200 p-4">
+            {recipes.length > 0 && (
+              <select
+                value={draft.recipeId ?? ''}
+                onChange={(e) => pickRecipe(e.target.value)}
+                aria-label={copy.fromRecipe}
+                className={`${inputClass} mb-3`}
+              >
+                <option value="">{copy.fromRecipe}</option>
+                {recipes.map((recipe) => (
+                  <option key={recipe.id} value={recipe.id}>
+                    {recipe.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="grid grid-cols-1 gap-3">
+              <label className="block">
+                <span className="mb-1 block text-xs font-semibold text-stone-600">{copy.name}</span>
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder={copy.namePlaceholder}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="mb-1 block text-xs font-semibold text-stone-600">{copy.amount}</span>
+                <input
+                  value={draft.amount}
+                  onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                  placeholder={copy.amountPlaceholder}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            <div className="mt-4 flex items-center justify-between gap-2">
+              <p className="text-xs font-semibold uppercase tracking-wide text-stone-400">{copy.wholeBatch}</p>
+              <button type="button" onClick={estimate} disabled={isEstimating} className={smallButtonClass}>
+                {isEstimating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                {copy.estimate}
+              </button>
+            </div>
+            <div className="mt-2 grid grid-cols-4 gap-2">
+              {MACRO_FIELDS.map((key) => (
+                <input
+                  key={key}
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={draft.values[key]}
+                  onChange={(e) => setDraft({ ...draft, values: { ...draft.values, [key]: e.target.value } })}
+                  placeholder={copy.fieldLabels[key]}
+                  aria-label={copy.fieldLabels[key]}
+                  className="h-9 min-w-0 rounded-lg border border-stone-200 bg-white px-2 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+                />
+              ))}
+            </div>
+
+            {formError && <p className="mt-3 text-sm font-medium text-red-600">{formError}</p>}
+
+            <div className="mt-4 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  serviceRef.current?.stop();
+                  setDraft(null);
+                }}
+                className="rounded-xl border border-stone-300 px-4 py-2 text-sm font-semibold text-stone-700 hover:bg-stone-50"
+              >
+                {copy.cancel}
+              </button>
+              <button
+                type="button"
+                onClick={handleSubmit}
+                disabled={isEstimating}
+                className="rounded-xl bg-stone-900 px-4 py-2 text-sm font-semibold text-white hover:bg-stone-700 disabled:opacity-50"
+              >
+                {copy.save}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(EMPTY_DRAFT);
+              setFormError(null);
+            }}
+            className={`${smallButtonClass} mt-4 w-full`}
+          >
+            <Plus size={14} />
+            {copy.add}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchPicker;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { HelpCircle, Mic, X } from 'lucide-react';
+import { FoodItem } from '../types';
+
+interface ClarificationPromptProps {
+  item: FoodItem;
+  onAnswer: (answer: string) => void;
+  onVoiceAnswer: () => void;
+  onDismiss: () => void;
+  disabled: boolean;
+  language: 'en-US' | 'pt-BR';
+}
+
+/** Follow-up for the newest low-confidence food: tap an option or answer by voice to re-estimate it. */
+const ClarificationPrompt: React.FC<ClarificationPromptProps> = ({
+  item,
+  onAnswer,
+  onVoiceAnswer,
+  onDismiss,
+  disabled,
+  language,
+}) => {
+  const isPortuguese = language === 'pt-BR';
+  const copy = {
+    about: isPortuguese ? 'Sobre' : 'About',
+    voice: isPortuguese ? 'Responder falando' : 'Answer by voice',
+    dismiss: isPortuguese ? 'Manter estimativa' : 'Keep estimate',
+  };
+  if (!item.clarification) return null;
+
+  return (
+    <div className="mt-6 rounded-2xl border border-sky-200 bg-sky-50 p-4">
+      <div className="flex items-start gap-2">
+        <HelpCircle size={18} className="mt-0.5 shrink-0 text-sky-500" />
+        <div className="min-w-0 flex-1">
+          <div className="text-xs font-medium text-sky-700">
+            {copy.about} {item.name} · {item.quantity}
+          </div>
+          <div className="mt-0.5 text-sm font-semibold text-sky-900">{item.clarification.question}</div>
+        </div>
+        <button
+          type="button"
+          onClick={onDismiss}
+          aria-label={copy.dismiss}
+          title={copy.dismiss}
+          className="shrink-0 rounded-lg p-1 text-sky-400 hover:bg-sky-100 hover:text-sky-600"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      <div className="mt-3 flex flex-wrap gap-2">
+        {item.clarification.options.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onAnswer(option)}
+            disabled={disabled}
+            className="rounded-xl border border-sky-200 bg-white px-3 py-2 text-xs font-semibold text-sky-800 hover:bg-sky-100 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {option}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={onVoiceAnswer}
+          disabled={disabled}
+          className="flex items-center gap-1 rounded-xl bg-sky-600 px-3 py-2 text-xs font-semibold text-white hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Mic size={14} />
+          {copy.voice}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClarificationPrompt;
@@ -1,13 +1,22 @@
 import React from 'react';
 import { DailyStats, NutritionGoals } from '../types';
-import { Flame, Beef, Wheat, Droplet, Sprout } from 'lucide-react';
+import { Flame, Beef, Wheat, Droplet, Sprout, Waves, Candy, CookingPot, GlassWater, Undo2 } from 'lucide-react';
+import { MICRONUTRIENT_KEYS, MICRONUTRIENT_LABELS, MICRONUTRIENT_UNITS, formatMicronutrientAmount } from '../lib/micronutrients';
 
 interface DashboardProps {
   stats: DailyStats;
   goals: NutritionGoals;
+  /** Water logged today, in ml. */
+  waterMl: number;
+  onAddWater: (volumeMl: number) => void;
+  /** Removes today's most recent drink. */
+  onUndoWater: () => void;
   language: 'en-US' | 'pt-BR';
 }
 
+/** Quick-add sizes: a glass and a bottle. */
+const WATER_QUICK_ADD_ML = [250, 500];
+
 const StatCard: React.FC<{
   label: string;
   value: number;
@@ -17,11 +26,16 @@ const StatCard: React.FC<{
   target?: number;
   targetLabel: string;
   progressLabel: string;
-}> = ({ label, value, unit, Icon, colorClass, target, targetLabel, progressLabel }) => {
+  /** Upper limit instead of a target: the bar warns as it fills and turns red once exceeded. */
+  isLimit?: boolean;
+}> = ({ label, value, unit, Icon, colorClass, target, targetLabel, progressLabel, isLimit }) => {
   const hasTarget = typeof target === 'number' && Number.isFinite(target) && target > 0;
   const progressPercent = hasTarget ? Math.round((value / target) * 100) : null;
   const progressWidth = hasTarget ? Math.min(100, Math.max(0, (value / target) * 100)) : 0;
-
+  const percent = progressPercent ?? 0;
+  const barColor = isLimit
+    ? percent > 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-emerald-500'
+    : percent > 100 ? 'bg-amber-500' : colorClass.replace('text-', 'bg-');
   return (
     <div className="bg-white rounded-3xl p-6 shadow-[0_2px_20px_rgba(0,0,0,0.04)] border border-stone-100 flex flex-col justify-between h-40 relative overflow-hidden group hover:shadow-lg transition-shadow duration-300">
       <div className="flex justify-between items-start z-10">
@@ -40,7 +54,7 @@ const StatCard: React.FC<{
             <p className="text-xs text-stone-400 mt-1 font-medium">{targetLabel}: {target}{unit}</p>
             <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-stone-100">
               <div
-                className={`h-full rounded-full ${progressPercent > 100 ? 'bg-amber-500' : colorClass.replace('text-', 'bg-')}`}
+                className={`h-full rounded-full ${barColor}`}
                 style={{ width: `${progressWidth}%` }}
               />
             </div>
@@ -52,7 +66,7 @@ const StatCard: React.FC<{
   );
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ stats, goals, language }) => {
+const Dashboard: React.FC<DashboardProps> = ({ stats, goals, waterMl, onAddWater, onUndoWater, language }) => {
   const isPortuguese = language === 'pt-BR';
   const copy = {
     dailySummary: isPortuguese ? 'Resumo Diario' : 'Daily Summary',
@@ -63,7 +77,23 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, goals, language }) => {
     fiber: isPortuguese ? 'Fibra' : 'Fiber',
     target: isPortuguese ? 'Meta' : 'Target',
     ofGoal: isPortuguese ? 'da meta' : 'of goal',
+    sodium: isPortuguese ? 'Sodio' : 'Sodium',
+    addedSugar: isPortuguese ? 'Acucar adicionado' : 'Added sugar',
+    saturatedFat: isPortuguese ? 'Gordura saturada' : 'Saturated fat',
+    limit: isPortuguese ? 'Limite' : 'Limit',
+    ofLimit: isPortuguese ? 'do limite' : 'of limit',
+    micronutrients: isPortuguese ? 'Micronutrientes de hoje' : "Today's micronutrients",
+    hydration: isPortuguese ? 'Hidratacao' : 'Hydration',
+    addWater: isPortuguese ? 'Adicionar' : 'Add',
+    undoWater: isPortuguese ? 'Desfazer ultima bebida' : 'Undo last drink',
   };
+  const waterPercent = goals.water ? Math.round((waterMl / goals.water) * 100) : null;
+  // Nutrients eaten today or with a goal, in MICRONUTRIENT_KEYS order.
+  const micronutrients = MICRONUTRIENT_KEYS.flatMap((key) => {
+    const amount = stats.micronutrients[key]?.amount ?? 0;
+    const target = goals.micronutrients?.[key];
+    return amount > 0 || target ? [{ key, amount, target }] : [];
+  });
   return (
     <div className="w-full">
       <div className="flex justify-between items-end mb-6">
@@ -122,7 +152,133 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, goals, language }) => {
           targetLabel={copy.target}
           progressLabel={copy.ofGoal}
         />
+        {goals.sodium != null && (
+          <StatCard
+            label={copy.sodium}
+            value={stats.totalSodium}
+            unit="mg"
+            Icon={Waves}
+            colorClass="text-slate-500"
+            target={goals.sodium}
+            targetLabel={copy.limit}
+            progressLabel={copy.ofLimit}
+            isLimit
+          />
+        )}
+        {goals.addedSugar != null && (
+          <StatCard
+            label={copy.addedSugar}
+            value={stats.totalAddedSugar}
+            unit="g"
+            Icon={Candy}
+            colorClass="text-pink-500"
+            target={goals.addedSugar}
+            targetLabel={copy.limit}
+            progressLabel={copy.ofLimit}
+            isLimit
+          />
+        )}
+        {goals.saturatedFat != null && (
+          <StatCard
+            label={copy.saturatedFat}
+            value={stats.totalSaturatedFat}
+            unit="g"
+            Icon={CookingPot}
+            colorClass="text-yellow-600"
+            target={goals.saturatedFat}
+            targetLabel={copy.limit}
+            progressLabel={copy.ofLimit}
+            isLimit
+          />
+        )}
+      </div>
+
+      <div className="mt-4 rounded-3xl bg-white p-6 shadow-[0_2px_20px_rgba(0,0,0,0.04)] border border-stone-100">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-stone-500 font-medium text-sm tracking-wide">{copy.hydration}</h3>
+            <div className="mt-2 flex items-baseline gap-1">
+              <span className="text-3xl font-bold text-stone-900 tracking-tight">{waterMl}</span>
+              <span className="text-sm text-stone-400 font-medium">
+                ml{goals.water != null && ` / ${goals.water} ml`}
+              </span>
+            </div>
+          </div>
+          <div className="p-2 rounded-full bg-cyan-500 bg-opacity-10">
+            <GlassWater size={18} className="text-cyan-500" />
+          </div>
+        </div>
+        {waterPercent != null && (
+          <>
+            <div className="mt-3 h-2 w-full overflow-hidden rounded-full bg-stone-100">
+              <div
+                className={`h-full rounded-full ${waterPercent >= 100 ? 'bg-emerald-500' : 'bg-cyan-500'}`}
+                style={{ width: `${Math.min(100, waterPercent)}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs font-semibold text-stone-500">{waterPercent}% {copy.ofGoal}</p>
+          </>
+        )}
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          {WATER_QUICK_ADD_ML.map((volumeMl) => (
+            <button
+              key={volumeMl}
+              type="button"
+              onClick={() => onAddWater(volumeMl)}
+              aria-label={`${copy.addWater} ${volumeMl} ml`}
+              className="rounded-lg border border-cyan-200 bg-cyan-50 px-3 py-2 text-xs font-semibold text-cyan-700 hover:bg-cyan-100"
+            >
+              +{volumeMl} ml
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={onUndoWater}
+            disabled={waterMl === 0}
+            aria-label={copy.undoWater}
+            title={copy.undoWater}
+            className="rounded-lg border border-stone-200 p-2 text-stone-500 hover:bg-stone-50 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            <Undo2 size={14} />
+          </button>
+        </div>
       </div>
+
+      {micronutrients.length > 0 && (
+        <div className="mt-4 rounded-3xl bg-white p-6 shadow-[0_2px_20px_rgba(0,0,0,0.04)] border border-stone-100">
+          <h3 className="text-stone-500 font-medium text-sm tracking-wide">{copy.micronutrients}</h3>
+          <div className="mt-3 grid grid-cols-1 gap-x-8 gap-y-3 md:grid-cols-2 lg:grid-cols-3">
+            {micronutrients.map(({ key, amount, target }) => {
+              const unit = MICRONUTRIENT_UNITS[key];
+              const progressPercent = target ? Math.round((amount / target) * 100) : null;
+              return (
+                <div key={key}>
+                  <div className="flex items-baseline justify-between gap-2 text-sm">
+                    <span className="text-stone-600">{MICRONUTRIENT_LABELS[key][language]}</span>
+                    <span className="font-semibold text-stone-800">
+                      {formatMicronutrientAmount({ amount, unit })}
+                      {target != null && (
+                        <span className="font-medium text-stone-400"> / {formatMicronutrientAmount({ amount: target, unit })}</span>
+                      )}
+                    </span>
+                  </div>
+                  {progressPercent != null && (
+                    <div
+                      className="mt-1 h-1.5 w-full overflow-hidden rounded-full bg-stone-100"
+                      title={`${progressPercent}% ${copy.ofGoal}`}
+                    >
+                      <div
+                        className={`h-full rounded-full ${progressPercent >= 100 ? 'bg-emerald-500' : 'bg-violet-500'}`}
+                        style={{ width: `${Math.min(100, progressPercent)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { CustomFood } from '../types';
+
+interface FoodLibraryProps {
+  foods: CustomFood[];
+  onSave: (food: CustomFood) => void;
+  onDelete: (id: string) => void;
+  language: 'en-US' | 'pt-BR';
+}
+
+type NumberField = 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber' | 'sodium' | 'addedSugar' | 'saturatedFat';
+
+const numberFields: Array<{ key: NumberField; unit: string; optional?: boolean }> = [
+  { key: 'calories', unit: 'kcal' },
+  { key: 'protein', unit: 'g' },
+  { key: 'carbs', unit: 'g' },
+  { key: 'fat', unit: 'g' },
+  { key: 'fiber', unit: 'g' },
+  { key: 'sodium', unit: 'mg', optional: true },
+  { key: 'addedSugar', unit: 'g', optional: true },
+  { key: 'saturatedFat', unit: 'g', optional: true },
+];
+
+interface Draft {
+  id: string | null;
+  name: string;
+  aliases: string;
+  serving: string;
+  values: Record<NumberField, string>;
+}
+
+const toDraft = (food?: CustomFood): Draft => ({
+  id: food?.id ?? null,
+  name: food?.name ?? '',
+  aliases: food?.aliases.join(', ') ?? '',
+  serving: food?.serving ?? '',
+  values: Object.fromEntries(
+    numberFields.map(({ key }) => [key, food?.[key] != null ? String(food[key]) : ''])
+  ) as Record<NumberField, string>,
+});
+
+const parseAmount = (text: string): number | null => {
+  const trimmed = text.trim().replace(',', '.');
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed * 10) / 10 : NaN;
+};
+
+const FoodLibrary: React.FC<FoodLibraryProps> = ({ foods, onSave, onDelete, language }) => {
+  const isPortuguese = language === 'pt-BR';
+  const copy = {
+    title: isPortuguese ? 'Minha Biblioteca' : 'My Food Library',
+    subtitle: isPortuguese
+      ? 'Alimentos que voce come sempre, com os seus valores. Quando voce fala o nome, eles sao usados no lugar da estimativa.'
+      : 'Foods you eat all the time, with your own values. When you say the name, they are used instead of an estimate.',
+    add: isPortuguese ? 'Adicionar alimento' : 'Add food',
+    empty: isPortuguese ? 'Nenhum alimento salvo ainda.' : 'No saved foods yet.',
+    name: isPortuguese ? 'Nome' : 'Name',
+    namePlaceholder: isPortuguese ? 'Ex.: Shake de proteina' : 'E.g. Protein shake',
+    aliases: isPortuguese ? 'Outros nomes (separados por virgula)' : 'Other names (comma-separated)',
+    aliasesPlaceholder: isPortuguese ? 'Ex.: shake, whey' : 'E.g. shake, whey',
+    serving: isPortuguese ? 'Porcao' : 'Serving',
+    servingPlaceholder: isPortuguese ? 'Ex.: 1 scoop (30 g)' : 'E.g. 1 scoop (30 g)',
+    perServing: isPortuguese ? 'por porcao' : 'per serving',
+    optional: isPortuguese ? 'Opcional' : 'Optional',
+    save: isPortuguese ? 'Salvar' : 'Save',
+    cancel: isPortuguese ? 'Cancelar' : 'Cancel',
+    edit: isPortuguese ? 'Editar' : 'Edit',
+    delete: isPortuguese ? 'Excluir' : 'Delete',
+    nameRequired: isPortuguese ? 'Informe um nome.' : 'Enter a name.',
+    caloriesRequired: isPortuguese ? 'Informe as calorias da porcao.' : 'Enter the calories per serving.',
+    invalidNumber: isPortuguese ? 'Use apenas numeros nao negativos.' : 'Use non-negative numbers only.',
+    fieldLabels: {
+      calories: isPortuguese ? 'Calorias' : 'Calories',
+      protein: isPortuguese ? 'Proteina' : 'Protein',
+      carbs: isPortuguese ? 'Carboidratos' : 'Carbs',
+      fat: isPortuguese ? 'Gordura' : 'Fat',
+      fiber: isPortuguese ? 'Fibra' : 'Fiber',
+      sodium: isPortuguese ? 'Sodio' : 'Sodium',
+      addedSugar: isPortuguese ? 'Acucar adicionado' : 'Added sugar',
+      saturatedFat: isPortuguese ? 'Gordura saturada' : 'Saturated fat',
+    } as Record<NumberField, string>,
+  };
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const openForm = (food?: CustomFood) => {
+    setDraft(toDraft(food));
+    setFormError(null);
+  };
+
+  const handleSubmit = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) {
+      setFormError(copy.nameRequired);
+      return;
+    }
+    const values = Object.fromEntries(
+      numberFields.map(({ key }) => [key, parseAmount(draft.values[key])])
+    ) as Record<NumberField, number | null>;
+    if (Object.values(values).some((value) => Number.isNaN(value))) {
+      setFormError(copy.invalidNumber);
+      return;
+    }
+    if (values.calories == null) {
+      setFormError(copy.caloriesRequired);
+      return;
+    }
+    onSave({
+      id: draft.id ?? crypto.randomUUID(),
+      name: name.slice(0, 120),
+      aliases: draft.aliases
+        .split(',')
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+      serving: draft.serving.trim() || '1 serving',
+      calories: Math.round(values.calories),
+      protein: values.protein ?? 0,
+      carbs: values.carbs ?? 0,
+      fat: values.fat ?? 0,
+      fiber: values.fiber ?? 0,
+      sodium: values.sodium ?? undefined,
+      addedSugar: values.addedSugar ?? undefined,
+      saturatedFat: values.saturatedFat ?? undefined,
+    });
+    setDraft(null);
+  };
+
+  const inputClass =
+    'h-11 w-full rounded-lg border border-stone-200 bg-white px-3 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300';
+
+  return (
+    <section className="rounded-3xl bg-white p-6 shadow-[0_2px_20px_rgba(0,0,0,0.04)] border border-stone-100">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-stone-900 tracking-tight">{copy.title}</h2>
+          <p className="mt-1 text-sm text-stone-500">{copy.subtitle}</p>
+        </div>
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => openForm()}
+            className="flex shrink-0 items-center gap-1.5 rounded-lg border border-stone-200 px-3 py-2 text-xs font-semibold text-stone-600 hover:bg-stone-50"
+          >
+            <Plus size={14} />
+            {copy.add}
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="mb-6 rounded-2xl border border-stone-200 p-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <label className="block">
+              <span className="mb-1 block text-xs font-semibold text-stone-600">{copy.name}</span>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={copy.namePlaceholder}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="mb-1 block text-xs font-semibold text-stone-600">{copy.serving}</span>
+              <input
+                value={draft.serving}
+                onChange={(e) => setDraft({ ...draft, serving: e.target.value })}
+                placeholder={copy.servingPlaceholder}
+                className={inputClass}
+              />
+            </label>
+            <label className="block md:col-span-2">
+              <span className="mb-1 block text-xs font-semibold text-stone-600">{copy.aliases}</span>
+              <input
+                value={draft.aliases}
+                onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+                placeholder={copy.aliasesPlaceholder}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <p className="mt-4 text-xs font-semibold uppercase tracking-wide text-stone-400">{copy.perServing}</p>
+          <div className="mt-2 grid grid-cols-2 gap-3 md:grid-cols-4">
+            {numberFields.map(({ key, unit, optional }) => (
+              <label key={key} className="block rounded-xl border border-stone-200 p-3">
+                <span className="block truncate text-xs font-semibold text-stone-600">{copy.fieldLabels[key]}</span>
+                <div className="mt-1 flex items-center gap-1.5">
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="any"
+                    value={draft.values[key]}
+                    onChange={(e) => setDraft({ ...draft, values: { ...draft.values, [key]: e.target.value } })}
+                    placeholder={optional ? copy.optional : undefined}
+                    className="h-9 w-full min-w-0 rounded-lg border border-stone-200 bg-white px-2 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+                  />
+                  <span className="w-8 shrink-0 text-xs font-medium text-stone-500">{unit}</span>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {formError && <p className="mt-3 text-sm font-medium text-red-600">{formError}</p>}
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="rounded-xl border border-stone-300 px-4 py-2 text-sm font-semibold text-stone-700 hover:bg-stone-50"
+            >
+              {copy.cancel}
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              className="rounded-xl bg-stone-900 px-4 py-2 text-sm font-semibold text-white hover:bg-stone-700"
+            >
+              {copy.save}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {foods.length === 0 ? (
+        !draft && <p className="text-sm text-stone-400">{copy.empty}</p>
+      ) : (
+        <ul className="divide-y divide-stone-100">
+          {foods.map((food) => (
+            <li key={food.id} className="flex items-start justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-semibold text-stone-800">{food.name}</p>
+                <p className="mt-0.5 text-xs text-stone-500">
+                  {food.serving} · {food.calories} kcal · P {food.protein} g · C {food.carbs} g · F {food.fat} g
+                </p>
+                {food.aliases.length > 0 && (
+                  <p className="mt-0.5 truncate text-xs text-stone-400">{food.aliases.join(', ')}</p>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <button
+                  type="button"
+                  onClick={() => openForm(food)}
+                  aria-label={`${copy.edit} ${food.name}`}
+                  className="rounded-lg p-2 text-stone-400 hover:bg-stone-50 hover:text-stone-700"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(food.id)}
+                  aria-label={`${copy.delete} ${food.name}`}
+                  className="rounded-lg p-2 text-stone-400 hover:bg-red-50 hover:text-red-600"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default FoodLibrary;
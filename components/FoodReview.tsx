@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { FoodItem } from '../types';
+import type { FoodPlacement } from '../services/processAudioService';
+import { resolveQuantity } from '../lib/units';
+
+/** One AI-detected food waiting for review, with the placement the model gave it (if any). */
+export interface ReviewFood {
+  key: string;
+  food: Omit<FoodItem, 'id' | 'timestamp' | 'mealId'>;
+  placement?: FoodPlacement;
+}
+
+interface FoodReviewProps {
+  foods: ReviewFood[];
+  transcript?: string;
+  onConfirm: (foods: ReviewFood[]) => void;
+  onDiscard: () => void;
+  language: 'en-US' | 'pt-BR';
+}
+
+type NumberField = 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber';
+
+interface DraftRow {
+  key: string;
+  name: string;
+  quantity: string;
+  numbers: Record<NumberField, string>;
+  source: ReviewFood | null;
+}
+
+const numberFields: Array<{ key: NumberField; unit: string }> = [
+  { key: 'calories', unit: 'kcal' },
+  { key: 'protein', unit: 'g' },
+  { key: 'carbs', unit: 'g' },
+  { key: 'fat', unit: 'g' },
+  { key: 'fiber', unit: 'g' },
+];
+
+const toRow = (entry: ReviewFood): DraftRow => ({
+  key: entry.key,
+  name: entry.food.name,
+  quantity: entry.food.quantity,
+  numbers: {
+    calories: String(entry.food.calories),
+    protein: String(entry.food.protein),
+    carbs: String(entry.food.carbs),
+    fat: String(entry.food.fat),
+    fiber: String(entry.food.fiber),
+  },
+  source: entry,
+});
+
+const emptyRow = (): DraftRow => ({
+  key: crypto.randomUUID(),
+  name: '',
+  quantity: '',
+  numbers: { calories: '', protein: '', carbs: '', fat: '', fiber: '' },
+  source: null,
+});
+
+const parseAmount = (value: string): number => {
+  const parsed = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed * 10) / 10 : 0;
+};
+
+/**
+ * Turns an edited row back into a food. The server's consistency flag, follow-up question and nutrient
+ * source only survive if the numbers were not touched: edited numbers are the user's own.
+ */
+const toReviewFood = (row: DraftRow): ReviewFood => {
+  const numbers = {
+    calories: parseAmount(row.numbers.calories),
+    protein: parseAmount(row.numbers.protein),
+    carbs: parseAmount(row.numbers.carbs),
+    fat: parseAmount(row.numbers.fat),
+    fiber: parseAmount(row.numbers.fiber),
+  };
+  const original = row.source?.food;
+  const name = row.name.trim();
+  const quantity = row.quantity.trim();
+  const unchanged = !!original && numberFields.every(({ key }) => original[key] === numbers[key]);
+  return {
+    key: row.key,
+    food: {
+      name,
+      quantity,
+      ...numbers,
+      sodium: original?.sodium,
+      addedSugar: original?.addedSugar,
+      saturatedFat: original?.saturatedFat,
+      micronutrients: original?.micronutrients,
+      consistencyScore: unchanged ? original.consistencyScore : undefined,
+      flagReason: unchanged ? original.flagReason : undefined,
+      confidence: original?.confidence,
+      portionGrams: original?.portionGrams,
+      assumptions: original?.assumptions,
+      clarification: unchanged ? original.clarification : undefined,
+      source: unchanged ? original.source : undefined,
+      sourceRef: unchanged ? original.sourceRef : undefined,
+      measure: original && original.quantity === quantity ? original.measure : resolveQuantity(quantity, name) ?? undefined,
+    },
+    placement: row.source?.placement,
+  };
+};
+
+const FoodReview: React.FC<FoodReviewProps> = ({ foods, transcript, onConfirm, onDiscard, language }) => {
+  const [rows, setRows] = useState<DraftRow[]>(() => foods.map(toRow));
+  const isPortuguese = language === 'pt-BR';
+  const copy = {
+    title: isPortuguese ? 'Revisar alimentos' : 'Review foods',
+    subtitle: isPortuguese
+      ? 'Ajuste o que a IA encontrou antes de salvar.'
+      : 'Adjust what the AI found before saving.',
+    name: isPortuguese ? 'Alimento' : 'Food',
+    quantity: isPortuguese ? 'Quantidade' : 'Quantity',
+    namePlaceholder: isPortuguese ? 'Ex.: Banana' : 'E.g. Banana',
+    quantityPlaceholder: isPortuguese ? 'Ex.: 1 media' : 'E.g. 1 medium',
+    fieldLabels: {
+      calories: isPortuguese ? 'Calorias' : 'Calories',
+      protein: isPortuguese ? 'Proteina' : 'Protein',
+      carbs: isPortuguese ? 'Carboidratos' : 'Carbs',
+      fat: isPortuguese ? 'Gordura' : 'Fat',
+      fiber: isPortuguese ? 'Fibra' : 'Fiber',
+    } as Record<NumberField, string>,
+    remove: isPortuguese ? 'Remover' : 'Remove',
+    addItem: isPortuguese ? 'Adicionar item' : 'Add item',
+    discard: isPortuguese ? 'Descartar' : 'Discard',
+    save: isPortuguese ? 'Salvar' : 'Save',
+    empty: isPortuguese ? 'Nenhum alimento para salvar.' : 'No foods to save.',
+  };
+
+  const updateRow = (key: string, patch: Partial<Omit<DraftRow, 'key' | 'source'>>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+  };
+
+  const updateNumber = (key: string, field: NumberField, value: string) => {
+    setRows((prev) =>
+      prev.map((row) => (row.key === key ? { ...row, numbers: { ...row.numbers, [field]: value } } : row))
+    );
+  };
+
+  // Rows without a name are dropped on save, so a blank added row is harmless.
+  const savable = rows.filter((row) => row.name.trim());
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+      <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-2xl border border-stone-200 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold text-stone-900">{copy.title}</h3>
+        <p className="mt-1 text-sm text-stone-500">{copy.subtitle}</p>
+        {transcript && <p className="mt-2 text-xs italic text-stone-400 line-clamp-2">"{transcript}"</p>}
+
+        <div className="mt-5 space-y-4">
+          {rows.map((row) => (
+            <div key={row.key} className="rounded-xl border border-stone-200 p-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={row.name}
+                  onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                  placeholder={copy.namePlaceholder}
+                  aria-label={copy.name}
+                  className="h-10 min-w-0 flex-1 rounded-lg border border-stone-200 px-3 text-sm font-semibold text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+                />
+                <button
+                  type="button"
+                  onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+                  aria-label={copy.remove}
+                  className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg border border-stone-200 text-stone-400 hover:bg-red-50 hover:text-red-500"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={row.quantity}
+                onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+                placeholder={copy.quantityPlaceholder}
+                aria-label={copy.quantity}
+                className="mt-2 h-10 w-full rounded-lg border border-stone-200 px-3 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+              />
+              <div className="mt-2 grid grid-cols-5 gap-1.5">
+                {numberFields.map(({ key, unit }) => (
+                  <label key={key} className="block">
+                    <span className="block truncate text-[10px] font-medium uppercase tracking-wide text-stone-500">
+                      {copy.fieldLabels[key]}
+                    </span>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      step="0.1"
+                      value={row.numbers[key]}
+                      onChange={(e) => updateNumber(row.key, key, e.target.value)}
+                      placeholder={unit}
+                      className="mt-0.5 h-9 w-full rounded-lg border border-stone-200 px-1.5 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          {rows.length === 0 && <p className="text-sm text-stone-400">{copy.empty}</p>}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => setRows((prev) => [...prev, emptyRow()])}
+          className="mt-4 flex w-full items-center justify-center gap-1.5 rounded-xl border border-dashed border-stone-300 px-3 py-2.5 text-sm font-semibold text-stone-600 hover:bg-stone-50"
+        >
+          <Plus size={16} />
+          {copy.addItem}
+        </button>
+
+        <div className="mt-6 flex gap-3">
+          <button
+            type="button"
+            onClick={onDiscard}
+            className="flex-1 rounded-xl border border-stone-300 px-4 py-2.5 text-sm font-semibold text-stone-700 hover:bg-stone-50"
+          >
+            {copy.discard}
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(savable.map(toReviewFood))}
+            disabled={savable.length === 0}
+            className="flex-1 rounded-xl bg-stone-900 px-4 py-2.5 text-sm font-semibold text-white hover:bg-stone-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {savable.length > 0 ? `${copy.save} (${savable.length})` : copy.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FoodReview;
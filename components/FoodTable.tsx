@@ -1,7 +1,9 @@
 import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence, PanInfo } from 'framer-motion';
-import { FoodItem, MealGroup } from '../types';
-import { Trash2, ChevronDown, ArrowRightLeft } from 'lucide-react';
+import { FoodItem, LIMIT_NUTRIENT_KEYS, LimitNutrientKey, MealGroup, QuantityUnit } from '../types';
+import { QUANTITY_UNITS, rescaleQuantity, resolveQuantity } from '../lib/units';
+import { MICRONUTRIENT_LABELS, formatMicronutrientAmount, listMicronutrients } from '../lib/micronutrients';
+import { Trash2, ChevronDown, ArrowRightLeft, AlertTriangle, HelpCircle } from 'lucide-react';
 
 interface FoodTableProps {
   items: FoodItem[];
@@ -9,13 +11,33 @@ interface FoodTableProps {
   onRemove: (id: string) => void;
   onMoveItem: (itemId: string, targetMealId: string) => void;
   onEditQuantity: (itemId: string, quantity: string) => void;
+  /** Saves macros the user typed over the estimate, for the given quantity. */
+  onEditNutrition: (itemId: string, quantity: string, nutrition: Pick<FoodItem, MacroKey>) => void;
+  /** Extra columns for nutrients the user set an upper limit for. */
+  limitColumns?: LimitNutrientKey[];
   language: 'en-US' | 'pt-BR';
 }
 
-const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveItem, onEditQuantity, language }) => {
+const LIMIT_UNITS: Record<LimitNutrientKey, string> = { sodium: 'mg', addedSugar: 'g', saturatedFat: 'g' };
+
+type MacroKey = 'calories' | 'protein' | 'carbs' | 'fat';
+const MACRO_KEYS: MacroKey[] = ['calories', 'protein', 'carbs', 'fat'];
+const EMPTY_MACRO_DRAFT: Record<MacroKey, string> = { calories: '', protein: '', carbs: '', fat: '' };
+
+const FoodTable: React.FC<FoodTableProps> = ({
+  items,
+  meals,
+  onRemove,
+  onMoveItem,
+  onEditQuantity,
+  onEditNutrition,
+  limitColumns = [],
+  language,
+}) => {
   const [editingItem, setEditingItem] = useState<FoodItem | null>(null);
   const [quantityNum, setQuantityNum] = useState('');
   const [quantityUnit, setQuantityUnit] = useState('');
+  const [macroDraft, setMacroDraft] = useState<Record<MacroKey, string>>(EMPTY_MACRO_DRAFT);
   const [swipingItemId, setSwipingItemId] = useState<string | null>(null);
   const [wasDragging, setWasDragging] = useState(false);
   const [collapsedMeals, setCollapsedMeals] = useState<Set<string>>(new Set());
@@ -45,6 +67,9 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
     fat: isPortuguese ? 'Gordura' : 'Fat',
     fiber: isPortuguese ? 'Fibra' : 'Fiber',
     calories: isPortuguese ? 'Calorias' : 'Calories',
+    macrosHint: isPortuguese
+      ? 'Toque em um valor para corrigi-lo. As correcoes melhoram as proximas estimativas.'
+      : 'Tap a value to correct it. Corrections improve future estimates.',
     removeItem: isPortuguese ? 'Remover item' : 'Remove item',
     delete: isPortuguese ? 'Deletar' : 'Delete',
     foodDetails: isPortuguese ? 'Detalhes do Alimento' : 'Food Details',
@@ -55,8 +80,78 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
     moveTo: isPortuguese ? 'Mover para' : 'Move to',
     tapToViewDetails: isPortuguese ? 'Toque para editar · Deslize para deletar' : 'Tap to edit · Swipe to delete',
     noMealsYet: isPortuguese ? 'Nenhuma refeicao ainda.' : 'No meals yet.',
+    flagged: isPortuguese ? 'Confira esta estimativa' : 'Double-check this estimate',
+    consistency: isPortuguese ? 'Consistencia' : 'Consistency',
+    confidence: isPortuguese ? 'Confianca' : 'Confidence',
+    assumed: isPortuguese ? 'Supondo' : 'Assumed',
+    openQuestion: isPortuguese ? 'Pergunta pendente' : 'Open question',
+    source: isPortuguese ? 'Fonte' : 'Source',
+    aiEstimate: isPortuguese ? 'Estimativa da IA' : 'AI estimate',
+    myLibrary: isPortuguese ? 'Minha biblioteca' : 'My library',
+    recipe: isPortuguese ? 'Receita' : 'Recipe',
+    unit: isPortuguese ? 'Unidade' : 'Unit',
+    micronutrients: isPortuguese ? 'Micronutrientes' : 'Micronutrients',
+    limitLabels: {
+      sodium: isPortuguese ? 'Sodio' : 'Sodium',
+      addedSugar: isPortuguese ? 'Acucar adicionado' : 'Added sugar',
+      saturatedFat: isPortuguese ? 'Gordura saturada' : 'Saturated fat',
+    } as Record<LimitNutrientKey, string>,
+    limitShort: {
+      sodium: isPortuguese ? 'Sodio' : 'Sod',
+      addedSugar: isPortuguese ? 'Acucar' : 'Sugar',
+      saturatedFat: isPortuguese ? 'Gord sat' : 'Sat fat',
+    } as Record<LimitNutrientKey, string>,
+    /** Written back into the quantity text, so each label must parse to its unit (see lib/units). */
+    unitLabels: {
+      g: 'g',
+      kg: 'kg',
+      oz: 'oz',
+      lb: 'lb',
+      ml: 'ml',
+      l: 'l',
+      tsp: isPortuguese ? 'colher de cha' : 'tsp',
+      tbsp: isPortuguese ? 'colher de sopa' : 'tbsp',
+      cup: isPortuguese ? 'xicara' : 'cup',
+      fl_oz: 'fl oz',
+      glass: isPortuguese ? 'copo' : 'glass',
+      piece: isPortuguese ? 'unidade' : 'piece',
+      slice: isPortuguese ? 'fatia' : 'slice',
+      serving: isPortuguese ? 'porcao' : 'serving',
+      bowl: isPortuguese ? 'tigela' : 'bowl',
+      plate: isPortuguese ? 'prato' : 'plate',
+    } as Record<QuantityUnit, string>,
+    mealTypes: {
+      breakfast: isPortuguese ? 'Cafe da manha' : 'Breakfast',
+      lunch: isPortuguese ? 'Almoco' : 'Lunch',
+      dinner: isPortuguese ? 'Jantar' : 'Dinner',
+      snack: isPortuguese ? 'Lanche' : 'Snack',
+    },
   };
-  const isSaveDisabled = quantityNum.trim().length === 0 || Number(quantityNum.replace(',', '.')) <= 0;
+  /** "Breakfast" when the user named the meal, otherwise its position ("Meal 2"). */
+  const mealName = (meal: MealGroup, index: number): string =>
+    meal.mealType ? copy.mealTypes[meal.mealType] : `${copy.meal} ${index + 1}`;
+  const editedMacros = Object.fromEntries(
+    MACRO_KEYS.map((key) => [key, macroDraft[key].trim() ? Number(macroDraft[key].replace(',', '.')) : NaN])
+  ) as Record<MacroKey, number>;
+  const areMacrosInvalid = MACRO_KEYS.some((key) => !Number.isFinite(editedMacros[key]) || editedMacros[key] < 0);
+  const areMacrosEdited = !!editingItem && MACRO_KEYS.some((key) => editedMacros[key] !== editingItem[key]);
+  const isSaveDisabled =
+    quantityNum.trim().length === 0 || Number(quantityNum.replace(',', '.')) <= 0 || areMacrosInvalid;
+  const editedQuantity = quantityUnit ? `${quantityNum.trim()} ${quantityUnit}` : quantityNum.trim();
+  // The original unit text ("medium") stays selectable next to the standard units.
+  const unitOptions = Object.values(copy.unitLabels).includes(quantityUnit) || !quantityUnit
+    ? QUANTITY_UNITS.map((unit) => copy.unitLabels[unit])
+    : [quantityUnit, ...QUANTITY_UNITS.map((unit) => copy.unitLabels[unit])];
+
+  /** Grams the edited quantity comes to, computed the same way the save rescales the nutrients. */
+  const editedGrams = useMemo(() => {
+    if (!editingItem || isSaveDisabled) return null;
+    const previous = editingItem.measure ?? resolveQuantity(editingItem.quantity, editingItem.name, editingItem.portionGrams);
+    const grams = previous
+      ? rescaleQuantity(previous, editedQuantity, editingItem.name)?.quantity.grams
+      : resolveQuantity(editedQuantity, editingItem.name)?.grams;
+    return grams ? Math.round(grams) : null;
+  }, [editingItem, editedQuantity, isSaveDisabled]);
 
   const openEditModal = (item: FoodItem) => {
     setEditingItem(item);
@@ -68,18 +163,34 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
       setQuantityNum(item.quantity);
       setQuantityUnit('');
     }
+    setMacroDraft({
+      calories: String(item.calories),
+      protein: String(item.protein),
+      carbs: String(item.carbs),
+      fat: String(item.fat),
+    });
   };
 
   const closeEditModal = () => {
     setEditingItem(null);
     setQuantityNum('');
     setQuantityUnit('');
+    setMacroDraft(EMPTY_MACRO_DRAFT);
   };
 
-  const saveEditedQuantity = () => {
+  /** Typed macros are saved as they are; a quantity-only edit rescales the nutrients. */
+  const saveEdits = () => {
     if (!editingItem || isSaveDisabled) return;
-    const combined = quantityUnit ? `${quantityNum.trim()} ${quantityUnit}` : quantityNum.trim();
-    onEditQuantity(editingItem.id, combined);
+    if (areMacrosEdited) {
+      onEditNutrition(editingItem.id, editedQuantity, {
+        calories: Math.round(editedMacros.calories),
+        protein: Math.round(editedMacros.protein * 10) / 10,
+        carbs: Math.round(editedMacros.carbs * 10) / 10,
+        fat: Math.round(editedMacros.fat * 10) / 10,
+      });
+    } else {
+      onEditQuantity(editingItem.id, editedQuantity);
+    }
     closeEditModal();
   };
 
@@ -156,7 +267,7 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
             hour: '2-digit',
             minute: '2-digit',
           });
-          const mealLabel = `${copy.meal} ${mealIndex + 1} - ${mealTime}`;
+          const mealLabel = `${mealName(meal, mealIndex)} - ${mealTime}`;
 
           const isCollapsed = collapsedMeals.has(meal.id);
 
@@ -210,12 +321,15 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
                       <th className="p-4 font-semibold text-right">{copy.qty}</th>
                       <th className="p-4 font-semibold text-right text-orange-600">Kcal</th>
                       <th className="p-4 font-semibold text-right text-red-600">Prot</th>
+                      {limitColumns.map((key) => (
+                        <th key={key} className="p-4 font-semibold text-right text-rose-700">{copy.limitShort[key]}</th>
+                      ))}
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-stone-100 text-sm">
                     {meal.isLoading && mealItems.length === 0 && (
                       <tr>
-                        <td colSpan={4} className="px-5 py-6 text-center">
+                        <td colSpan={4 + limitColumns.length} className="px-5 py-6 text-center">
                           <div className="flex items-center justify-center gap-2 text-stone-400 text-sm">
                             <div className="h-4 w-4 rounded-full border-2 border-stone-300 border-t-stone-600 animate-spin" />
                             {isPortuguese ? 'Analisando...' : 'Analyzing...'}
@@ -267,23 +381,42 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
                         }}
                         className="cursor-pointer hover:bg-stone-50 transition-colors relative"
                         style={{
-                          backgroundColor: isSwipingThis ? '#fee2e2' : 'white',
+                          backgroundColor: isSwipingThis ? '#fee2e2' : item.flagReason ? '#fffbeb' : 'white',
                           backgroundImage: isSwipingThis
                             ? 'linear-gradient(to left, #ef4444 0%, transparent 200px)'
                             : undefined,
                         }}
                       >
                         <td className="p-4">
-                          <div className="font-semibold text-stone-900 text-base">{item.name}</div>
-                          {item.micronutrients && (
+                          <div className="font-semibold text-stone-900 text-base flex items-center gap-1.5">
+                            {item.name}
+                            {item.flagReason && (
+                              <span title={item.flagReason} aria-label={copy.flagged} className="shrink-0">
+                                <AlertTriangle size={14} className="text-amber-500" />
+                              </span>
+                            )}
+                            {item.clarification && (
+                              <span title={item.clarification.question} aria-label={copy.openQuestion} className="shrink-0">
+                                <HelpCircle size={14} className="text-sky-500" />
+                              </span>
+                            )}
+                          </div>
+                          {listMicronutrients(item.micronutrients).length > 0 && (
                             <div className="text-xs text-stone-400 font-normal mt-1 truncate">
-                              {item.micronutrients}
+                              {listMicronutrients(item.micronutrients)
+                                .map((entry) => `${MICRONUTRIENT_LABELS[entry.key][language]} ${formatMicronutrientAmount(entry)}`)
+                                .join(' · ')}
                             </div>
                           )}
                         </td>
                         <td className="p-4 text-right text-stone-500 font-medium">{item.quantity}</td>
                         <td className="p-4 text-right font-bold text-stone-800">{Math.round(item.calories)}</td>
                         <td className="p-4 text-right text-stone-600 font-semibold">{+item.protein.toFixed(1)}g</td>
+                        {limitColumns.map((key) => (
+                          <td key={key} className="p-4 text-right text-stone-500 font-medium">
+                            {item[key] != null ? `${+item[key].toFixed(1)}${LIMIT_UNITS[key]}` : '—'}
+                          </td>
+                        ))}
                       </motion.tr>
                       );
                     })}
@@ -313,6 +446,40 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
           >
             <h3 className="text-xl font-bold text-stone-900">{copy.foodDetails}</h3>
             <p className="mt-2 text-base font-semibold text-stone-700">{editingItem.name}</p>
+            {(editingItem.assumptions || editingItem.confidence != null) && (
+              <p className="mt-1 text-xs text-stone-500">
+                {editingItem.assumptions && `${copy.assumed}: ${editingItem.assumptions}`}
+                {editingItem.assumptions && editingItem.confidence != null && ' · '}
+                {editingItem.confidence != null && `${copy.confidence}: ${Math.round(editingItem.confidence * 100)}%`}
+              </p>
+            )}
+            {editingItem.source && (
+              <p className="mt-1 text-xs text-stone-500">
+                {copy.source}:{' '}
+                {editingItem.source === 'database'
+                  ? editingItem.sourceRef
+                  : editingItem.source === 'library'
+                    ? `${copy.myLibrary} (${editingItem.sourceRef})`
+                    : editingItem.source === 'recipe'
+                      ? `${copy.recipe} (${editingItem.sourceRef})`
+                      : copy.aiEstimate}
+              </p>
+            )}
+
+            {editingItem.flagReason && (
+              <div className="mt-4 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 flex gap-2">
+                <AlertTriangle size={16} className="mt-0.5 shrink-0 text-amber-500" />
+                <div>
+                  <div className="font-semibold">{copy.flagged}</div>
+                  <div className="text-xs mt-0.5">{editingItem.flagReason}</div>
+                  {editingItem.consistencyScore != null && (
+                    <div className="text-xs mt-0.5 text-amber-700">
+                      {copy.consistency}: {Math.round(editingItem.consistencyScore * 100)}%
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
 
             {/* Quantity Editor */}
             <div className="mt-5">
@@ -327,10 +494,21 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
                   onChange={(e) => setQuantityNum(e.target.value)}
                   className="w-24 rounded-xl border border-stone-300 px-3 py-2.5 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
                 />
-                {quantityUnit && (
-                  <span className="text-sm text-stone-600 font-medium">{quantityUnit}</span>
-                )}
+                <select
+                  value={quantityUnit}
+                  onChange={(e) => setQuantityUnit(e.target.value)}
+                  aria-label={copy.unit}
+                  className="min-w-0 flex-1 rounded-xl border border-stone-300 bg-white px-3 py-2.5 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+                >
+                  {!quantityUnit && <option value="">—</option>}
+                  {unitOptions.map((label) => (
+                    <option key={label} value={label}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
               </div>
+              {editedGrams != null && <p className="mt-1.5 text-xs text-stone-500">≈ {editedGrams} g</p>}
             </div>
 
             {/* Move to Meal */}
@@ -355,7 +533,7 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
                           }}
                           className="rounded-xl border border-stone-200 px-3 py-2 text-xs font-semibold text-stone-700 hover:bg-stone-100 transition-colors"
                         >
-                          {`${copy.meal} ${globalIdx + 1} · ${meal.createdAt.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })}`}
+                          {`${mealName(meal, globalIdx)} · ${meal.createdAt.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })}`}
                         </button>
                       );
                     })}
@@ -364,28 +542,65 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
             )}
 
             {/* Macros Grid */}
-            <div className="mt-6 grid grid-cols-2 gap-3">
+            <p className="mt-6 text-xs text-stone-500">{copy.macrosHint}</p>
+            <div className="mt-2 grid grid-cols-2 gap-3">
               <div className="rounded-xl border border-orange-200 bg-orange-50 p-4">
                 <div className="text-xs font-medium text-orange-700 uppercase tracking-wide">{copy.calories}</div>
-                <div className="mt-1 text-2xl font-bold text-orange-900">{editingItem.calories}</div>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={macroDraft.calories}
+                  onChange={(e) => setMacroDraft((prev) => ({ ...prev, calories: e.target.value }))}
+                  aria-label={copy.calories}
+                  className="mt-1 w-full bg-transparent text-2xl font-bold text-orange-900 focus:outline-none"
+                />
                 <div className="text-xs text-orange-600 mt-0.5">kcal</div>
               </div>
 
               <div className="rounded-xl border border-red-200 bg-red-50 p-4">
                 <div className="text-xs font-medium text-red-700 uppercase tracking-wide">{copy.protein}</div>
-                <div className="mt-1 text-2xl font-bold text-red-900">{editingItem.protein}</div>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={macroDraft.protein}
+                  onChange={(e) => setMacroDraft((prev) => ({ ...prev, protein: e.target.value }))}
+                  aria-label={copy.protein}
+                  className="mt-1 w-full bg-transparent text-2xl font-bold text-red-900 focus:outline-none"
+                />
                 <div className="text-xs text-red-600 mt-0.5">g</div>
               </div>
 
               <div className="rounded-xl border border-amber-200 bg-amber-50 p-4">
                 <div className="text-xs font-medium text-amber-700 uppercase tracking-wide">{copy.carbs}</div>
-                <div className="mt-1 text-2xl font-bold text-amber-900">{editingItem.carbs}</div>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={macroDraft.carbs}
+                  onChange={(e) => setMacroDraft((prev) => ({ ...prev, carbs: e.target.value }))}
+                  aria-label={copy.carbs}
+                  className="mt-1 w-full bg-transparent text-2xl font-bold text-amber-900 focus:outline-none"
+                />
                 <div className="text-xs text-amber-600 mt-0.5">g</div>
               </div>
 
               <div className="rounded-xl border border-sky-200 bg-sky-50 p-4">
                 <div className="text-xs font-medium text-sky-700 uppercase tracking-wide">{copy.fat}</div>
-                <div className="mt-1 text-2xl font-bold text-sky-900">{editingItem.fat}</div>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={macroDraft.fat}
+                  onChange={(e) => setMacroDraft((prev) => ({ ...prev, fat: e.target.value }))}
+                  aria-label={copy.fat}
+                  className="mt-1 w-full bg-transparent text-2xl font-bold text-sky-900 focus:outline-none"
+                />
                 <div className="text-xs text-sky-600 mt-0.5">g</div>
               </div>
 
@@ -398,11 +613,33 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
               )}
             </div>
 
+            {/* Sodium, added sugar, saturated fat */}
+            {LIMIT_NUTRIENT_KEYS.some((key) => editingItem[key] != null) && (
+              <div className="mt-3 grid grid-cols-3 gap-3">
+                {LIMIT_NUTRIENT_KEYS.map((key) => (
+                  <div key={key} className="rounded-xl border border-rose-200 bg-rose-50 p-3">
+                    <div className="text-[10px] font-medium text-rose-700 uppercase tracking-wide">{copy.limitLabels[key]}</div>
+                    <div className="mt-1 text-lg font-bold text-rose-900">
+                      {editingItem[key] != null ? +editingItem[key].toFixed(1) : '—'}
+                    </div>
+                    <div className="text-xs text-rose-600">{LIMIT_UNITS[key]}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Micronutrients */}
-            {editingItem.micronutrients && (
+            {listMicronutrients(editingItem.micronutrients).length > 0 && (
               <div className="mt-5 rounded-xl border border-stone-200 bg-stone-50 p-4">
-                <div className="text-xs font-medium text-stone-700 uppercase tracking-wide mb-2">Micronutrients</div>
-                <div className="text-sm text-stone-600">{editingItem.micronutrients}</div>
+                <div className="text-xs font-medium text-stone-700 uppercase tracking-wide mb-2">{copy.micronutrients}</div>
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  {listMicronutrients(editingItem.micronutrients).map((entry) => (
+                    <div key={entry.key} className="flex justify-between gap-2">
+                      <dt className="text-stone-500">{MICRONUTRIENT_LABELS[entry.key][language]}</dt>
+                      <dd className="font-medium text-stone-700">{formatMicronutrientAmount(entry)}</dd>
+                    </div>
+                  ))}
+                </dl>
               </div>
             )}
 
@@ -426,7 +663,7 @@ const FoodTable: React.FC<FoodTableProps> = ({ items, meals, onRemove, onMoveIte
                 </button>
                 <button
                   type="button"
-                  onClick={saveEditedQuantity}
+                  onClick={saveEdits}
                   disabled={isSaveDisabled}
                   className="rounded-xl bg-stone-900 px-4 py-2.5 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed hover:bg-stone-800 transition-colors"
                 >
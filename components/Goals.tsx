@@ -1,5 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { NutritionGoals } from '../types';
+import {
+  DriSex,
+  LIMIT_NUTRIENT_KEYS,
+  LimitNutrientKey,
+  MicronutrientGoals,
+  MicronutrientKey,
+  NutritionGoals,
+} from '../types';
+import { DRI_MAX_AGE, DRI_MIN_AGE, getDriTargets, normalizeDriProfile } from '../lib/dri';
+import { MICRONUTRIENT_KEYS, MICRONUTRIENT_LABELS, MICRONUTRIENT_UNITS } from '../lib/micronutrients';
 
 interface GoalsProps {
   goals: NutritionGoals;
@@ -7,7 +16,7 @@ interface GoalsProps {
   language: 'en-US' | 'pt-BR';
 }
 
-type GoalKey = keyof NutritionGoals;
+type GoalKey = 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber' | 'water';
 
 const goalFields: Array<{ key: GoalKey; unit: string }> = [
   { key: 'calories', unit: 'kcal' },
@@ -15,8 +24,26 @@ const goalFields: Array<{ key: GoalKey; unit: string }> = [
   { key: 'carbs', unit: 'g' },
   { key: 'fat', unit: 'g' },
   { key: 'fiber', unit: 'g' },
+  { key: 'water', unit: 'ml' },
 ];
 
+/** Upper limits and the default each fills in (US Dietary Guidelines: 2300 mg sodium, 10% of 2000 kcal each for added sugar and saturated fat). */
+const limitFields: Array<{ key: LimitNutrientKey; unit: string; recommended: number }> = [
+  { key: 'sodium', unit: 'mg', recommended: 2300 },
+  { key: 'addedSugar', unit: 'g', recommended: 50 },
+  { key: 'saturatedFat', unit: 'g', recommended: 20 },
+];
+
+const toLimitDraft = (goals: NutritionGoals): Record<LimitNutrientKey, string> =>
+  Object.fromEntries(
+    LIMIT_NUTRIENT_KEYS.map((key) => [key, goals[key] != null ? String(goals[key]) : ''])
+  ) as Record<LimitNutrientKey, string>;
+
+const toMicroDraft = (targets: MicronutrientGoals | undefined): Record<MicronutrientKey, string> =>
+  Object.fromEntries(
+    MICRONUTRIENT_KEYS.map((key) => [key, targets?.[key] != null ? String(targets[key]) : ''])
+  ) as Record<MicronutrientKey, string>;
+
 const Goals: React.FC<GoalsProps> = ({ goals, onGoalsChange, language }) => {
   const isPortuguese = language === 'pt-BR';
   const copy = {
@@ -35,10 +62,37 @@ const Goals: React.FC<GoalsProps> = ({ goals, onGoalsChange, language }) => {
       carbs: isPortuguese ? 'Carboidratos' : 'Carbs',
       fat: isPortuguese ? 'Gordura' : 'Fat',
       fiber: isPortuguese ? 'Fibra' : 'Fiber',
+      water: isPortuguese ? 'Agua' : 'Water',
     } as Record<GoalKey, string>,
+    micronutrientsTitle: isPortuguese ? 'Micronutrientes' : 'Micronutrients',
+    micronutrientsHint: isPortuguese
+      ? 'Preencha com as recomendacoes diarias (DRI) para sua idade e sexo, depois ajuste se quiser.'
+      : 'Fill in the daily recommendations (DRI) for your age and sex, then adjust them if you like.',
+    sex: isPortuguese ? 'Sexo' : 'Sex',
+    sexOptions: {
+      female: isPortuguese ? 'Feminino' : 'Female',
+      male: isPortuguese ? 'Masculino' : 'Male',
+    } as Record<DriSex, string>,
+    age: isPortuguese ? 'Idade' : 'Age',
+    useRecommended: isPortuguese ? 'Usar recomendados' : 'Use recommended',
+    limitsTitle: isPortuguese ? 'Limites diarios' : 'Daily limits',
+    limitsHint: isPortuguese
+      ? 'Maximos para sodio, acucar adicionado e gordura saturada. Os cartoes do painel aparecem quando definidos.'
+      : 'Maximums for sodium, added sugar and saturated fat. Their dashboard cards appear once set.',
+    useRecommendedLimits: isPortuguese ? 'Usar limites recomendados' : 'Use recommended limits',
+    limitLabels: {
+      sodium: isPortuguese ? 'Sodio' : 'Sodium',
+      addedSugar: isPortuguese ? 'Acucar adicionado' : 'Added sugar',
+      saturatedFat: isPortuguese ? 'Gordura saturada' : 'Saturated fat',
+    } as Record<LimitNutrientKey, string>,
   };
 
   const [saved, setSaved] = useState(false);
+  const [sex, setSex] = useState<DriSex | ''>(goals.driProfile?.sex ?? '');
+  const [age, setAge] = useState(goals.driProfile ? String(goals.driProfile.age) : '');
+  const [microDraft, setMicroDraft] = useState<Record<MicronutrientKey, string>>(() => toMicroDraft(goals.micronutrients));
+  const [limitDraft, setLimitDraft] = useState<Record<LimitNutrientKey, string>>(() => toLimitDraft(goals));
+  const profile = normalizeDriProfile(sex, Number(age));
 
   const [draft, setDraft] = useState<Record<GoalKey, string>>(() => ({
     calories: goals.calories != null ? String(goals.calories) : '',
@@ -46,6 +100,7 @@ const Goals: React.FC<GoalsProps> = ({ goals, onGoalsChange, language }) => {
     carbs: goals.carbs != null ? String(goals.carbs) : '',
     fat: goals.fat != null ? String(goals.fat) : '',
     fiber: goals.fiber != null ? String(goals.fiber) : '',
+    water: goals.water != null ? String(goals.water) : '',
   }));
 
   // Sync draft when goals are reset externally (e.g. clear all)
@@ -56,7 +111,12 @@ const Goals: React.FC<GoalsProps> = ({ goals, onGoalsChange, language }) => {
       carbs: goals.carbs != null ? String(goals.carbs) : '',
       fat: goals.fat != null ? String(goals.fat) : '',
       fiber: goals.fiber != null ? String(goals.fiber) : '',
+      water: goals.water != null ? String(goals.water) : '',
     });
+    setLimitDraft(toLimitDraft(goals));
+    setMicroDraft(toMicroDraft(goals.micronutrients));
+    setSex(goals.driProfile?.sex ?? '');
+    setAge(goals.driProfile ? String(goals.driProfile.age) : '');
   }, [goals]);
 
   const handleDraftChange = (key: GoalKey, value: string) => {
@@ -68,10 +128,23 @@ const Goals: React.FC<GoalsProps> = ({ goals, onGoalsChange, language }) => {
   };
 
   const handleClearAll = () => {
-    setDraft({ calories: '', protein: '', carbs: '', fat: '', fiber: '' });
+    setDraft({ calories: '', protein: '', carbs: '', fat: '', fiber: '', water: '' });
+    setLimitDraft(toLimitDraft({}));
+    setMicroDraft(toMicroDraft(undefined));
     onGoalsChange({});
   };
 
+  const applyRecommended = () => {
+    if (!profile) return;
+    setMicroDraft(toMicroDraft(getDriTargets(profile)));
+  };
+
+  const applyRecommendedLimits = () => {
+    setLimitDraft(
+      Object.fromEntries(limitFields.map(({ key, recommended }) => [key, String(recommended)])) as Record<LimitNutrientKey, string>
+    );
+  };
+
   const handleSubmit = () => {
     const next: NutritionGoals = {};
     for (const { key } of goalFields) {
@@ -82,6 +155,21 @@ const Goals: React.FC<GoalsProps> = ({ goals, onGoalsChange, language }) => {
         next[key] = Math.round(parsed * 10) / 10;
       }
     }
+    for (const { key } of limitFields) {
+      const parsed = Number(limitDraft[key].trim().replace(',', '.'));
+      if (limitDraft[key].trim() && Number.isFinite(parsed) && parsed > 0) {
+        next[key] = Math.round(parsed * 10) / 10;
+      }
+    }
+    const micronutrients: MicronutrientGoals = {};
+    for (const key of MICRONUTRIENT_KEYS) {
+      const parsed = Number(microDraft[key].trim().replace(',', '.'));
+      if (microDraft[key].trim() && Number.isFinite(parsed) && parsed > 0) {
+        micronutrients[key] = Math.round(parsed * 100) / 100;
+      }
+    }
+    if (Object.keys(micronutrients).length > 0) next.micronutrients = micronutrients;
+    if (profile) next.driProfile = profile;
     onGoalsChange(next);
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
@@ -134,6 +222,104 @@ const Goals: React.FC<GoalsProps> = ({ goals, onGoalsChange, language }) => {
         ))}
       </div>
 
+      <div className="mt-8 border-t border-stone-100 pt-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-bold text-stone-900 tracking-tight">{copy.limitsTitle}</h3>
+            <p className="mt-1 text-sm text-stone-500">{copy.limitsHint}</p>
+          </div>
+          <button
+            type="button"
+            onClick={applyRecommendedLimits}
+            className="h-11 rounded-lg border border-stone-300 px-4 text-sm font-semibold text-stone-700 hover:bg-stone-50"
+          >
+            {copy.useRecommendedLimits}
+          </button>
+        </div>
+        <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-3">
+          {limitFields.map(({ key, unit }) => (
+            <label key={key} className="block rounded-xl border border-stone-200 p-3">
+              <span className="block truncate text-xs font-semibold text-stone-600">{copy.limitLabels[key]}</span>
+              <div className="mt-1 flex items-center gap-1.5">
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={limitDraft[key]}
+                  onChange={(e) => setLimitDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                  placeholder={copy.placeholder}
+                  className="h-9 w-full min-w-0 rounded-lg border border-stone-200 bg-white px-2 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+                />
+                <span className="w-8 shrink-0 text-xs font-medium text-stone-500">{unit}</span>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-8 border-t border-stone-100 pt-6">
+        <h3 className="text-lg font-bold text-stone-900 tracking-tight">{copy.micronutrientsTitle}</h3>
+        <p className="mt-1 text-sm text-stone-500">{copy.micronutrientsHint}</p>
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="block">
+            <span className="mb-1 block text-xs font-semibold text-stone-600">{copy.sex}</span>
+            <select
+              value={sex}
+              onChange={(e) => setSex(e.target.value as DriSex | '')}
+              className="h-11 rounded-lg border border-stone-200 bg-white px-3 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+            >
+              <option value="">—</option>
+              <option value="female">{copy.sexOptions.female}</option>
+              <option value="male">{copy.sexOptions.male}</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="mb-1 block text-xs font-semibold text-stone-600">{copy.age}</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={DRI_MIN_AGE}
+              max={DRI_MAX_AGE}
+              value={age}
+              onChange={(e) => setAge(e.target.value)}
+              className="h-11 w-24 rounded-lg border border-stone-200 bg-white px-3 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={applyRecommended}
+            disabled={!profile}
+            className="h-11 rounded-lg border border-stone-300 px-4 text-sm font-semibold text-stone-700 hover:bg-stone-50 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {copy.useRecommended}
+          </button>
+        </div>
+
+        <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-3">
+          {MICRONUTRIENT_KEYS.map((key) => (
+            <label key={key} className="block rounded-xl border border-stone-200 p-3">
+              <span className="block truncate text-xs font-semibold text-stone-600">
+                {MICRONUTRIENT_LABELS[key][language]}
+              </span>
+              <div className="mt-1 flex items-center gap-1.5">
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={microDraft[key]}
+                  onChange={(e) => setMicroDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                  placeholder={copy.placeholder}
+                  className="h-9 w-full min-w-0 rounded-lg border border-stone-200 bg-white px-2 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+                />
+                <span className="w-8 shrink-0 text-xs font-medium text-stone-500">{MICRONUTRIENT_UNITS[key]}</span>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
       <button
         type="button"
         onClick={handleSubmit}
@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react';
+import { RotateCcw, Star, X } from 'lucide-react';
+import { FoodItem, MealGroup, MealType } from '../types';
+
+interface MealPickerProps {
+  meals: MealGroup[];
+  items: FoodItem[];
+  /** Logs a copy of the meal now (new meal and item ids), without the model. */
+  onRelog: (mealId: string) => void;
+  onToggleFavorite: (mealId: string) => void;
+  onClose: () => void;
+  language: 'en-US' | 'pt-BR';
+}
+
+/** How far back "recent" reaches, and how many recent meals are listed. */
+const RECENT_DAYS = 14;
+const MAX_RECENT = 12;
+
+interface PickerEntry {
+  meal: MealGroup;
+  foods: FoodItem[];
+  calories: number;
+}
+
+/** Same foods in any order; used to list a breakfast eaten every day once. */
+const foodsKey = (foods: FoodItem[]): string =>
+  foods
+    .map((food) => `${food.name.trim().toLowerCase()}|${food.quantity.trim().toLowerCase()}`)
+    .sort()
+    .join('\n');
+
+const MealPicker: React.FC<MealPickerProps> = ({ meals, items, onRelog, onToggleFavorite, onClose, language }) => {
+  const isPortuguese = language === 'pt-BR';
+  const copy = {
+    title: isPortuguese ? 'Recentes e favoritas' : 'Recent & favorites',
+    favorites: isPortuguese ? 'Favoritas' : 'Favorites',
+    recent: isPortuguese ? 'Recentes' : 'Recent',
+    empty: isPortuguese ? 'Nenhuma refeicao registrada ainda.' : 'No meals logged yet.',
+    logAgain: isPortuguese ? 'Registrar de novo' : 'Log again',
+    star: isPortuguese ? 'Favoritar' : 'Add to favorites',
+    unstar: isPortuguese ? 'Remover dos favoritos' : 'Remove from favorites',
+    close: isPortuguese ? 'Fechar' : 'Close',
+    mealTypes: {
+      breakfast: isPortuguese ? 'Cafe da manha' : 'Breakfast',
+      lunch: isPortuguese ? 'Almoco' : 'Lunch',
+      dinner: isPortuguese ? 'Jantar' : 'Dinner',
+      snack: isPortuguese ? 'Lanche' : 'Snack',
+    } as Record<MealType, string>,
+  };
+
+  // Favorites first (any age), then recent meals with different foods, newest first.
+  const { favorites, recent } = useMemo(() => {
+    const foodsByMeal = new Map<string, FoodItem[]>();
+    for (const item of items) {
+      foodsByMeal.set(item.mealId, [...(foodsByMeal.get(item.mealId) ?? []), item]);
+    }
+    const entries: PickerEntry[] = [...meals]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .flatMap((meal) => {
+        const foods = foodsByMeal.get(meal.id);
+        if (!foods || meal.isLoading) return [];
+        return [{ meal, foods, calories: foods.reduce((total, food) => total + food.calories, 0) }];
+      });
+    const favoriteEntries = entries.filter((entry) => entry.meal.isFavorite);
+    const seen = new Set(favoriteEntries.map((entry) => foodsKey(entry.foods)));
+    const since = Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+    const recentEntries = entries.filter((entry) => {
+      if (entry.meal.isFavorite || entry.meal.createdAt.getTime() < since) return false;
+      const key = foodsKey(entry.foods);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    return { favorites: favoriteEntries, recent: recentEntries.slice(0, MAX_RECENT) };
+  }, [items, meals]);
+
+  const renderEntry = ({ meal, foods, calories }: PickerEntry) => (
+    <li key={meal.id} className="flex items-start gap-3 py-3">
+      <button
+        type="button"
+        onClick={() => onToggleFavorite(meal.id)}
+        aria-label={meal.isFavorite ? copy.unstar : copy.star}
+        aria-pressed={!!meal.isFavorite}
+        className={`mt-0.5 shrink-0 rounded-lg p-1.5 hover:bg-stone-50 ${meal.isFavorite ? 'text-amber-500' : 'text-stone-300 hover:text-stone-500'}`}
+      >
+        <Star size={18} fill={meal.isFavorite ? 'currentColor' : 'none'} />
+      </button>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-semibold text-stone-800">
+          {meal.mealType ? copy.mealTypes[meal.mealType] : meal.label}
+          <span className="font-medium text-stone-400">
+            {' · '}
+            {meal.createdAt.toLocaleDateString(language, { weekday: 'short', day: 'numeric', month: 'short' })}
+            {' · '}
+            {Math.round(calories)} kcal
+          </span>
+        </p>
+        <p className="mt-0.5 text-xs text-stone-500">
+          {foods.map((food) => `${food.name} (${food.quantity})`).join(', ')}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={() => onRelog(meal.id)}
+        className="flex shrink-0 items-center gap-1.5 rounded-lg border border-stone-200 px-3 py-2 text-xs font-semibold text-stone-600 hover:bg-stone-50"
+      >
+        <RotateCcw size={14} />
+        {copy.logAgain}
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md rounded-2xl bg-white p-6 shadow-2xl border border-stone-200 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-xl font-bold text-stone-900">{copy.title}</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={copy.close}
+            className="rounded-lg p-2 text-stone-400 hover:bg-stone-50 hover:text-stone-700"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {favorites.length === 0 && recent.length === 0 && <p className="mt-4 text-sm text-stone-400">{copy.empty}</p>}
+
+        {favorites.length > 0 && (
+          <div className="mt-4">
+            <p className="text-xs font-semibold uppercase tracking-wide text-stone-400">{copy.favorites}</p>
+            <ul className="divide-y divide-stone-100">{favorites.map(renderEntry)}</ul>
+          </div>
+        )}
+
+        {recent.length > 0 && (
+          <div className="mt-4">
+            <p className="text-xs font-semibold uppercase tracking-wide text-stone-400">{copy.recent}</p>
+            <ul className="divide-y divide-stone-100">{recent.map(renderEntry)}</ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MealPicker;
@@ -0,0 +1,470 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, Mic, Pencil, Plus, Square, Trash2, UtensilsCrossed, X } from 'lucide-react';
+import { FoodItem, Recipe, RecipeIngredient } from '../types';
+import { perServing, sumRecipe, toRecipeIngredient } from '../lib/recipes';
+import type { ProcessAudioService } from '../services/processAudioService';
+
+interface RecipesProps {
+  recipes: Recipe[];
+  /** Logged foods, newest first; offered as ingredients. */
+  items: FoodItem[];
+  onSave: (recipe: Recipe) => void;
+  onDelete: (id: string) => void;
+  /** Logs one serving now as a single food linked to the recipe. */
+  onLogServing: (recipe: Recipe) => void;
+  /** A service whose estimated foods become ingredients instead of being logged. */
+  createIngredientService: (
+    onIngredient: (ingredient: RecipeIngredient) => void,
+    onDone: () => void
+  ) => ProcessAudioService;
+  language: 'en-US' | 'pt-BR';
+}
+
+/** How many distinct past foods the history picker lists. */
+const MAX_HISTORY_FOODS = 60;
+
+type ManualField = 'name' | 'quantity' | 'calories' | 'protein' | 'carbs' | 'fat';
+
+const EMPTY_MANUAL: Record<ManualField, string> = { name: '', quantity: '', calories: '', protein: '', carbs: '', fat: '' };
+
+interface Draft {
+  id: string | null;
+  name: string;
+  servings: string;
+  ingredients: RecipeIngredient[];
+}
+
+const toDraft = (recipe?: Recipe): Draft => ({
+  id: recipe?.id ?? null,
+  name: recipe?.name ?? '',
+  servings: recipe ? String(recipe.servings) : '',
+  ingredients: recipe?.ingredients ?? [],
+});
+
+const parseAmount = (text: string): number | null => {
+  const trimmed = text.trim().replace(',', '.');
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed * 10) / 10 : NaN;
+};
+
+const Recipes: React.FC<RecipesProps> = ({
+  recipes,
+  items,
+  onSave,
+  onDelete,
+  onLogServing,
+  createIngredientService,
+  language,
+}) => {
+  const isPortuguese = language === 'pt-BR';
+  const copy = {
+    title: isPortuguese ? 'Receitas' : 'Recipes',
+    subtitle: isPortuguese
+      ? 'Pratos que voce cozinha em quantidade. Monte com os ingredientes e registre uma porcao de cada vez.'
+      : 'Dishes you cook in batches. Build them from the ingredients and log one serving at a time.',
+    add: isPortuguese ? 'Nova receita' : 'New recipe',
+    empty: isPortuguese ? 'Nenhuma receita salva ainda.' : 'No saved recipes yet.',
+    name: isPortuguese ? 'Nome' : 'Name',
+    namePlaceholder: isPortuguese ? 'Ex.: Chili de carne' : 'E.g. Beef chili',
+    servings: isPortuguese ? 'Porcoes' : 'Servings',
+    servingsPlaceholder: isPortuguese ? 'Ex.: 6' : 'E.g. 6',
+    ingredients: isPortuguese ? 'Ingredientes' : 'Ingredients',
+    noIngredients: isPortuguese ? 'Adicione ingredientes falando, digitando ou escolhendo do historico.' : 'Add ingredients by voice, text, or from your history.',
+    describe: isPortuguese ? 'Ex.: 500 g de carne moida, 2 latas de feijao' : 'E.g. 500 g ground beef, 2 cans of beans',
+    estimate: isPortuguese ? 'Estimar' : 'Estimate',
+    speak: isPortuguese ? 'Falar ingredientes' : 'Speak ingredients',
+    stopSpeaking: isPortuguese ? 'Parar e estimar' : 'Stop and estimate',
+    fromHistory: isPortuguese ? 'Escolher do historico' : 'Pick from history',
+    manual: isPortuguese ? 'Adicionar manualmente' : 'Add manually',
+    addIngredient: isPortuguese ? 'Adicionar' : 'Add',
+    remove: isPortuguese ? 'Remover' : 'Remove',
+    batch: isPortuguese ? 'Receita inteira' : 'Whole batch',
+    perServing: isPortuguese ? 'Por porcao' : 'Per serving',
+    logServing: isPortuguese ? 'Registrar 1 porcao' : 'Log a serving',
+    save: isPortuguese ? 'Salvar' : 'Save',
+    cancel: isPortuguese ? 'Cancelar' : 'Cancel',
+    edit: isPortuguese ? 'Editar' : 'Edit',
+    delete: isPortuguese ? 'Excluir' : 'Delete',
+    nameRequired: isPortuguese ? 'Informe um nome.' : 'Enter a name.',
+    servingsRequired: isPortuguese ? 'Informe quantas porcoes a receita rende.' : 'Enter how many servings the recipe makes.',
+    ingredientsRequired: isPortuguese ? 'Adicione pelo menos um ingrediente.' : 'Add at least one ingredient.',
+    invalidNumber: isPortuguese ? 'Use apenas numeros nao negativos.' : 'Use non-negative numbers only.',
+    micFailed: isPortuguese ? 'Nao foi possivel acessar o microfone.' : 'Could not access the microphone.',
+    servingsCount: (count: number) => (isPortuguese ? `${count} porcoes` : `${count} servings`),
+    manualLabels: {
+      name: isPortuguese ? 'Ingrediente' : 'Ingredient',
+      quantity: isPortuguese ? 'Quantidade' : 'Quantity',
+      calories: 'kcal',
+      protein: 'P (g)',
+      carbs: 'C (g)',
+      fat: isPortuguese ? 'G (g)' : 'F (g)',
+    } as Record<ManualField, string>,
+  };
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [ingredientText, setIngredientText] = useState('');
+  const [manual, setManual] = useState(EMPTY_MANUAL);
+  const [capture, setCapture] = useState<'idle' | 'listening' | 'estimating'>('idle');
+  const serviceRef = useRef<ProcessAudioService | null>(null);
+
+  useEffect(() => () => serviceRef.current?.stop(), []);
+
+  // Distinct name + quantity pairs, newest first.
+  const historyFoods = useMemo(() => {
+    const seen = new Set<string>();
+    return items
+      .filter((item) => {
+        const key = `${item.name.trim().toLowerCase()}|${item.quantity.trim().toLowerCase()}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_HISTORY_FOODS);
+  }, [items]);
+
+  const addIngredients = (ingredients: RecipeIngredient[]) => {
+    setDraft((prev) => (prev ? { ...prev, ingredients: [...prev.ingredients, ...ingredients] } : prev));
+  };
+
+  const openForm = (recipe?: Recipe) => {
+    serviceRef.current?.stop();
+    setDraft(toDraft(recipe));
+    setFormError(null);
+    setIngredientText('');
+    setManual(EMPTY_MANUAL);
+  };
+
+  const closeForm = () => {
+    serviceRef.current?.stop();
+    setDraft(null);
+  };
+
+  const startCapture = (): ProcessAudioService => {
+    const service = createIngredientService(
+      (ingredient) => addIngredients([ingredient]),
+      () => {
+        if (serviceRef.current === service) serviceRef.current = null;
+        setCapture('idle');
+      }
+    );
+    serviceRef.current = service;
+    return service;
+  };
+
+  const estimateText = () => {
+    const text = ingredientText.trim();
+    if (!text || capture !== 'idle') return;
+    setFormError(null);
+    setIngredientText('');
+    setCapture('estimating');
+    void startCapture().sendText(text);
+  };
+
+  const toggleVoice = async () => {
+    if (capture === 'listening') {
+      setCapture('estimating');
+      serviceRef.current?.stopInput();
+      return;
+    }
+    if (capture !== 'idle') return;
+    setFormError(null);
+    const service = startCapture();
+    try {
+      await service.start();
+      setCapture('listening');
+    } catch (e) {
+      console.error(e);
+      setFormError(copy.micFailed);
+      service.stop();
+    }
+  };
+
+  const pickHistoryFood = (itemId: string) => {
+    const item = historyFoods.find((food) => food.id === itemId);
+    if (item) addIngredients([toRecipeIngredient(item)]);
+  };
+
+  const addManualIngredient = () => {
+    const name = manual.name.trim();
+    if (!name) {
+      setFormError(copy.nameRequired);
+      return;
+    }
+    const calories = parseAmount(manual.calories);
+    const protein = parseAmount(manual.protein);
+    const carbs = parseAmount(manual.carbs);
+    const fat = parseAmount(manual.fat);
+    if ([calories, protein, carbs, fat].some((value) => Number.isNaN(value))) {
+      setFormError(copy.invalidNumber);
+      return;
+    }
+    setFormError(null);
+    addIngredients([
+      toRecipeIngredient({
+        name: name.slice(0, 120),
+        quantity: manual.quantity.trim() || '1 serving',
+        calories: Math.round(calories ?? 0),
+        protein: protein ?? 0,
+        carbs: carbs ?? 0,
+        fat: fat ?? 0,
+        fiber: 0,
+      }),
+    ]);
+    setManual(EMPTY_MANUAL);
+  };
+
+  const handleSubmit = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) {
+      setFormError(copy.nameRequired);
+      return;
+    }
+    const servings = parseAmount(draft.servings);
+    if (servings == null || Number.isNaN(servings) || servings <= 0) {
+      setFormError(copy.servingsRequired);
+      return;
+    }
+    if (draft.ingredients.length === 0) {
+      setFormError(copy.ingredientsRequired);
+      return;
+    }
+    onSave({ id: draft.id ?? crypto.randomUUID(), name: name.slice(0, 120), servings, ingredients: draft.ingredients });
+    closeForm();
+  };
+
+  const formatNutrition = (nutrition: { calories: number; protein: number; carbs: number; fat: number }) =>
+    `${nutrition.calories} kcal · P ${nutrition.protein} g · C ${nutrition.carbs} g · F ${nutrition.fat} g`;
+
+  const draftServings = draft ? parseAmount(draft.servings) : null;
+  const draftBatch = draft ? sumRecipe(draft.ingredients) : null;
+  const draftPerServing =
+    draft && draftServings && draftServings > 0
+      ? perServing({ id: '', name: '', servings: draftServings, ingredients: draft.ingredients })
+      : null;
+
+  const inputClass =
+    'h-11 w-full rounded-lg border border-stone-200 bg-white px-3 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300';
+  const smallButtonClass =
+    'flex shrink-0 items-center gap-1.5 rounded-lg border border-stone-200 px-3 py-2 text-xs font-semibold text-stone-600 hover:bg-stone-50 disabled:opacity-50';
+
+  return (
+    <section className="mt-6 rounded-3xl bg-white p-6 shadow-[0_2px_20px_rgba(0,0,0,0.04)] border border-stone-100">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-stone-900 tracking-tight">{copy.title}</h2>
+          <p className="mt-1 text-sm text-stone-500">{copy.subtitle}</p>
+        </div>
+        {!draft && (
+          <button type="button" onClick={() => openForm()} className={smallButtonClass}>
+            <Plus size={14} />
+            {copy.add}
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="mb-6 rounded-2xl border border-stone-200 p-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <label className="block md:col-span-2">
+              <span className="mb-1 block text-xs font-semibold text-stone-600">{copy.name}</span>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={copy.namePlaceholder}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="mb-1 block text-xs font-semibold text-stone-600">{copy.servings}</span>
+              <input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                value={draft.servings}
+                onChange={(e) => setDraft({ ...draft, servings: e.target.value })}
+                placeholder={copy.servingsPlaceholder}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <p className="mt-4 text-xs font-semibold uppercase tracking-wide text-stone-400">{copy.ingredients}</p>
+          {draft.ingredients.length === 0 ? (
+            <p className="mt-2 text-sm text-stone-400">{copy.noIngredients}</p>
+          ) : (
+            <ul className="mt-1 divide-y divide-stone-100">
+              {draft.ingredients.map((ingredient) => (
+                <li key={ingredient.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium text-stone-800">
+                      {ingredient.name} <span className="text-stone-400">({ingredient.quantity})</span>
+                    </p>
+                    <p className="text-xs text-stone-500">{formatNutrition(ingredient)}</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft({ ...draft, ingredients: draft.ingredients.filter((item) => item.id !== ingredient.id) })
+                    }
+                    aria-label={`${copy.remove} ${ingredient.name}`}
+                    className="rounded-lg p-2 text-stone-400 hover:bg-red-50 hover:text-red-600"
+                  >
+                    <X size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-3 flex gap-2">
+            <input
+              value={ingredientText}
+              onChange={(e) => setIngredientText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') estimateText();
+              }}
+              placeholder={copy.describe}
+              disabled={capture !== 'idle'}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={estimateText}
+              disabled={capture !== 'idle' || !ingredientText.trim()}
+              className={smallButtonClass}
+            >
+              {capture === 'estimating' ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+              {copy.estimate}
+            </button>
+            <button
+              type="button"
+              onClick={() => void toggleVoice()}
+              disabled={capture === 'estimating'}
+              aria-label={capture === 'listening' ? copy.stopSpeaking : copy.speak}
+              aria-pressed={capture === 'listening'}
+              className={`${smallButtonClass} ${capture === 'listening' ? 'border-red-200 bg-red-50 text-red-600 hover:bg-red-50' : ''}`}
+            >
+              {capture === 'listening' ? <Square size={14} /> : <Mic size={14} />}
+            </button>
+          </div>
+
+          {historyFoods.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => pickHistoryFood(e.target.value)}
+              aria-label={copy.fromHistory}
+              className={`${inputClass} mt-2`}
+            >
+              <option value="">{copy.fromHistory}</option>
+              {historyFoods.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name} ({item.quantity}) · {item.calories} kcal
+                </option>
+              ))}
+            </select>
+          )}
+
+          <p className="mt-4 text-xs font-semibold text-stone-600">{copy.manual}</p>
+          <div className="mt-2 grid grid-cols-2 gap-2 md:grid-cols-7">
+            {(Object.keys(EMPTY_MANUAL) as ManualField[]).map((key) => (
+              <input
+                key={key}
+                value={manual[key]}
+                onChange={(e) => setManual({ ...manual, [key]: e.target.value })}
+                placeholder={copy.manualLabels[key]}
+                aria-label={copy.manualLabels[key]}
+                inputMode={key === 'name' || key === 'quantity' ? undefined : 'decimal'}
+                className={`h-9 min-w-0 rounded-lg border border-stone-200 bg-white px-2 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300 ${key === 'name' ? 'col-span-2 md:col-span-2' : ''}`}
+              />
+            ))}
+            <button type="button" onClick={addManualIngredient} className={`${smallButtonClass} justify-center`}>
+              <Plus size={14} />
+              {copy.addIngredient}
+            </button>
+          </div>
+
+          {draftBatch && draft.ingredients.length > 0 && (
+            <div className="mt-4 grid grid-cols-1 gap-2 rounded-xl bg-stone-50 p-3 text-xs text-stone-600 md:grid-cols-2">
+              <p>
+                <span className="font-semibold text-stone-800">{copy.batch}:</span> {formatNutrition(draftBatch)}
+              </p>
+              {draftPerServing && (
+                <p>
+                  <span className="font-semibold text-stone-800">{copy.perServing}:</span> {formatNutrition(draftPerServing)}
+                </p>
+              )}
+            </div>
+          )}
+
+          {formError && <p className="mt-3 text-sm font-medium text-red-600">{formError}</p>}
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="rounded-xl border border-stone-300 px-4 py-2 text-sm font-semibold text-stone-700 hover:bg-stone-50"
+            >
+              {copy.cancel}
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={capture !== 'idle'}
+              className="rounded-xl bg-stone-900 px-4 py-2 text-sm font-semibold text-white hover:bg-stone-700 disabled:opacity-50"
+            >
+              {copy.save}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {recipes.length === 0 ? (
+        !draft && <p className="text-sm text-stone-400">{copy.empty}</p>
+      ) : (
+        <ul className="divide-y divide-stone-100">
+          {recipes.map((recipe) => (
+            <li key={recipe.id} className="flex items-start justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-semibold text-stone-800">{recipe.name}</p>
+                <p className="mt-0.5 text-xs text-stone-500">
+                  {copy.perServing}: {formatNutrition(perServing(recipe))}
+                </p>
+                <p className="mt-0.5 text-xs text-stone-400">
+                  {copy.servingsCount(recipe.servings)} · {recipe.ingredients.map((ingredient) => ingredient.name).join(', ')}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <button type="button" onClick={() => onLogServing(recipe)} className={smallButtonClass}>
+                  <UtensilsCrossed size={14} />
+                  {copy.logServing}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => openForm(recipe)}
+                  aria-label={`${copy.edit} ${recipe.name}`}
+                  className="rounded-lg p-2 text-stone-400 hover:bg-stone-50 hover:text-stone-700"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(recipe.id)}
+                  aria-label={`${copy.delete} ${recipe.name}`}
+                  className="rounded-lg p-2 text-stone-400 hover:bg-red-50 hover:text-red-600"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default Recipes;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { UserSettings } from '../types';
+
+interface SettingsProps {
+  settings: UserSettings;
+  onSettingsChange: (settings: UserSettings) => void;
+  language: 'en-US' | 'pt-BR';
+}
+
+const Settings: React.FC<SettingsProps> = ({ settings, onSettingsChange, language }) => {
+  const isPortuguese = language === 'pt-BR';
+  const copy = {
+    title: isPortuguese ? 'Preferencias' : 'Preferences',
+    reviewTitle: isPortuguese ? 'Revisar antes de salvar' : 'Review before saving',
+    reviewHint: isPortuguese
+      ? 'Mostra os alimentos detectados para ajustar antes de registrar a refeicao.'
+      : 'Shows the detected foods so you can adjust them before the meal is logged.',
+  };
+
+  return (
+    <section className="mt-6 rounded-3xl bg-white p-6 shadow-[0_2px_20px_rgba(0,0,0,0.04)] border border-stone-100">
+      <h2 className="text-lg font-bold text-stone-900 tracking-tight">{copy.title}</h2>
+      <label className="mt-4 flex cursor-pointer items-start justify-between gap-4">
+        <div>
+          <div className="text-sm font-semibold text-stone-700">{copy.reviewTitle}</div>
+          <p className="mt-0.5 text-xs text-stone-500">{copy.reviewHint}</p>
+        </div>
+        <input
+          type="checkbox"
+          role="switch"
+          checked={settings.reviewBeforeSave}
+          onChange={(e) => onSettingsChange({ ...settings, reviewBeforeSave: e.target.checked })}
+          className="mt-1 h-5 w-5 shrink-0 accent-stone-900"
+        />
+      </label>
+    </section>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, X } from 'lucide-react';
+
+interface TextMealInputProps {
+  onSubmit: (text: string) => void;
+  onClose: () => void;
+  disabled: boolean;
+  language: 'en-US' | 'pt-BR';
+}
+
+const MAX_LENGTH = 1000;
+
+const TextMealInput: React.FC<TextMealInputProps> = ({ onSubmit, onClose, disabled, language }) => {
+  const [text, setText] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isPortuguese = language === 'pt-BR';
+  const copy = {
+    placeholder: isPortuguese ? 'Ex.: 2 ovos e uma fatia de pao' : 'E.g. 2 eggs and a slice of toast',
+    send: isPortuguese ? 'Registrar refeicao' : 'Log meal',
+    close: isPortuguese ? 'Fechar' : 'Close',
+  };
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = text.trim();
+    if (!trimmed || disabled) return;
+    onSubmit(trimmed);
+    setText('');
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex w-full items-center gap-2 rounded-2xl border border-stone-200 bg-white p-2 shadow-xl"
+    >
+      <input
+        ref={inputRef}
+        type="text"
+        value={text}
+        maxLength={MAX_LENGTH}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+        placeholder={copy.placeholder}
+        className="h-11 min-w-0 flex-1 rounded-xl border border-stone-200 bg-white px-3 text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        aria-label={copy.send}
+        className="flex h-11 w-11 shrink-0 items-center justify-center rounded-xl bg-stone-900 text-white hover:bg-stone-800 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        <Send size={18} />
+      </button>
+      <button
+        type="button"
+        onClick={onClose}
+        aria-label={copy.close}
+        className="flex h-11 w-11 shrink-0 items-center justify-center rounded-xl border border-stone-200 text-stone-500 hover:bg-stone-50"
+      >
+        <X size={18} />
+      </button>
+    </form>
+  );
+};
+
+export default TextMealInput;
@@ -1,10 +1,37 @@
 import { supabase } from '../lib/supabase';
-import type { FoodItem, MealGroup, NutritionGoals } from '../types';
-import type { Database } from '../lib/database.types';
+import type {
+  CustomFood,
+  FoodBatch,
+  FoodItem,
+  FoodEstimate,
+  FoodQuantity,
+  MealGroup,
+  MealType,
+  Micronutrients,
+  NutrientSource,
+  NutritionGoals,
+  OriginalEstimate,
+  QuantityUnit,
+  Recipe,
+  RecipeIngredient,
+  UserSettings,
+  WaterEntry,
+} from '../types';
+import type { Database, Json } from '../lib/database.types';
+import { normalizeDriProfile } from '../lib/dri';
+import { normalizeMicronutrientGoals, normalizeMicronutrients } from '../lib/micronutrients';
+import { sumRecipe } from '../lib/recipes';
+import { QUANTITY_UNITS } from '../lib/units';
 
 type MealRow = Database['public']['Tables']['meal_groups']['Row'];
 type FoodItemRow = Database['public']['Tables']['food_items']['Row'];
 type NutritionGoalsRow = Database['public']['Tables']['nutrition_goals']['Row'];
+type UserSettingsRow = Database['public']['Tables']['user_settings']['Row'];
+type WaterLogRow = Database['public']['Tables']['water_logs']['Row'];
+type CustomFoodRow = Database['public']['Tables']['custom_foods']['Row'];
+type RecipeRow = Database['public']['Tables']['recipes']['Row'];
+type RecipeIngredientRow = Database['public']['Tables']['recipe_ingredients']['Row'];
+type FoodBatchRow = Database['public']['Tables']['food_batches']['Row'];
 
 export interface NutritionSnapshot {
   items: FoodItem[];
@@ -22,13 +49,51 @@ const assertNoError = (error: { message: string } | null, context: string): void
   throw new Error(`${context}: ${error.message}`);
 };
 
+const MEAL_TYPES: readonly string[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+const isMealType = (value: string | null): value is MealType => value !== null && MEAL_TYPES.includes(value);
+
 const mapMealRow = (row: MealRow): MealGroup => ({
   id: row.id,
   label: row.label,
   transcriptSnippet: row.transcript_snippet ?? undefined,
   createdAt: new Date(row.created_at),
+  mealType: isMealType(row.meal_type) ? row.meal_type : undefined,
+  isFavorite: row.is_favorite || undefined,
+});
+
+const NUTRIENT_SOURCES: readonly string[] = ['database', 'llm', 'library', 'recipe'];
+const isNutrientSource = (value: string | null): value is NutrientSource =>
+  value !== null && NUTRIENT_SOURCES.includes(value);
+
+const mapQuantityColumns = (
+  row: Pick<FoodItemRow, 'quantity_amount' | 'quantity_unit' | 'quantity_grams'>
+): FoodQuantity | undefined => {
+  if (row.quantity_amount == null || !QUANTITY_UNITS.includes(row.quantity_unit as QuantityUnit)) return undefined;
+  return {
+    amount: Number(row.quantity_amount),
+    unit: row.quantity_unit as QuantityUnit,
+    grams: row.quantity_grams != null ? Number(row.quantity_grams) : undefined,
+  };
+};
+
+const toQuantityColumns = (measure: FoodQuantity | null | undefined) => ({
+  quantity_amount: measure?.amount ?? null,
+  quantity_unit: measure?.unit ?? null,
+  quantity_grams: measure?.grams ?? null,
 });
 
+const toMicronutrientsJson = (micronutrients: Micronutrients | undefined): Json =>
+  (micronutrients ?? {}) as unknown as Json;
+
+const ORIGINAL_ESTIMATE_NUMBERS = ['calories', 'protein', 'carbs', 'fat', 'fiber'] as const;
+
+const mapOriginalEstimate = (value: Json | null): OriginalEstimate | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  if (typeof value.quantity !== 'string') return undefined;
+  if (!ORIGINAL_ESTIMATE_NUMBERS.every((key) => typeof value[key] === 'number')) return undefined;
+  return value as unknown as OriginalEstimate;
+};
+
 const mapFoodRow = (row: FoodItemRow): FoodItem => ({
   id: row.id,
   mealId: row.meal_id,
@@ -39,10 +104,62 @@ const mapFoodRow = (row: FoodItemRow): FoodItem => ({
   carbs: Number(row.carbs),
   fat: Number(row.fat),
   fiber: Number(row.fiber),
-  micronutrients: row.micronutrients ?? undefined,
+  sodium: row.sodium != null ? Number(row.sodium) : undefined,
+  addedSugar: row.added_sugar != null ? Number(row.added_sugar) : undefined,
+  saturatedFat: row.saturated_fat != null ? Number(row.saturated_fat) : undefined,
+  // Rows written before micronutrient_values keep their free text, parsed here.
+  micronutrients: normalizeMicronutrients(row.micronutrient_values ?? row.micronutrients ?? undefined),
+  consistencyScore: row.consistency_score != null ? Number(row.consistency_score) : undefined,
+  flagReason: row.flag_reason ?? undefined,
+  confidence: row.confidence != null ? Number(row.confidence) : undefined,
+  portionGrams: row.portion_grams != null ? Number(row.portion_grams) : undefined,
+  assumptions: row.assumptions ?? undefined,
+  clarification: row.clarification_question
+    ? { question: row.clarification_question, options: row.clarification_options ?? [] }
+    : undefined,
+  source: isNutrientSource(row.nutrient_source) ? row.nutrient_source : undefined,
+  sourceRef: row.source_ref ?? undefined,
+  recipeId: row.recipe_id ?? undefined,
+  batchId: row.batch_id ?? undefined,
+  batchAmount: row.batch_amount != null ? Number(row.batch_amount) : undefined,
+  measure: mapQuantityColumns(row),
+  originalEstimate: mapOriginalEstimate(row.original_estimate),
   timestamp: new Date(row.timestamp),
 });
 
+/** Estimate columns shared by insert, import and re-estimation; absent values are written as null. */
+const toEstimateColumns = (item: FoodEstimate) => ({
+  name: item.name,
+  quantity: item.quantity,
+  calories: item.calories,
+  protein: item.protein,
+  carbs: item.carbs,
+  fat: item.fat,
+  fiber: item.fiber,
+  sodium: item.sodium ?? null,
+  added_sugar: item.addedSugar ?? null,
+  saturated_fat: item.saturatedFat ?? null,
+  micronutrients: null,
+  micronutrient_values: toMicronutrientsJson(item.micronutrients),
+  consistency_score: item.consistencyScore ?? null,
+  flag_reason: item.flagReason ?? null,
+  confidence: item.confidence ?? null,
+  portion_grams: item.portionGrams ?? null,
+  assumptions: item.assumptions ?? null,
+  clarification_question: item.clarification?.question ?? null,
+  clarification_options: item.clarification?.options ?? null,
+  nutrient_source: item.source ?? null,
+  source_ref: item.sourceRef ?? null,
+  ...toQuantityColumns(item.measure),
+});
+
+/** Links to a recipe or batch. They belong to the logged food, so re-estimation leaves them as they are. */
+const toLinkColumns = (item: FoodEstimate) => ({
+  recipe_id: item.recipeId ?? null,
+  batch_id: item.batchId ?? null,
+  batch_amount: item.batchAmount ?? null,
+});
+
 const mapGoalsRow = (row: NutritionGoalsRow | null): NutritionGoals => {
   if (!row) return {};
   return {
@@ -51,9 +168,88 @@ const mapGoalsRow = (row: NutritionGoalsRow | null): NutritionGoals => {
     carbs: normalizeGoalNumber(row.carbs ?? undefined),
     fat: normalizeGoalNumber(row.fat ?? undefined),
     fiber: normalizeGoalNumber(row.fiber ?? undefined),
+    sodium: normalizeGoalNumber(row.sodium ?? undefined),
+    addedSugar: normalizeGoalNumber(row.added_sugar ?? undefined),
+    saturatedFat: normalizeGoalNumber(row.saturated_fat ?? undefined),
+    micronutrients: normalizeMicronutrientGoals(row.micronutrients),
+    driProfile: normalizeDriProfile(row.dri_sex, row.dri_age),
+    water: normalizeGoalNumber(row.water_ml ?? undefined),
   };
 };
 
+const mapWaterRow = (row: WaterLogRow): WaterEntry => ({
+  id: row.id,
+  volumeMl: row.volume_ml,
+  drink: row.drink ?? undefined,
+  timestamp: new Date(row.timestamp),
+});
+
+const mapCustomFoodRow = (row: CustomFoodRow): CustomFood => ({
+  id: row.id,
+  name: row.name,
+  aliases: row.aliases ?? [],
+  serving: row.serving,
+  calories: row.calories,
+  protein: Number(row.protein),
+  carbs: Number(row.carbs),
+  fat: Number(row.fat),
+  fiber: Number(row.fiber),
+  sodium: row.sodium != null ? Number(row.sodium) : undefined,
+  addedSugar: row.added_sugar != null ? Number(row.added_sugar) : undefined,
+  saturatedFat: row.saturated_fat != null ? Number(row.saturated_fat) : undefined,
+});
+
+const mapRecipeIngredientRow = (row: RecipeIngredientRow): RecipeIngredient => ({
+  id: row.id,
+  name: row.name,
+  quantity: row.quantity,
+  calories: row.calories,
+  protein: Number(row.protein),
+  carbs: Number(row.carbs),
+  fat: Number(row.fat),
+  fiber: Number(row.fiber),
+  sodium: row.sodium != null ? Number(row.sodium) : undefined,
+  addedSugar: row.added_sugar != null ? Number(row.added_sugar) : undefined,
+  saturatedFat: row.saturated_fat != null ? Number(row.saturated_fat) : undefined,
+  micronutrients: normalizeMicronutrients(row.micronutrient_values),
+});
+
+const mapRecipeRow = (row: RecipeRow, ingredients: RecipeIngredientRow[]): Recipe => ({
+  id: row.id,
+  name: row.name,
+  servings: Number(row.servings),
+  ingredients: ingredients
+    .filter((ingredient) => ingredient.recipe_id === row.id)
+    .sort((a, b) => a.position - b.position)
+    .map(mapRecipeIngredientRow),
+});
+
+// The columns are not null, so a row always has a quantity.
+const mapFoodBatchRow = (row: FoodBatchRow): FoodBatch => ({
+  id: row.id,
+  name: row.name,
+  quantity: mapQuantityColumns(row) ?? { amount: Number(row.quantity_amount), unit: 'serving' },
+  calories: row.calories,
+  protein: Number(row.protein),
+  carbs: Number(row.carbs),
+  fat: Number(row.fat),
+  fiber: Number(row.fiber),
+  sodium: row.sodium != null ? Number(row.sodium) : undefined,
+  addedSugar: row.added_sugar != null ? Number(row.added_sugar) : undefined,
+  saturatedFat: row.saturated_fat != null ? Number(row.saturated_fat) : undefined,
+  micronutrients: normalizeMicronutrients(row.micronutrient_values),
+  recipeId: row.recipe_id ?? undefined,
+  cookedAt: new Date(row.cooked_at),
+  finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+});
+
+export const DEFAULT_USER_SETTINGS: UserSettings = { reviewBeforeSave: false };
+
+const mapSettingsRow = (row: UserSettingsRow | null): UserSettings => {
+  if (!row) return DEFAULT_USER_SETTINGS;
+  return { reviewBeforeSave: row.review_before_save };
+};
+
 export const nutritionRepository = {
   async loadInitialData(userId: string): Promise<NutritionSnapshot> {
     const [mealsResult, itemsResult, goalsResult] = await Promise.all([
@@ -102,6 +298,8 @@ export const nutritionRepository = {
       label: meal.label,
       transcript_snippet: meal.transcriptSnippet ?? null,
       created_at: meal.createdAt.toISOString(),
+      meal_type: meal.mealType ?? null,
+      is_favorite: meal.isFavorite ?? false,
     });
     assertNoError(error, 'Failed to insert meal');
   },
@@ -115,6 +313,15 @@ export const nutritionRepository = {
     assertNoError(error, 'Failed to update meal transcript');
   },
 
+  async setMealFavorite(userId: string, mealId: string, isFavorite: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('meal_groups')
+      .update({ is_favorite: isFavorite })
+      .eq('id', mealId)
+      .eq('user_id', userId);
+    assertNoError(error, 'Failed to update favorite');
+  },
+
   async deleteMeal(userId: string, mealId: string): Promise<void> {
     const { error } = await supabase.from('meal_groups').delete().eq('id', mealId).eq('user_id', userId);
     assertNoError(error, 'Failed to delete meal');
@@ -125,23 +332,56 @@ export const nutritionRepository = {
       id: item.id,
       user_id: userId,
       meal_id: item.mealId,
-      name: item.name,
-      quantity: item.quantity,
-      calories: item.calories,
-      protein: item.protein,
-      carbs: item.carbs,
-      fat: item.fat,
-      fiber: item.fiber,
-      micronutrients: item.micronutrients ?? null,
+      ...toEstimateColumns(item),
+      ...toLinkColumns(item),
       timestamp: item.timestamp.toISOString(),
     });
     assertNoError(error, 'Failed to insert food item');
   },
 
+  /** One round trip for a whole meal, e.g. when a past meal is logged again. */
+  async insertFoodItems(userId: string, items: FoodItem[]): Promise<void> {
+    if (items.length === 0) return;
+    const { error } = await supabase.from('food_items').insert(
+      items.map((item) => ({
+        id: item.id,
+        user_id: userId,
+        meal_id: item.mealId,
+        ...toEstimateColumns(item),
+        ...toLinkColumns(item),
+        timestamp: item.timestamp.toISOString(),
+      }))
+    );
+    assertNoError(error, 'Failed to insert food items');
+  },
+
+  /** Overwrites every estimated field, e.g. after the user answered a follow-up question; links stay. */
+  async replaceFoodEstimate(userId: string, itemId: string, estimate: FoodEstimate): Promise<void> {
+    const { error } = await supabase
+      .from('food_items')
+      .update(toEstimateColumns(estimate))
+      .eq('id', itemId)
+      .eq('user_id', userId);
+    assertNoError(error, 'Failed to update food estimate');
+  },
+
+  async clearClarification(userId: string, itemId: string): Promise<void> {
+    const { error } = await supabase
+      .from('food_items')
+      .update({ clarification_question: null, clarification_options: null })
+      .eq('id', itemId)
+      .eq('user_id', userId);
+    assertNoError(error, 'Failed to dismiss question');
+  },
+
   async updateFoodItem(
     userId: string,
     itemId: string,
-    updates: Partial<Pick<FoodItem, 'mealId' | 'quantity' | 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber' | 'micronutrients'>>
+    updates: Partial<Pick<
+      FoodItem,
+      'mealId' | 'quantity' | 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber' | 'sodium' | 'addedSugar' | 'saturatedFat' | 'micronutrients'
+    >>
+      & { measure?: FoodQuantity | null; originalEstimate?: OriginalEstimate; batchAmount?: number }
   ): Promise<void> {
     const payload: Database['public']['Tables']['food_items']['Update'] = {};
     if (updates.mealId !== undefined) payload.meal_id = updates.mealId;
@@ -151,7 +391,21 @@ export const nutritionRepository = {
     if (updates.carbs !== undefined) payload.carbs = updates.carbs;
     if (updates.fat !== undefined) payload.fat = updates.fat;
     if (updates.fiber !== undefined) payload.fiber = updates.fiber;
-    if (updates.micronutrients !== undefined) payload.micronutrients = updates.micronutrients ?? null;
+    if (updates.sodium !== undefined) payload.sodium = updates.sodium;
+    if (updates.addedSugar !== undefined) payload.added_sugar = updates.addedSugar;
+    if (updates.saturatedFat !== undefined) payload.saturated_fat = updates.saturatedFat;
+    if (updates.batchAmount !== undefined) payload.batch_amount = updates.batchAmount;
+    if (updates.micronutrients !== undefined) {
+      payload.micronutrients = null;
+      payload.micronutrient_values = toMicronutrientsJson(updates.micronutrients);
+    }
+    // null clears a structured quantity that no longer matches the free text.
+    if (updates.measure !== undefined) Object.assign(payload, toQuantityColumns(updates.measure));
+    // Marks the row as corrected; the API turns these into personal hints (api/_lib/estimateHints.ts).
+    if (updates.originalEstimate !== undefined) {
+      payload.original_estimate = updates.originalEstimate as unknown as Json;
+      payload.corrected_at = new Date().toISOString();
+    }
 
     const { error } = await supabase
       .from('food_items')
@@ -174,10 +428,197 @@ export const nutritionRepository = {
       carbs: goals.carbs ?? null,
       fat: goals.fat ?? null,
       fiber: goals.fiber ?? null,
+      sodium: goals.sodium ?? null,
+      added_sugar: goals.addedSugar ?? null,
+      saturated_fat: goals.saturatedFat ?? null,
+      micronutrients: (goals.micronutrients ?? {}) as Json,
+      dri_sex: goals.driProfile?.sex ?? null,
+      dri_age: goals.driProfile?.age ?? null,
+      water_ml: goals.water != null ? Math.round(goals.water) : null,
     });
     assertNoError(error, 'Failed to upsert goals');
   },
 
+  /** Drinks logged since `since` (start of today for the Dashboard), newest first. */
+  async loadWaterEntries(userId: string, since: Date): Promise<WaterEntry[]> {
+    const { data, error } = await supabase
+      .from('water_logs')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('timestamp', since.toISOString())
+      .order('timestamp', { ascending: false });
+    assertNoError(error, 'Failed to load water log');
+    return (data ?? []).map(mapWaterRow);
+  },
+
+  async insertWaterEntry(userId: string, entry: WaterEntry): Promise<void> {
+    const { error } = await supabase.from('water_logs').insert({
+      id: entry.id,
+      user_id: userId,
+      volume_ml: entry.volumeMl,
+      drink: entry.drink ?? null,
+      timestamp: entry.timestamp.toISOString(),
+    });
+    assertNoError(error, 'Failed to log water');
+  },
+
+  async deleteWaterEntry(userId: string, entryId: string): Promise<void> {
+    const { error } = await supabase.from('water_logs').delete().eq('id', entryId).eq('user_id', userId);
+    assertNoError(error, 'Failed to delete water entry');
+  },
+
+  /** The user's food library, most recently edited first. */
+  async loadCustomFoods(userId: string): Promise<CustomFood[]> {
+    const { data, error } = await supabase
+      .from('custom_foods')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+    assertNoError(error, 'Failed to load food library');
+    return (data ?? []).map(mapCustomFoodRow);
+  },
+
+  /** Inserts a new library food or overwrites an existing one (same id). */
+  async upsertCustomFood(userId: string, food: CustomFood): Promise<void> {
+    const { error } = await supabase.from('custom_foods').upsert({
+      id: food.id,
+      user_id: userId,
+      name: food.name,
+      aliases: food.aliases,
+      serving: food.serving,
+      calories: food.calories,
+      protein: food.protein,
+      carbs: food.carbs,
+      fat: food.fat,
+      fiber: food.fiber,
+      sodium: food.sodium ?? null,
+      added_sugar: food.addedSugar ?? null,
+      saturated_fat: food.saturatedFat ?? null,
+    }, { onConflict: 'id' });
+    assertNoError(error, 'Failed to save library food');
+  },
+
+  async deleteCustomFood(userId: string, foodId: string): Promise<void> {
+    const { error } = await supabase.from('custom_foods').delete().eq('id', foodId).eq('user_id', userId);
+    assertNoError(error, 'Failed to delete library food');
+  },
+
+  async loadRecipes(userId: string): Promise<Recipe[]> {
+    const [recipesResult, ingredientsResult] = await Promise.all([
+      supabase.from('recipes').select('*').eq('user_id', userId).order('updated_at', { ascending: false }),
+      supabase.from('recipe_ingredients').select('*').eq('user_id', userId),
+    ]);
+    assertNoError(recipesResult.error, 'Failed to load recipes');
+    assertNoError(ingredientsResult.error, 'Failed to load recipe ingredients');
+    const ingredients = ingredientsResult.data ?? [];
+    return (recipesResult.data ?? []).map((row) => mapRecipeRow(row, ingredients));
+  },
+
+  /**
+   * Inserts or overwrites a recipe with its batch totals and replaces its ingredient rows, in one transaction
+   * (the save_recipe function). The totals are what the API logs a serving from (api/_lib/foodLibrary.ts).
+   */
+  async saveRecipe(userId: string, recipe: Recipe): Promise<void> {
+    const totals = sumRecipe(recipe.ingredients);
+    const { error } = await supabase.rpc('save_recipe', {
+      p_recipe: {
+        id: recipe.id,
+        user_id: userId,
+        name: recipe.name,
+        servings: recipe.servings,
+        calories: totals.calories,
+        protein: totals.protein,
+        carbs: totals.carbs,
+        fat: totals.fat,
+        fiber: totals.fiber,
+        sodium: totals.sodium ?? null,
+        added_sugar: totals.addedSugar ?? null,
+        saturated_fat: totals.saturatedFat ?? null,
+      },
+      p_ingredients: recipe.ingredients.map((ingredient, position) => ({
+        id: ingredient.id,
+        position,
+        name: ingredient.name,
+        quantity: ingredient.quantity,
+        calories: ingredient.calories,
+        protein: ingredient.protein,
+        carbs: ingredient.carbs,
+        fat: ingredient.fat,
+        fiber: ingredient.fiber,
+        sodium: ingredient.sodium ?? null,
+        added_sugar: ingredient.addedSugar ?? null,
+        saturated_fat: ingredient.saturatedFat ?? null,
+        micronutrient_values: toMicronutrientsJson(ingredient.micronutrients),
+      })),
+    });
+    assertNoError(error, 'Failed to save recipe');
+  },
+
+  /** Ingredients go with it (on delete cascade); logged servings keep their values and lose the link. */
+  async deleteRecipe(userId: string, recipeId: string): Promise<void> {
+    const { error } = await supabase.from('recipes').delete().eq('id', recipeId).eq('user_id', userId);
+    assertNoError(error, 'Failed to delete recipe');
+  },
+
+  /** Batches not cleared yet, newest first; portions come with the food items. */
+  async loadOpenBatches(userId: string): Promise<FoodBatch[]> {
+    const { data, error } = await supabase
+      .from('food_batches')
+      .select('*')
+      .eq('user_id', userId)
+      .is('finished_at', null)
+      .order('cooked_at', { ascending: false });
+    assertNoError(error, 'Failed to load batches');
+    return (data ?? []).map(mapFoodBatchRow);
+  },
+
+  async insertBatch(userId: string, batch: FoodBatch): Promise<void> {
+    const { error } = await supabase.from('food_batches').insert({
+      id: batch.id,
+      user_id: userId,
+      name: batch.name,
+      recipe_id: batch.recipeId ?? null,
+      quantity_amount: batch.quantity.amount,
+      quantity_unit: batch.quantity.unit,
+      quantity_grams: batch.quantity.grams ?? null,
+      calories: batch.calories,
+      protein: batch.protein,
+      carbs: batch.carbs,
+      fat: batch.fat,
+      fiber: batch.fiber,
+      sodium: batch.sodium ?? null,
+      added_sugar: batch.addedSugar ?? null,
+      saturated_fat: batch.saturatedFat ?? null,
+      micronutrient_values: toMicronutrientsJson(batch.micronutrients),
+      cooked_at: batch.cookedAt.toISOString(),
+    });
+    assertNoError(error, 'Failed to save batch');
+  },
+
+  /** Clears a used-up or discarded batch; its logged portions stay as they are. */
+  async finishBatch(userId: string, batchId: string, finishedAt: Date): Promise<void> {
+    const { error } = await supabase
+      .from('food_batches')
+      .update({ finished_at: finishedAt.toISOString() })
+      .eq('id', batchId)
+      .eq('user_id', userId);
+    assertNoError(error, 'Failed to clear batch');
+  },
+
+  async loadSettings(userId: string): Promise<UserSettings> {
+    const { data, error } = await supabase.from('user_settings').select('*').eq('user_id', userId).maybeSingle();
+    assertNoError(error, 'Failed to load settings');
+    return mapSettingsRow(data);
+  },
+
+  async upsertSettings(userId: string, settings: UserSettings): Promise<void> {
+    const { error } = await supabase.from('user_settings').upsert({
+      user_id: userId,
+      review_before_save: settings.reviewBeforeSave,
+    });
+    assertNoError(error, 'Failed to save settings');
+  },
+
   async importSnapshot(userId: string, snapshot: NutritionSnapshot): Promise<void> {
     if (snapshot.meals.length > 0) {
       const { error } = await supabase.from('meal_groups').upsert(
@@ -187,6 +628,7 @@ export const nutritionRepository = {
           label: meal.label,
           transcript_snippet: meal.transcriptSnippet ?? null,
           created_at: meal.createdAt.toISOString(),
+          meal_type: meal.mealType ?? null,
         })),
         { onConflict: 'id' }
       );
@@ -199,14 +641,8 @@ export const nutritionRepository = {
           id: item.id,
           user_id: userId,
           meal_id: item.mealId,
-          name: item.name,
-          quantity: item.quantity,
-          calories: item.calories,
-          protein: item.protein,
-          carbs: item.carbs,
-          fat: item.fat,
-          fiber: item.fiber,
-          micronutrients: item.micronutrients ?? null,
+          ...toEstimateColumns(item),
+          ...toLinkColumns(item),
           timestamp: item.timestamp.toISOString(),
         })),
         { onConflict: 'id' }
@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_TESTING_MODE?: string;
+  readonly VITE_LLM_FIXTURE?: string;
   readonly VITE_SUPABASE_URL?: string;
   readonly VITE_SUPABASE_ANON_KEY?: string;
   readonly VITE_AUTH_REDIRECT_URL?: string;
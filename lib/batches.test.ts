@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { FoodBatch } from '../types';
+import { batchPortion } from './batches';
+import type { FoodQuantity } from './units';
+
+const batch = (name: string, quantity: FoodQuantity): FoodBatch => ({
+  id: 'batch-1',
+  name,
+  quantity,
+  calories: 1200,
+  protein: 30,
+  carbs: 240,
+  fat: 6,
+  fiber: 6,
+  cookedAt: new Date('2026-10-18T19:00:00Z'),
+});
+
+const rice = batch('cooked rice', { amount: 900, unit: 'g', grams: 900 });
+const stew = batch('bean stew', { amount: 6, unit: 'serving' });
+const muffins = batch('muffins', { amount: 12, unit: 'piece' });
+
+describe('batchPortion', () => {
+  it('scales a portion in the batch unit', () => {
+    expect(batchPortion(rice, '200 g')).toMatchObject({ factor: 200 / 900, amount: 200 });
+    expect(batchPortion(stew, '1 serving')).toMatchObject({ factor: 1 / 6, amount: 1 });
+  });
+
+  it('takes a fraction alone as a share of the batch', () => {
+    expect(batchPortion(rice, '1/3')).toEqual({
+      quantity: { amount: 300, unit: 'g', grams: 300 },
+      factor: 1 / 3,
+      amount: 300,
+    });
+    expect(batchPortion(stew, '1/3')).toMatchObject({ factor: 1 / 3, amount: 2 });
+    expect(batchPortion(stew, 'half')).toMatchObject({ factor: 0.5, amount: 3 });
+    expect(batchPortion(muffins, '1/2')).toMatchObject({ factor: 0.5, amount: 6 });
+  });
+
+  it.each([
+    ['2', 2],
+    ['0.5', 0.5],
+    ['1.5', 1.5],
+    ['1 1/2', 1.5],
+  ])('counts servings for the number "%s" alone', (text, servings) => {
+    expect(batchPortion(stew, text)).toMatchObject({ factor: servings / 6, amount: servings });
+  });
+
+  it('counts pieces for a number alone on a batch of pieces', () => {
+    expect(batchPortion(muffins, '2')).toMatchObject({ factor: 2 / 12, amount: 2 });
+  });
+
+  it.each(['1', '0.5', '1.5', '1 1/2'])('rejects the number "%s" alone for a weighed batch', (text) => {
+    expect(batchPortion(rice, text)).toBeNull();
+  });
+
+  it('rejects a portion that does not compare with the batch', () => {
+    expect(batchPortion(rice, '1 bowl')).toBeNull();
+  });
+});
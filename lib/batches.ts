@@ -0,0 +1,53 @@
+import type { FoodBatch, FoodItem, FoodQuantity } from '../types';
+import { parseQuantity, rescaleQuantity, unitKind } from './units';
+
+/** What is left below 1% of the batch counts as used up, so rounding never leaves "0.4 g left". */
+const USED_UP_RATIO = 0.01;
+
+/** A share of the whole batch: a fraction alone ("1/3", "½") or "half" ("meia", "meio"). */
+const SHARE_PATTERN = /^(?:\d+\/\d+|[½¼¾⅓⅔]|half|meia|meio)$/i;
+/** A number alone ("2", "1.5", "1 1/2"), read as servings. */
+const COUNT_PATTERN = /^(?:\d+\s+\d+\/\d+|\d+(?:[.,]\d+)?)$/;
+
+/** Three decimals keep small portions of a batch counted in kg or l exact enough. */
+const roundTo3 = (value: number): number => Math.round(value * 1000) / 1000;
+
+/** Amount left, in the batch's unit: the batch minus every portion still logged from it, never below 0. */
+export function batchRemaining(batch: FoodBatch, items: FoodItem[]): number {
+  const eaten = items.reduce((total, item) => (item.batchId === batch.id ? total + (item.batchAmount ?? 0) : total), 0);
+  return Math.max(0, roundTo3(batch.quantity.amount - eaten));
+}
+
+export const isBatchUsedUp = (batch: FoodBatch, remaining: number): boolean =>
+  remaining <= batch.quantity.amount * USED_UP_RATIO;
+
+/** A portion: its quantity, the factor to scale the whole batch by, and the amount in the batch's unit. */
+type BatchPortion = { quantity: FoodQuantity; factor: number; amount: number };
+
+function scaleBatch(batch: FoodBatch, factor: number): BatchPortion {
+  const { amount, unit, grams } = batch.quantity;
+  const quantity = { amount: roundTo3(amount * factor), unit, ...(grams ? { grams: roundTo3(grams * factor) } : {}) };
+  return { quantity, factor, amount: quantity.amount };
+}
+
+/**
+ * A portion said as free text ("200 g", "1 serving", "1/3"). A fraction alone is a share of the batch; a
+ * number alone counts the batch's own unit (servings, bowls, pieces), so it needs a batch that is counted,
+ * not weighed. Null when it has no amount or cannot be compared with the batch ("1 bowl" of a batch weighed
+ * in grams).
+ */
+export function batchPortion(batch: FoodBatch, text: string): BatchPortion | null {
+  const trimmed = text.trim();
+  if (SHARE_PATTERN.test(trimmed)) {
+    const share = parseQuantity(trimmed);
+    return share ? scaleBatch(batch, share.amount) : null;
+  }
+  if (COUNT_PATTERN.test(trimmed)) {
+    const count = parseQuantity(trimmed);
+    if (!count || unitKind(batch.quantity.unit) !== 'count') return null;
+    return scaleBatch(batch, count.amount / batch.quantity.amount);
+  }
+  const rescaled = rescaleQuantity(batch.quantity, text, batch.name);
+  if (!rescaled || !Number.isFinite(rescaled.factor) || rescaled.factor <= 0) return null;
+  return { ...rescaled, amount: roundTo3(rescaled.factor * batch.quantity.amount) };
+}
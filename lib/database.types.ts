@@ -10,6 +10,8 @@ export interface Database {
           label: string;
           transcript_snippet: string | null;
           created_at: string;
+          meal_type: string | null;
+          is_favorite: boolean;
         };
         Insert: {
           id?: string;
@@ -17,6 +19,8 @@ export interface Database {
           label: string;
           transcript_snippet?: string | null;
           created_at?: string;
+          meal_type?: string | null;
+          is_favorite?: boolean;
         };
         Update: {
           id?: string;
@@ -24,6 +28,8 @@ export interface Database {
           label?: string;
           transcript_snippet?: string | null;
           created_at?: string;
+          meal_type?: string | null;
+          is_favorite?: boolean;
         };
         Relationships: [
           {
@@ -46,7 +52,28 @@ export interface Database {
           carbs: number;
           fat: number;
           fiber: number;
+          sodium: number | null;
+          added_sugar: number | null;
+          saturated_fat: number | null;
           micronutrients: string | null;
+          consistency_score: number | null;
+          flag_reason: string | null;
+          confidence: number | null;
+          portion_grams: number | null;
+          assumptions: string | null;
+          clarification_question: string | null;
+          clarification_options: string[] | null;
+          nutrient_source: string | null;
+          source_ref: string | null;
+          quantity_amount: number | null;
+          quantity_unit: string | null;
+          quantity_grams: number | null;
+          micronutrient_values: Json | null;
+          original_estimate: Json | null;
+          corrected_at: string | null;
+          recipe_id: string | null;
+          batch_id: string | null;
+          batch_amount: number | null;
           timestamp: string;
         };
         Insert: {
@@ -60,7 +87,28 @@ export interface Database {
           carbs: number;
           fat: number;
           fiber: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
           micronutrients?: string | null;
+          consistency_score?: number | null;
+          flag_reason?: string | null;
+          confidence?: number | null;
+          portion_grams?: number | null;
+          assumptions?: string | null;
+          clarification_question?: string | null;
+          clarification_options?: string[] | null;
+          nutrient_source?: string | null;
+          source_ref?: string | null;
+          quantity_amount?: number | null;
+          quantity_unit?: string | null;
+          quantity_grams?: number | null;
+          micronutrient_values?: Json | null;
+          original_estimate?: Json | null;
+          corrected_at?: string | null;
+          recipe_id?: string | null;
+          batch_id?: string | null;
+          batch_amount?: number | null;
           timestamp?: string;
         };
         Update: {
@@ -74,7 +122,28 @@ export interface Database {
           carbs?: number;
           fat?: number;
           fiber?: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
           micronutrients?: string | null;
+          consistency_score?: number | null;
+          flag_reason?: string | null;
+          confidence?: number | null;
+          portion_grams?: number | null;
+          assumptions?: string | null;
+          clarification_question?: string | null;
+          clarification_options?: string[] | null;
+          nutrient_source?: string | null;
+          source_ref?: string | null;
+          quantity_amount?: number | null;
+          quantity_unit?: string | null;
+          quantity_grams?: number | null;
+          micronutrient_values?: Json | null;
+          original_estimate?: Json | null;
+          corrected_at?: string | null;
+          recipe_id?: string | null;
+          batch_id?: string | null;
+          batch_amount?: number | null;
           timestamp?: string;
         };
         Relationships: [
@@ -92,6 +161,58 @@ export interface Database {
           },
         ];
       };
+      api_usage: {
+        Row: {
+          id: number;
+          user_id: string;
+          endpoint: string;
+          created_at: string;
+          provider: string | null;
+          model: string | null;
+          prompt_tokens: number | null;
+          output_tokens: number | null;
+          audio_tokens: number | null;
+          image_tokens: number | null;
+          total_tokens: number | null;
+          cost_usd: number | null;
+        };
+        Insert: {
+          id?: never;
+          user_id: string;
+          endpoint: string;
+          created_at?: string;
+          provider?: string | null;
+          model?: string | null;
+          prompt_tokens?: number | null;
+          output_tokens?: number | null;
+          audio_tokens?: number | null;
+          image_tokens?: number | null;
+          total_tokens?: number | null;
+          cost_usd?: number | null;
+        };
+        Update: {
+          id?: never;
+          user_id?: string;
+          endpoint?: string;
+          created_at?: string;
+          provider?: string | null;
+          model?: string | null;
+          prompt_tokens?: number | null;
+          output_tokens?: number | null;
+          audio_tokens?: number | null;
+          image_tokens?: number | null;
+          total_tokens?: number | null;
+          cost_usd?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'api_usage_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       nutrition_goals: {
         Row: {
           user_id: string;
@@ -100,6 +221,13 @@ export interface Database {
           carbs: number | null;
           fat: number | null;
           fiber: number | null;
+          sodium: number | null;
+          added_sugar: number | null;
+          saturated_fat: number | null;
+          micronutrients: Json | null;
+          dri_sex: string | null;
+          dri_age: number | null;
+          water_ml: number | null;
           updated_at: string;
         };
         Insert: {
@@ -109,6 +237,13 @@ export interface Database {
           carbs?: number | null;
           fat?: number | null;
           fiber?: number | null;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          micronutrients?: Json | null;
+          dri_sex?: string | null;
+          dri_age?: number | null;
+          water_ml?: number | null;
           updated_at?: string;
         };
         Update: {
@@ -118,6 +253,13 @@ export interface Database {
           carbs?: number | null;
           fat?: number | null;
           fiber?: number | null;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          micronutrients?: Json | null;
+          dri_sex?: string | null;
+          dri_age?: number | null;
+          water_ml?: number | null;
           updated_at?: string;
         };
         Relationships: [
@@ -129,9 +271,365 @@ export interface Database {
           },
         ];
       };
+      custom_foods: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          aliases: string[];
+          serving: string;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          fiber: number;
+          sodium: number | null;
+          added_sugar: number | null;
+          saturated_fat: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          aliases?: string[];
+          serving?: string;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          fiber: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          aliases?: string[];
+          serving?: string;
+          calories?: number;
+          protein?: number;
+          carbs?: number;
+          fat?: number;
+          fiber?: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'custom_foods_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recipes: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          servings: number;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          fiber: number;
+          sodium: number | null;
+          added_sugar: number | null;
+          saturated_fat: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          servings: number;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          fiber: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          servings?: number;
+          calories?: number;
+          protein?: number;
+          carbs?: number;
+          fat?: number;
+          fiber?: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recipes_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recipe_ingredients: {
+        Row: {
+          id: string;
+          recipe_id: string;
+          user_id: string;
+          position: number;
+          name: string;
+          quantity: string;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          fiber: number;
+          sodium: number | null;
+          added_sugar: number | null;
+          saturated_fat: number | null;
+          micronutrient_values: Json;
+        };
+        Insert: {
+          id?: string;
+          recipe_id: string;
+          user_id: string;
+          position?: number;
+          name: string;
+          quantity: string;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          fiber: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          micronutrient_values?: Json;
+        };
+        Update: {
+          id?: string;
+          recipe_id?: string;
+          user_id?: string;
+          position?: number;
+          name?: string;
+          quantity?: string;
+          calories?: number;
+          protein?: number;
+          carbs?: number;
+          fat?: number;
+          fiber?: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          micronutrient_values?: Json;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recipe_ingredients_recipe_id_fkey';
+            columns: ['recipe_id'];
+            referencedRelation: 'recipes';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      food_batches: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          recipe_id: string | null;
+          quantity_amount: number;
+          quantity_unit: string;
+          quantity_grams: number | null;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          fiber: number;
+          sodium: number | null;
+          added_sugar: number | null;
+          saturated_fat: number | null;
+          micronutrient_values: Json;
+          cooked_at: string;
+          finished_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          recipe_id?: string | null;
+          quantity_amount: number;
+          quantity_unit: string;
+          quantity_grams?: number | null;
+          calories: number;
+          protein: number;
+          carbs: number;
+          fat: number;
+          fiber: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          micronutrient_values?: Json;
+          cooked_at?: string;
+          finished_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          recipe_id?: string | null;
+          quantity_amount?: number;
+          quantity_unit?: string;
+          quantity_grams?: number | null;
+          calories?: number;
+          protein?: number;
+          carbs?: number;
+          fat?: number;
+          fiber?: number;
+          sodium?: number | null;
+          added_sugar?: number | null;
+          saturated_fat?: number | null;
+          micronutrient_values?: Json;
+          cooked_at?: string;
+          finished_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'food_batches_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'food_batches_recipe_id_fkey';
+            columns: ['recipe_id'];
+            referencedRelation: 'recipes';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      water_logs: {
+        Row: {
+          id: string;
+          user_id: string;
+          volume_ml: number;
+          drink: string | null;
+          timestamp: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          volume_ml: number;
+          drink?: string | null;
+          timestamp?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          volume_ml?: number;
+          drink?: string | null;
+          timestamp?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'water_logs_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_settings: {
+        Row: {
+          user_id: string;
+          review_before_save: boolean;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          review_before_save?: boolean;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          review_before_save?: boolean;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_settings_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      monthly_api_usage: {
+        Row: {
+          user_id: string;
+          month: string;
+          requests: number;
+          prompt_tokens: number;
+          output_tokens: number;
+          audio_tokens: number;
+          image_tokens: number;
+          total_tokens: number;
+          cost_usd: number;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      consume_api_quota: {
+        Args: {
+          p_user_id: string;
+          p_endpoint: string;
+          p_per_minute: number;
+          p_per_day: number;
+        };
+        Returns: {
+          allowed: boolean;
+          minute_used: number;
+          day_used: number;
+          retry_after_seconds: number;
+          usage_id: number | null;
+        }[];
+      };
+      save_recipe: {
+        Args: {
+          p_recipe: Json;
+          p_ingredients: Json;
+        };
+        Returns: undefined;
+      };
     };
-    Views: Record<string, never>;
-    Functions: Record<string, never>;
     Enums: Record<string, never>;
     CompositeTypes: Record<string, never>;
   };
@@ -0,0 +1,69 @@
+import type { MicronutrientKey } from './micronutrients';
+
+/**
+ * Dietary Reference Intakes (National Academies; RDA, or AI where no RDA exists) used as default
+ * micronutrient goals. Units match MICRONUTRIENT_UNITS. Pregnancy and lactation are not covered; the
+ * user can still edit every value.
+ */
+
+export type DriSex = 'female' | 'male';
+
+/** Who the recommended targets are for; kept with the goals so the form can show it again. */
+export interface DriProfile {
+  sex: DriSex;
+  age: number;
+}
+
+export const DRI_MIN_AGE = 14;
+export const DRI_MAX_AGE = 120;
+
+/** 14–18, 19–30, 31–50, 51–70, 71+ */
+type AgeGroupValues = [number, number, number, number, number];
+
+const DRI_TABLE: Record<MicronutrientKey, Record<DriSex, AgeGroupValues>> = {
+  vitamin_a: { male: [900, 900, 900, 900, 900], female: [700, 700, 700, 700, 700] },
+  vitamin_c: { male: [75, 90, 90, 90, 90], female: [65, 75, 75, 75, 75] },
+  vitamin_d: { male: [15, 15, 15, 15, 20], female: [15, 15, 15, 15, 20] },
+  vitamin_e: { male: [15, 15, 15, 15, 15], female: [15, 15, 15, 15, 15] },
+  vitamin_k: { male: [75, 120, 120, 120, 120], female: [75, 90, 90, 90, 90] },
+  thiamin: { male: [1.2, 1.2, 1.2, 1.2, 1.2], female: [1, 1.1, 1.1, 1.1, 1.1] },
+  riboflavin: { male: [1.3, 1.3, 1.3, 1.3, 1.3], female: [1, 1.1, 1.1, 1.1, 1.1] },
+  niacin: { male: [16, 16, 16, 16, 16], female: [14, 14, 14, 14, 14] },
+  vitamin_b6: { male: [1.3, 1.3, 1.3, 1.7, 1.7], female: [1.2, 1.3, 1.3, 1.5, 1.5] },
+  folate: { male: [400, 400, 400, 400, 400], female: [400, 400, 400, 400, 400] },
+  vitamin_b12: { male: [2.4, 2.4, 2.4, 2.4, 2.4], female: [2.4, 2.4, 2.4, 2.4, 2.4] },
+  calcium: { male: [1300, 1000, 1000, 1000, 1200], female: [1300, 1000, 1000, 1200, 1200] },
+  iron: { male: [11, 8, 8, 8, 8], female: [15, 18, 18, 8, 8] },
+  magnesium: { male: [410, 400, 420, 420, 420], female: [360, 310, 320, 320, 320] },
+  phosphorus: { male: [1250, 700, 700, 700, 700], female: [1250, 700, 700, 700, 700] },
+  potassium: { male: [3000, 3400, 3400, 3400, 3400], female: [2300, 2600, 2600, 2600, 2600] },
+  zinc: { male: [11, 11, 11, 11, 11], female: [9, 8, 8, 8, 8] },
+  selenium: { male: [55, 55, 55, 55, 55], female: [55, 55, 55, 55, 55] },
+};
+
+const ageGroupIndex = (age: number): number => {
+  if (age <= 18) return 0;
+  if (age <= 30) return 1;
+  if (age <= 50) return 2;
+  if (age <= 70) return 3;
+  return 4;
+};
+
+/** Recommended daily amount of every tracked micronutrient for the profile. */
+export function getDriTargets(profile: DriProfile): Record<MicronutrientKey, number> {
+  const index = ageGroupIndex(profile.age);
+  return Object.fromEntries(
+    (Object.entries(DRI_TABLE) as Array<[MicronutrientKey, Record<DriSex, AgeGroupValues>]>).map(([key, values]) => [
+      key,
+      values[profile.sex][index],
+    ])
+  ) as Record<MicronutrientKey, number>;
+}
+
+/** Valid profile from stored or typed values, else undefined. */
+export const normalizeDriProfile = (sex: unknown, age: unknown): DriProfile | undefined => {
+  if (sex !== 'female' && sex !== 'male') return undefined;
+  const years = typeof age === 'number' ? Math.round(age) : NaN;
+  if (!Number.isFinite(years) || years < DRI_MIN_AGE || years > DRI_MAX_AGE) return undefined;
+  return { sex, age: years };
+};
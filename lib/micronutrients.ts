@@ -0,0 +1,226 @@
+/**
+ * Typed micronutrients, shared by the API (log_food schema and validation) and the client (scaling,
+ * daily totals, display). Each nutrient has one canonical unit; amounts in another mass unit are
+ * converted on the way in, so stored maps can be summed and scaled directly.
+ */
+
+export const MICRONUTRIENT_KEYS = [
+  'vitamin_a',
+  'vitamin_c',
+  'vitamin_d',
+  'vitamin_e',
+  'vitamin_k',
+  'thiamin',
+  'riboflavin',
+  'niacin',
+  'vitamin_b6',
+  'folate',
+  'vitamin_b12',
+  'calcium',
+  'iron',
+  'magnesium',
+  'phosphorus',
+  'potassium',
+  'zinc',
+  'selenium',
+] as const;
+
+export type MicronutrientKey = (typeof MICRONUTRIENT_KEYS)[number];
+export type MicronutrientUnit = 'mg' | 'mcg';
+
+export interface MicronutrientAmount {
+  amount: number;
+  unit: MicronutrientUnit;
+}
+
+/** Nutrient → amount in its canonical unit; nutrients the food does not report are absent. */
+export type Micronutrients = Partial<Record<MicronutrientKey, MicronutrientAmount>>;
+
+export const MICRONUTRIENT_UNITS: Record<MicronutrientKey, MicronutrientUnit> = {
+  vitamin_a: 'mcg',
+  vitamin_c: 'mg',
+  vitamin_d: 'mcg',
+  vitamin_e: 'mg',
+  vitamin_k: 'mcg',
+  thiamin: 'mg',
+  riboflavin: 'mg',
+  niacin: 'mg',
+  vitamin_b6: 'mg',
+  folate: 'mcg',
+  vitamin_b12: 'mcg',
+  calcium: 'mg',
+  iron: 'mg',
+  magnesium: 'mg',
+  phosphorus: 'mg',
+  potassium: 'mg',
+  zinc: 'mg',
+  selenium: 'mcg',
+};
+
+export const MICRONUTRIENT_LABELS: Record<MicronutrientKey, { 'en-US': string; 'pt-BR': string }> = {
+  vitamin_a: { 'en-US': 'Vitamin A', 'pt-BR': 'Vitamina A' },
+  vitamin_c: { 'en-US': 'Vitamin C', 'pt-BR': 'Vitamina C' },
+  vitamin_d: { 'en-US': 'Vitamin D', 'pt-BR': 'Vitamina D' },
+  vitamin_e: { 'en-US': 'Vitamin E', 'pt-BR': 'Vitamina E' },
+  vitamin_k: { 'en-US': 'Vitamin K', 'pt-BR': 'Vitamina K' },
+  thiamin: { 'en-US': 'Thiamin (B1)', 'pt-BR': 'Tiamina (B1)' },
+  riboflavin: { 'en-US': 'Riboflavin (B2)', 'pt-BR': 'Riboflavina (B2)' },
+  niacin: { 'en-US': 'Niacin (B3)', 'pt-BR': 'Niacina (B3)' },
+  vitamin_b6: { 'en-US': 'Vitamin B6', 'pt-BR': 'Vitamina B6' },
+  folate: { 'en-US': 'Folate', 'pt-BR': 'Folato' },
+  vitamin_b12: { 'en-US': 'Vitamin B12', 'pt-BR': 'Vitamina B12' },
+  calcium: { 'en-US': 'Calcium', 'pt-BR': 'Calcio' },
+  iron: { 'en-US': 'Iron', 'pt-BR': 'Ferro' },
+  magnesium: { 'en-US': 'Magnesium', 'pt-BR': 'Magnesio' },
+  phosphorus: { 'en-US': 'Phosphorus', 'pt-BR': 'Fosforo' },
+  potassium: { 'en-US': 'Potassium', 'pt-BR': 'Potassio' },
+  zinc: { 'en-US': 'Zinc', 'pt-BR': 'Zinco' },
+  selenium: { 'en-US': 'Selenium', 'pt-BR': 'Selenio' },
+};
+
+/** Names the model or an old free-text entry may use, unaccented and lowercase. */
+const NAME_ALIASES: Record<string, MicronutrientKey> = {
+  'vitamin a': 'vitamin_a', 'vitamina a': 'vitamin_a', retinol: 'vitamin_a',
+  'vitamin c': 'vitamin_c', 'vitamina c': 'vitamin_c',
+  'vitamin d': 'vitamin_d', 'vitamina d': 'vitamin_d',
+  'vitamin e': 'vitamin_e', 'vitamina e': 'vitamin_e',
+  'vitamin k': 'vitamin_k', 'vitamina k': 'vitamin_k',
+  thiamin: 'thiamin', thiamine: 'thiamin', tiamina: 'thiamin', 'vitamin b1': 'thiamin', 'vitamina b1': 'thiamin',
+  riboflavin: 'riboflavin', riboflavina: 'riboflavin', 'vitamin b2': 'riboflavin', 'vitamina b2': 'riboflavin',
+  niacin: 'niacin', niacina: 'niacin', 'vitamin b3': 'niacin', 'vitamina b3': 'niacin',
+  'vitamin b6': 'vitamin_b6', 'vitamina b6': 'vitamin_b6',
+  folate: 'folate', folato: 'folate', 'folic acid': 'folate', 'acido folico': 'folate', 'vitamin b9': 'folate',
+  'vitamin b12': 'vitamin_b12', 'vitamina b12': 'vitamin_b12',
+  calcium: 'calcium', calcio: 'calcium',
+  iron: 'iron', ferro: 'iron',
+  magnesium: 'magnesium', magnesio: 'magnesium',
+  phosphorus: 'phosphorus', fosforo: 'phosphorus',
+  potassium: 'potassium', potassio: 'potassium',
+  zinc: 'zinc', zinco: 'zinc',
+  selenium: 'selenium', selenio: 'selenium',
+};
+
+const MG_PER_UNIT: Record<string, number> = { g: 1000, mg: 1, mcg: 0.001, ug: 0.001, 'µg': 0.001, 'μg': 0.001 };
+
+const normalizeName = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const toKey = (name: unknown): MicronutrientKey | null => {
+  if (typeof name !== 'string') return null;
+  if ((MICRONUTRIENT_KEYS as readonly string[]).includes(name)) return name as MicronutrientKey;
+  return NAME_ALIASES[normalizeName(name)] ?? null;
+};
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+/** Amount in the nutrient's canonical unit; an unknown or missing unit is taken as already canonical. */
+const toCanonical = (key: MicronutrientKey, amount: number, unit: unknown): number => {
+  const canonical = MICRONUTRIENT_UNITS[key];
+  const from = typeof unit === 'string' ? MG_PER_UNIT[unit.trim().toLowerCase()] : undefined;
+  if (from === undefined) return amount;
+  return amount * from / MG_PER_UNIT[canonical];
+};
+
+const addAmount = (target: Micronutrients, key: MicronutrientKey, amount: number): void => {
+  if (!Number.isFinite(amount) || amount <= 0) return;
+  const previous = target[key]?.amount ?? 0;
+  target[key] = { amount: roundAmount(previous + amount), unit: MICRONUTRIENT_UNITS[key] };
+};
+
+/** Old free-text values ("Iron 2.5mg, Vitamin C 12 mg"); entries without a known name or amount are dropped. */
+export function parseMicronutrientText(text: string): Micronutrients {
+  const result: Micronutrients = {};
+  for (const part of text.split(/[;\n]+|,(?!\d)/)) {
+    const match = part.trim().match(/^(.*?)[\s:]+(\d+(?:[.,]\d+)?)\s*(mg|mcg|µg|μg|ug|g)?\b/i);
+    if (!match) continue;
+    const key = toKey(match[1]);
+    if (!key) continue;
+    addAmount(result, key, toCanonical(key, Number(match[2].replace(',', '.')), match[3]));
+  }
+  return result;
+}
+
+/**
+ * Typed map from whatever the model, the database or an old client sent: the log_food array
+ * ([{ nutrient, amount, unit }]), a stored map ({ iron: { amount, unit } }) or legacy free text.
+ */
+export function normalizeMicronutrients(value: unknown): Micronutrients {
+  if (typeof value === 'string') return parseMicronutrientText(value);
+  const result: Micronutrients = {};
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      if (!entry || typeof entry !== 'object') continue;
+      const { nutrient, amount, unit } = entry as Record<string, unknown>;
+      const key = toKey(nutrient);
+      if (key && typeof amount === 'number') addAmount(result, key, toCanonical(key, amount, unit));
+    }
+    return result;
+  }
+  if (value && typeof value === 'object') {
+    for (const [name, entry] of Object.entries(value as Record<string, unknown>)) {
+      const key = toKey(name);
+      if (!key) continue;
+      if (typeof entry === 'number') addAmount(result, key, entry);
+      else if (entry && typeof entry === 'object') {
+        const { amount, unit } = entry as Record<string, unknown>;
+        if (typeof amount === 'number') addAmount(result, key, toCanonical(key, amount, unit));
+      }
+    }
+  }
+  return result;
+}
+
+export function scaleMicronutrients(micronutrients: Micronutrients, factor: number): Micronutrients {
+  const result: Micronutrients = {};
+  for (const [key, value] of Object.entries(micronutrients) as Array<[MicronutrientKey, MicronutrientAmount]>) {
+    addAmount(result, key, value.amount * factor);
+  }
+  return result;
+}
+
+export function sumMicronutrients(list: Array<Micronutrients | undefined>): Micronutrients {
+  const result: Micronutrients = {};
+  for (const micronutrients of list) {
+    if (!micronutrients) continue;
+    for (const [key, value] of Object.entries(micronutrients) as Array<[MicronutrientKey, MicronutrientAmount]>) {
+      addAmount(result, key, value.amount);
+    }
+  }
+  return result;
+}
+
+/** Present nutrients in MICRONUTRIENT_KEYS order, for display. */
+export const listMicronutrients = (
+  micronutrients: Micronutrients | undefined
+): Array<{ key: MicronutrientKey } & MicronutrientAmount> =>
+  MICRONUTRIENT_KEYS.flatMap((key) => {
+    const value = micronutrients?.[key];
+    return value ? [{ key, ...value }] : [];
+  });
+
+export const formatMicronutrientAmount = ({ amount, unit }: MicronutrientAmount): string => {
+  const rounded = amount >= 10 ? Math.round(amount) : Math.round(amount * 10) / 10;
+  return `${rounded} ${unit}`;
+};
+
+/** Daily targets per nutrient in canonical units, as stored with the goals. */
+export type MicronutrientGoals = Partial<Record<MicronutrientKey, number>>;
+
+/** Known nutrients with a positive number; anything else in a stored goals object is dropped. */
+export function normalizeMicronutrientGoals(value: unknown): MicronutrientGoals {
+  const result: MicronutrientGoals = {};
+  if (!value || typeof value !== 'object') return result;
+  for (const [key, target] of Object.entries(value as Record<string, unknown>)) {
+    if (!(MICRONUTRIENT_KEYS as readonly string[]).includes(key)) continue;
+    if (typeof target === 'number' && Number.isFinite(target) && target > 0) {
+      result[key as MicronutrientKey] = target;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { Recipe, RecipeIngredient } from '../types';
+import { perServing, sumRecipe } from './recipes';
+
+const ingredient = (name: string, calories: number, micronutrients: RecipeIngredient['micronutrients']): RecipeIngredient => ({
+  id: name,
+  name,
+  quantity: '1 cup',
+  calories,
+  protein: 5,
+  carbs: 20,
+  fat: 2,
+  fiber: 3,
+  micronutrients,
+});
+
+const beans = ingredient('beans', 230, { iron: { amount: 4, unit: 'mg' }, potassium: { amount: 600, unit: 'mg' } });
+const rice = ingredient('rice', 200, { iron: { amount: 2, unit: 'mg' } });
+const stew: Recipe = { id: 'stew', name: 'Bean stew', servings: 4, ingredients: [beans, rice] };
+
+describe('sumRecipe', () => {
+  it('sums micronutrients with the macros', () => {
+    expect(sumRecipe(stew.ingredients)).toMatchObject({
+      calories: 430,
+      micronutrients: { iron: { amount: 6, unit: 'mg' }, potassium: { amount: 600, unit: 'mg' } },
+    });
+  });
+});
+
+describe('perServing', () => {
+  it('scales micronutrients to the servings', () => {
+    expect(perServing(stew, 2).micronutrients).toEqual({
+      iron: { amount: 3, unit: 'mg' },
+      potassium: { amount: 300, unit: 'mg' },
+    });
+  });
+});
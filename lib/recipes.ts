@@ -0,0 +1,71 @@
+import type { Recipe, RecipeIngredient } from '../types';
+import { scaleMicronutrients, sumMicronutrients } from './micronutrients';
+
+/** Batch or per-serving nutrition of a recipe; the limit nutrients are absent unless an ingredient has them. */
+export type RecipeNutrition = Pick<
+  RecipeIngredient,
+  'calories' | 'protein' | 'carbs' | 'fat' | 'fiber' | 'sodium' | 'addedSugar' | 'saturatedFat' | 'micronutrients'
+>;
+
+const roundTo1 = (value: number): number => Math.round(value * 10) / 10;
+
+const sumOptional = (ingredients: RecipeIngredient[], key: 'sodium' | 'addedSugar' | 'saturatedFat'): number | undefined =>
+  ingredients.some((ingredient) => ingredient[key] != null)
+    ? ingredients.reduce((total, ingredient) => total + (ingredient[key] ?? 0), 0)
+    : undefined;
+
+/** Whole-batch totals (stored on the recipes row so the API can log a serving without the ingredients). */
+export function sumRecipe(ingredients: RecipeIngredient[]): RecipeNutrition {
+  const sum = (key: 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber') =>
+    ingredients.reduce((total, ingredient) => total + ingredient[key], 0);
+  const sodium = sumOptional(ingredients, 'sodium');
+  const addedSugar = sumOptional(ingredients, 'addedSugar');
+  const saturatedFat = sumOptional(ingredients, 'saturatedFat');
+  return {
+    calories: Math.round(sum('calories')),
+    protein: roundTo1(sum('protein')),
+    carbs: roundTo1(sum('carbs')),
+    fat: roundTo1(sum('fat')),
+    fiber: roundTo1(sum('fiber')),
+    sodium: sodium != null ? Math.round(sodium) : undefined,
+    addedSugar: addedSugar != null ? roundTo1(addedSugar) : undefined,
+    saturatedFat: saturatedFat != null ? roundTo1(saturatedFat) : undefined,
+    micronutrients: sumMicronutrients(ingredients.map((ingredient) => ingredient.micronutrients)),
+  };
+}
+
+/** Nutrition of `servings` servings (default one), rounded like logged foods. */
+export function perServing(recipe: Recipe, servings = 1): RecipeNutrition {
+  const totals = sumRecipe(recipe.ingredients);
+  const factor = recipe.servings > 0 ? servings / recipe.servings : 0;
+  const scale = (value: number | undefined) => (value != null ? roundTo1(value * factor) : undefined);
+  return {
+    calories: Math.round(totals.calories * factor),
+    protein: roundTo1(totals.protein * factor),
+    carbs: roundTo1(totals.carbs * factor),
+    fat: roundTo1(totals.fat * factor),
+    fiber: roundTo1(totals.fiber * factor),
+    sodium: totals.sodium != null ? Math.round(totals.sodium * factor) : undefined,
+    addedSugar: scale(totals.addedSugar),
+    saturatedFat: scale(totals.saturatedFat),
+    micronutrients: scaleMicronutrients(totals.micronutrients ?? {}, factor),
+  };
+}
+
+/** An ingredient from a logged or estimated food, with a fresh id. */
+export function toRecipeIngredient(food: Omit<RecipeIngredient, 'id'>): RecipeIngredient {
+  return {
+    id: crypto.randomUUID(),
+    name: food.name,
+    quantity: food.quantity,
+    calories: food.calories,
+    protein: food.protein,
+    carbs: food.carbs,
+    fat: food.fat,
+    fiber: food.fiber ?? 0,
+    sodium: food.sodium,
+    addedSugar: food.addedSugar,
+    saturatedFat: food.saturatedFat,
+    micronutrients: food.micronutrients,
+  };
+}
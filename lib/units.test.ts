@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuantity, rescaleQuantity, resolveQuantity, toGrams } from './units';
+
+describe('parseQuantity', () => {
+  it.each([
+    ['200g', { amount: 200, unit: 'g' }],
+    ['1 1/2 cups', { amount: 1.5, unit: 'cup' }],
+    ['½ xícara', { amount: 0.5, unit: 'cup' }],
+    ['2 colheres de sopa', { amount: 2, unit: 'tbsp' }],
+    ['a slice', { amount: 1, unit: 'slice' }],
+    ['2 medium', { amount: 2, unit: 'piece' }],
+  ])('reads "%s"', (text, expected) => {
+    expect(parseQuantity(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['2-3 slices', { amount: 2.5, unit: 'slice' }],
+    ['2 - 3 slices', { amount: 2.5, unit: 'slice' }],
+    ['1 to 2 cups', { amount: 1.5, unit: 'cup' }],
+    ['2 a 3 fatias', { amount: 2.5, unit: 'slice' }],
+    ['100-150 g', { amount: 125, unit: 'g' }],
+  ])('takes the midpoint of the range "%s" and keeps its unit', (text, expected) => {
+    expect(parseQuantity(text)).toEqual(expected);
+  });
+
+  it('returns null without an amount', () => {
+    expect(parseQuantity('some rice')).toBeNull();
+  });
+});
+
+describe('resolveQuantity', () => {
+  it('prefers a weight stated in brackets', () => {
+    expect(resolveQuantity('1 cup (158 g)', 'cooked rice')).toEqual({ amount: 1, unit: 'cup', grams: 158 });
+  });
+
+  it('converts household units through the food profile', () => {
+    expect(toGrams(2, 'piece', 'boiled egg')).toBe(100);
+    expect(resolveQuantity('2-3 slices', 'bread')).toEqual({ amount: 2.5, unit: 'slice', grams: 75 });
+  });
+});
+
+describe('rescaleQuantity', () => {
+  it('scales by amount in the same unit', () => {
+    const rescaled = rescaleQuantity({ amount: 2, unit: 'piece', grams: 100 }, '3', 'egg');
+    expect(rescaled).toEqual({ quantity: { amount: 3, unit: 'piece', grams: 150 }, factor: 1.5 });
+  });
+
+  it('goes through grams across units', () => {
+    expect(rescaleQuantity({ amount: 1, unit: 'piece', grams: 50 }, '100 g', 'egg')?.factor).toBe(2);
+  });
+
+  it('returns null when the quantities do not compare', () => {
+    expect(rescaleQuantity({ amount: 1, unit: 'bowl' }, '2 cups', 'soup')).toBeNull();
+  });
+});
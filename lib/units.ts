@@ -0,0 +1,253 @@
+/**
+ * Quantity parsing and unit conversion, shared by the client (rescaling an edited quantity) and the API
+ * (grams for the food database). Mass converts directly, volume through a per-food density and household
+ * units (slice, piece) through a per-food weight. Whatever cannot be converted keeps grams unset.
+ */
+
+export type MassUnit = 'g' | 'kg' | 'oz' | 'lb';
+export type VolumeUnit = 'ml' | 'l' | 'tsp' | 'tbsp' | 'cup' | 'fl_oz' | 'glass';
+export type CountUnit = 'piece' | 'slice' | 'serving' | 'bowl' | 'plate';
+export type QuantityUnit = MassUnit | VolumeUnit | CountUnit;
+
+export const QUANTITY_UNITS: QuantityUnit[] = [
+  'g', 'kg', 'oz', 'lb',
+  'ml', 'l', 'tsp', 'tbsp', 'cup', 'fl_oz', 'glass',
+  'piece', 'slice', 'serving', 'bowl', 'plate',
+];
+
+/** Structured form of a food's free-text quantity. */
+export interface FoodQuantity {
+  amount: number;
+  unit: QuantityUnit;
+  /** Grams-equivalent of the whole quantity, when it could be worked out. */
+  grams?: number;
+}
+
+const GRAMS_PER_MASS_UNIT: Record<MassUnit, number> = { g: 1, kg: 1000, oz: 28.35, lb: 453.6 };
+
+/** US measures; a Brazilian xicara is the same 240 ml cup. A glass is taken as 250 ml. */
+const ML_PER_VOLUME_UNIT: Record<VolumeUnit, number> = {
+  ml: 1,
+  l: 1000,
+  tsp: 4.93,
+  tbsp: 14.79,
+  cup: 240,
+  fl_oz: 29.57,
+  glass: 250,
+};
+
+/** Spoken and written names per unit, unaccented. Multi-word names are matched before single words. */
+const UNIT_ALIASES: Record<QuantityUnit, string[]> = {
+  g: ['g', 'gr', 'gram', 'grams', 'grama', 'gramas'],
+  kg: ['kg', 'kilo', 'kilos', 'kilogram', 'kilograms', 'quilo', 'quilos', 'quilograma', 'quilogramas'],
+  oz: ['oz', 'ounce', 'ounces', 'onca', 'oncas'],
+  lb: ['lb', 'lbs', 'pound', 'pounds', 'libra', 'libras'],
+  ml: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres', 'mililitro', 'mililitros'],
+  l: ['l', 'liter', 'liters', 'litre', 'litres', 'litro', 'litros'],
+  tsp: ['tsp', 'teaspoon', 'teaspoons', 'colher de cha', 'colheres de cha', 'colherinha', 'colherinhas'],
+  tbsp: ['tbsp', 'tablespoon', 'tablespoons', 'colher de sopa', 'colheres de sopa', 'colher', 'colheres'],
+  cup: ['cup', 'cups', 'xicara', 'xicaras'],
+  fl_oz: ['fl oz', 'fluid ounce', 'fluid ounces'],
+  glass: ['glass', 'glasses', 'copo', 'copos'],
+  piece: ['piece', 'pieces', 'unit', 'units', 'pedaco', 'pedacos', 'unidade', 'unidades'],
+  slice: ['slice', 'slices', 'fatia', 'fatias'],
+  serving: ['serving', 'servings', 'portion', 'portions', 'porcao', 'porcoes'],
+  bowl: ['bowl', 'bowls', 'tigela', 'tigelas'],
+  plate: ['plate', 'plates', 'prato', 'pratos'],
+};
+
+const UNIT_BY_ALIAS = new Map<string, QuantityUnit>(
+  (Object.entries(UNIT_ALIASES) as Array<[QuantityUnit, string[]]>)
+    .flatMap(([unit, aliases]) => aliases.map((alias): [string, QuantityUnit] => [alias, unit]))
+    .sort(([a], [b]) => b.length - a.length)
+);
+
+const WORD_AMOUNTS: Record<string, number> = {
+  a: 1, an: 1, one: 1, um: 1, uma: 1,
+  half: 0.5, meia: 0.5, meio: 0.5,
+  two: 2, dois: 2, duas: 2,
+  three: 3, tres: 3,
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = { '½': ' 1/2', '¼': ' 1/4', '¾': ' 3/4', '⅓': ' 1/3', '⅔': ' 2/3' };
+
+/**
+ * Density (g per ml) and household weights (g per piece / slice) for everyday foods. Keys are unaccented,
+ * singular words; the entry with the longest fully contained key wins ("peanut butter" over "butter").
+ */
+interface FoodProfile {
+  keys: string[];
+  density?: number;
+  pieceGrams?: number;
+  sliceGrams?: number;
+}
+
+const FOOD_PROFILES: FoodProfile[] = [
+  { keys: ['water', 'agua', 'coffee', 'cafe', 'tea', 'cha'], density: 1 },
+  { keys: ['milk', 'leite'], density: 1.03 },
+  { keys: ['juice', 'suco'], density: 1.04 },
+  { keys: ['yogurt', 'iogurte'], density: 1.03, pieceGrams: 170 },
+  { keys: ['olive oil', 'oil', 'azeite', 'oleo'], density: 0.92 },
+  { keys: ['honey', 'mel'], density: 1.42 },
+  { keys: ['sugar', 'acucar'], density: 0.85 },
+  { keys: ['flour', 'farinha'], density: 0.53 },
+  { keys: ['oat', 'aveia'], density: 0.34 },
+  { keys: ['granola'], density: 0.5 },
+  { keys: ['cereal'], density: 0.12 },
+  { keys: ['rice', 'arroz'], density: 0.66 },
+  { keys: ['bean', 'feijao'], density: 0.72 },
+  { keys: ['pasta', 'macarrao', 'spaghetti'], density: 0.58 },
+  { keys: ['butter', 'manteiga'], density: 0.96 },
+  { keys: ['peanut butter', 'pasta de amendoim'], density: 1.08 },
+  { keys: ['bread', 'pao'], pieceGrams: 50, sliceGrams: 30 },
+  { keys: ['pao de queijo'], pieceGrams: 20 },
+  { keys: ['cheese', 'queijo'], density: 0.45, sliceGrams: 20 },
+  { keys: ['ham', 'presunto'], sliceGrams: 15 },
+  { keys: ['pizza'], sliceGrams: 107 },
+  { keys: ['cake', 'bolo'], sliceGrams: 80 },
+  { keys: ['egg', 'ovo'], pieceGrams: 50 },
+  { keys: ['banana'], pieceGrams: 118 },
+  { keys: ['apple', 'maca'], pieceGrams: 182 },
+  { keys: ['orange', 'laranja'], pieceGrams: 131 },
+  { keys: ['tomato', 'tomate'], pieceGrams: 123, sliceGrams: 20 },
+  { keys: ['potato', 'batata'], pieceGrams: 173 },
+  { keys: ['cookie', 'biscoito', 'bolacha'], pieceGrams: 10 },
+  { keys: ['tortilla'], pieceGrams: 45 },
+];
+
+const normalizeText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+const toWords = (text: string): string[] =>
+  normalizeText(text)
+    .split(/[^a-z]+/)
+    .filter(Boolean)
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+const findFoodProfile = (foodName: string): FoodProfile | null => {
+  const words = ` ${toWords(foodName).join(' ')} `;
+  let best: { profile: FoodProfile; length: number } | null = null;
+  for (const profile of FOOD_PROFILES) {
+    for (const key of profile.keys) {
+      if (words.includes(` ${key} `) && (!best || key.length > best.length)) best = { profile, length: key.length };
+    }
+  }
+  return best?.profile ?? null;
+};
+
+const roundTo1 = (value: number): number => Math.round(value * 10) / 10;
+
+const parseNumber = (raw: string): number | null => {
+  const mixed = raw.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[3]) > 0 ? Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]) : null;
+  const fraction = raw.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) > 0 ? Number(fraction[1]) / Number(fraction[2]) : null;
+  const value = Number(raw.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+const AMOUNT_PATTERN = /^(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?)\s*/;
+/** Upper end of a range after the first amount: "2-3 slices", "1 to 2 cups", "2 ou 3 fatias". */
+const RANGE_END_PATTERN = /^(?:-|–|to|or|a|ou)\s*(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?)\s*/;
+
+/**
+ * Amount and unit from a quantity such as "200g", "1 1/2 cups", "2 colheres de sopa" or "a slice".
+ * A range ("2-3 slices") takes its midpoint. A number followed by anything else ("2 medium", "3") counts
+ * pieces; null when there is no amount.
+ */
+export function parseQuantity(text: string): { amount: number; unit: QuantityUnit } | null {
+  let rest = normalizeText(text).trim();
+  for (const [symbol, replacement] of Object.entries(UNICODE_FRACTIONS)) rest = rest.split(symbol).join(replacement);
+  rest = rest.trim();
+
+  let amount: number | null = null;
+  const numeric = rest.match(AMOUNT_PATTERN);
+  if (numeric) {
+    amount = parseNumber(numeric[1]);
+    rest = rest.slice(numeric[0].length);
+    const range = rest.match(RANGE_END_PATTERN);
+    const upper = range ? parseNumber(range[1]) : null;
+    if (range && amount && upper) {
+      amount = (amount + upper) / 2;
+      rest = rest.slice(range[0].length);
+    }
+  } else {
+    const word = rest.match(/^([a-z]+)\s*/);
+    if (word && WORD_AMOUNTS[word[1]] !== undefined) {
+      amount = WORD_AMOUNTS[word[1]];
+      rest = rest.slice(word[0].length);
+    }
+  }
+  if (!amount || amount <= 0) return null;
+  rest = rest.replace(/^(?:a|an|of|de)\s+/, '');
+
+  for (const [alias, unit] of UNIT_BY_ALIAS) {
+    if (rest === alias || (rest.startsWith(alias) && !/[a-z]/.test(rest.charAt(alias.length)))) {
+      return { amount, unit };
+    }
+  }
+  return { amount, unit: 'piece' };
+}
+
+export const unitKind = (unit: QuantityUnit): 'mass' | 'volume' | 'count' =>
+  unit in GRAMS_PER_MASS_UNIT ? 'mass' : unit in ML_PER_VOLUME_UNIT ? 'volume' : 'count';
+
+/** Millilitres for a volume; null for mass and household units, which need a food to convert. */
+export const toMilliliters = (amount: number, unit: QuantityUnit): number | null =>
+  unit in ML_PER_VOLUME_UNIT ? roundTo1(amount * ML_PER_VOLUME_UNIT[unit as VolumeUnit]) : null;
+
+/**
+ * Grams for an amount of a food. Volume without a known density is taken as water (1 g/ml); pieces and
+ * slices need a known weight for the food; servings, bowls and plates never convert.
+ */
+export function toGrams(amount: number, unit: QuantityUnit, foodName: string): number | null {
+  if (unit in GRAMS_PER_MASS_UNIT) return roundTo1(amount * GRAMS_PER_MASS_UNIT[unit as MassUnit]);
+  const profile = findFoodProfile(foodName);
+  if (unit in ML_PER_VOLUME_UNIT) {
+    return roundTo1(amount * ML_PER_VOLUME_UNIT[unit as VolumeUnit] * (profile?.density ?? 1));
+  }
+  const perUnit = unit === 'piece' ? profile?.pieceGrams : unit === 'slice' ? profile?.sliceGrams : undefined;
+  return perUnit ? roundTo1(amount * perUnit) : null;
+}
+
+/**
+ * Structured quantity for a food. Grams come from a weight stated in brackets ("1 cup (158 g)"), else
+ * from the conversion, else from `fallbackGrams` (the model's portion estimate). Null without an amount.
+ */
+export function resolveQuantity(text: string, foodName: string, fallbackGrams?: number): FoodQuantity | null {
+  const parsed = parseQuantity(text);
+  if (!parsed) return null;
+  const stated = normalizeText(text).match(/\((\d+(?:[.,]\d+)?)\s*(g|ml)\)/);
+  const grams =
+    (stated ? parseNumber(stated[1]) : null)
+    ?? toGrams(parsed.amount, parsed.unit, foodName)
+    ?? (fallbackGrams && fallbackGrams > 0 ? fallbackGrams : null);
+  return grams && grams > 0 ? { ...parsed, grams } : parsed;
+}
+
+/**
+ * Quantity after an edit, with the factor to scale the nutrients by. The same unit scales by amount
+ * (keeping the grams-per-unit already known); different units go through grams. Null when the new text has
+ * no amount or the two quantities cannot be compared ("1 bowl" → "2 cups" of an unknown food).
+ */
+export function rescaleQuantity(
+  previous: FoodQuantity,
+  text: string,
+  foodName: string
+): { quantity: FoodQuantity; factor: number } | null {
+  const parsed = parseQuantity(text);
+  if (!parsed) return null;
+  if (parsed.unit === previous.unit) {
+    const factor = parsed.amount / previous.amount;
+    return {
+      quantity: previous.grams ? { ...parsed, grams: roundTo1(previous.grams * factor) } : parsed,
+      factor,
+    };
+  }
+  const grams = toGrams(parsed.amount, parsed.unit, foodName);
+  if (!grams || !previous.grams) return null;
+  return { quantity: { ...parsed, grams }, factor: grams / previous.grams };
+}
@@ -0,0 +1,107 @@
+/**
+ * Local stand-in for the Gemini generateContent API, for developing the real
+ * client -> /api/process-* -> provider -> parse path with no key and no network.
+ *
+ *   npm run mock:llm                      # listens on http://localhost:8787
+ *   GEMINI_BASE_URL=http://localhost:8787 GEMINI_API_KEY=dev npx vercel dev
+ *
+ * Responses come from fixtures/llm/<name>.json. The fixture is chosen by, in order:
+ *   1. the X-Mock-Fixture header (set by the API when the client sends ?fixture=<name>)
+ *   2. the model name in the URL, if a fixture has that name (GEMINI_MODEL=breakfast)
+ *   3. MOCK_GEMINI_FIXTURE, default "breakfast"
+ *
+ * streamGenerateContent?alt=sse is supported too: one SSE chunk per part, MOCK_GEMINI_STREAM_DELAY_MS apart.
+ */
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'llm');
+const PORT = Number(process.env.MOCK_GEMINI_PORT || 8787);
+const DEFAULT_FIXTURE = process.env.MOCK_GEMINI_FIXTURE || 'breakfast';
+const FIXTURE_NAME = /^[a-z0-9-]+$/i;
+const STREAM_DELAY_MS = Number(process.env.MOCK_GEMINI_STREAM_DELAY_MS || 400);
+const ROUTE = /^\/v1beta\/models\/([^/:]+):(generateContent|streamGenerateContent)$/;
+
+const fixturePath = (name) => join(FIXTURES_DIR, `${name}.json`);
+
+const hasFixture = (name) => typeof name === 'string' && FIXTURE_NAME.test(name) && existsSync(fixturePath(name));
+
+const loadFixture = (name) => JSON.parse(readFileSync(fixturePath(name), 'utf8'));
+
+/** Wraps a fixture in the generateContent response shape the Gemini provider parses. */
+/** Plausible usageMetadata for a 7 s recording, so the usage/cost path is exercised offline. */
+const fakeUsage = (partCount) => {
+  const candidatesTokenCount = 40 * partCount;
+  return {
+    promptTokenCount: 424,
+    candidatesTokenCount,
+    totalTokenCount: 424 + candidatesTokenCount,
+    promptTokensDetails: [
+      { modality: 'TEXT', tokenCount: 200 },
+      { modality: 'AUDIO', tokenCount: 224 },
+    ],
+  };
+};
+
+const toGeminiResponse = (fixture) => {
+  const parts = [];
+  if (fixture.transcription) parts.push({ text: fixture.transcription });
+  for (const call of fixture.calls ?? []) {
+    parts.push({ functionCall: { name: call.name, args: call.args } });
+  }
+  return { candidates: [{ content: { role: 'model', parts } }], usageMetadata: fakeUsage(parts.length) };
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Emits each part as its own SSE chunk, like Gemini does for long answers. */
+const sendStream = async (res, body) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  for (const part of body.candidates[0].content.parts) {
+    await sleep(STREAM_DELAY_MS);
+    const chunk = { candidates: [{ content: { role: 'model', parts: [part] } }], usageMetadata: body.usageMetadata };
+    res.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+  }
+  res.end();
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const route = url.pathname.match(ROUTE);
+  if (req.method !== 'POST' || !route) {
+    return sendJson(res, 404, { error: { code: 404, message: `No mock for ${req.method} ${url.pathname}` } });
+  }
+
+  // Drain the body (audio / image payload) before answering; its content is not inspected.
+  req.resume();
+  req.on('end', () => {
+    const headerFixture = req.headers['x-mock-fixture'];
+    const model = decodeURIComponent(route[1]);
+    const isStream = route[2] === 'streamGenerateContent';
+    const name = [headerFixture, model, DEFAULT_FIXTURE].find(hasFixture);
+    if (!name) {
+      return sendJson(res, 404, { error: { code: 404, message: `Unknown fixture (header: ${headerFixture ?? '-'}, model: ${model})` } });
+    }
+
+    const fixture = loadFixture(name);
+    console.log(`[mock-gemini] ${model} -> ${name}`);
+    if (fixture.status && fixture.status !== 200) {
+      return sendJson(res, fixture.status, { error: { code: fixture.status, message: fixture.error ?? 'Mock error' } });
+    }
+    if (isStream) return sendStream(res, toGeminiResponse(fixture));
+    return sendJson(res, 200, toGeminiResponse(fixture));
+  });
+});
+
+server.listen(PORT, () => {
+  const available = readdirSync(FIXTURES_DIR).filter((f) => f.endsWith('.json')).map((f) => f.slice(0, -5));
+  console.log(`[mock-gemini] listening on http://localhost:${PORT} (default fixture: ${DEFAULT_FIXTURE})`);
+  console.log(`[mock-gemini] fixtures: ${available.join(', ')}`);
+});
@@ -0,0 +1,29 @@
+/**
+ * Downscale a camera photo to a JPEG that fits comfortably in a serverless request body.
+ * Phone photos are often 4-12 MB; food recognition does not need more than ~1280px.
+ */
+export async function resizeImageForUpload(
+  file: Blob,
+  maxDimension: number = 1280,
+  quality: number = 0.8
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality));
+    if (!blob) throw new Error('Failed to encode photo');
+    return blob;
+  } finally {
+    bitmap.close();
+  }
+}
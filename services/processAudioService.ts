@@ -1,5 +1,7 @@
 import { float32ToPCM16, buildWavBlob } from './audioUtils';
-import type { FoodItem } from '../types';
+import type { FoodClarification, FoodItem, FoodQuantity, MealType, NutrientSource, QuantityUnit } from '../types';
+import { normalizeMicronutrients } from '../lib/micronutrients';
+import { QUANTITY_UNITS } from '../lib/units';
 
 /** Browser SpeechRecognition (Chrome: webkitSpeechRecognition) for testing mode (no LLM). */
 declare global {
@@ -49,20 +51,114 @@ export interface ApiDebugInfo {
   status: number;
   ok: boolean;
   foodsCount: number;
+  /** Items the server dropped during validation (see RejectedFood). */
+  rejectedCount?: number;
   errorMsg?: string;
   payloadBytes?: number;
   // Timing fields (ms)
   wavMs?: number;
   fetchMs?: number;
   parseMs?: number;
-  serverTiming?: { bodyMs: number; geminiMs: number; parseMs: number; totalMs: number };
+  serverTiming?: { bodyMs: number; llmMs: number; parseMs: number; totalMs: number };
+  /** LLM provider that served the request (gemini, openai, mock). */
+  provider?: string;
+  /** Per-user rate limit left after this call; absent when the server does not enforce one. */
+  quota?: QuotaInfo;
+  /** Vendor-reported tokens and estimated cost of this call. */
+  usage?: TokenUsage;
+}
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  audioTokens: number;
+  imageTokens: number;
+  totalTokens: number;
+  /** USD; null when the server has no price for the model. */
+  costUsd: number | null;
+}
+/** When the user said the food was eaten ("for breakfast yesterday"); absent fields mean "now". */
+export interface FoodPlacement {
+  mealType?: MealType;
+  /** 0 today, -1 yesterday, ... */
+  dayOffset?: number;
+  /** Local "HH:MM". */
+  time?: string;
+}
+/** Already-logged food the server may target with update_food / remove_food. */
+export interface FoodContextItem {
+  id: string;
+  name: string;
+  quantity: string;
+}
+/** Low-confidence food the user is answering a follow-up about; sent instead of the food context. */
+export interface ClarificationRequest {
+  name: string;
+  quantity: string;
+  assumptions?: string;
+  question: string;
+}
+/** Spoken/typed correction resolved by the server ("make that three eggs", "remove the soda"). */
+export interface FoodCorrection {
+  action: 'update' | 'remove';
+  id: string;
+  name: string;
+  /** New quantity for updates. */
+  quantity?: string;
+}
+/** Water the user said they drank (log_water), recorded in the hydration log instead of as a food. */
+export interface LoggedDrink {
+  volumeMl: number;
+  drink: string;
+}
+/** A past meal to log again (repeat_meal, "same breakfast as yesterday"); the client looks it up in its history. */
+export interface MealRepeat {
+  /** Absent: the latest meal of that day. */
+  mealType?: MealType;
+  /** 0 today, -1 yesterday, ... */
+  dayOffset: number;
+}
+export interface QuotaInfo {
+  perMinute: number;
+  perDay: number;
+  minuteRemaining: number;
+  dayRemaining: number;
+}
+/** A log_food call the server refused (bad numbers, implausible values); the rest of the meal is still logged. */
+export interface RejectedFood {
+  name: string;
+  reason: string;
 }
 export interface ProcessAudioServiceConfig {
   /** When true, transcribe with browser Web Speech API only; do not send to /api/process-audio (no LLM). */
   testingMode?: boolean;
   /** BCP-47 language code for recognition and server hint (e.g. en-US, pt-BR). */
   language?: string;
-  onFoodLogged: (food: Omit<FoodItem, 'id' | 'timestamp' | 'mealId'>) => void;
+  /**
+   * Offline development: the server replays fixtures/llm/<fixture>.json (mock provider or mock Gemini
+   * server). Recording skips the microphone and uploads public/fixtures/audio/<fixture>.wav, or a
+   * second of silence when no recording exists.
+   */
+  fixture?: string;
+  /** Ask the server for NDJSON so each food is logged as soon as the model emits it. */
+  stream?: boolean;
+  /** Supabase access token sent as `Authorization: Bearer`; the API rejects calls without one. */
+  getAccessToken?: () => Promise<string | null>;
+  /** Called instead of onError when the API answers 401 (no session, expired or revoked token). */
+  onUnauthorized?: () => void;
+  /** Today's foods, sent with voice/typed requests so the user can correct them by name. */
+  getFoodContext?: () => FoodContextItem[];
+  /** Set when this request answers a follow-up: the server re-estimates that one food (one onFoodLogged call). */
+  clarification?: ClarificationRequest;
+  onFoodLogged: (food: Omit<FoodItem, 'id' | 'timestamp' | 'mealId'>, placement?: FoodPlacement) => void;
+  /** Called once per correction, in the order the model issued them. */
+  onFoodCorrected?: (correction: FoodCorrection) => void;
+  /** Called once per log_water call (plain water, by volume). */
+  onWaterLogged?: (drink: LoggedDrink) => void;
+  /** Called once per repeat_meal call. */
+  onMealRepeated?: (repeat: MealRepeat) => void;
+  /** Called once per response when the server rejected some items. */
+  onFoodsRejected?: (rejected: RejectedFood[]) => void;
   onAudioData: (amplitude: number) => void;
   onTranscription: (text: string) => void;
   /** In testing mode only: called with final transcript before onClose. */
@@ -75,6 +171,99 @@ export interface ProcessAudioServiceConfig {
   onDebug?: (info: ApiDebugInfo) => void;
 }
 
+const toQuotaInfo = (value: unknown): QuotaInfo | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const q = value as Record<string, unknown>;
+  return {
+    perMinute: Number(q.perMinute ?? 0),
+    perDay: Number(q.perDay ?? 0),
+    minuteRemaining: Number(q.minuteRemaining ?? 0),
+    dayRemaining: Number(q.dayRemaining ?? 0),
+  };
+};
+
+const toTokenUsage = (value: unknown): TokenUsage | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const u = value as Record<string, unknown>;
+  return {
+    model: String(u.model ?? ''),
+    promptTokens: Number(u.promptTokens ?? 0),
+    outputTokens: Number(u.outputTokens ?? 0),
+    audioTokens: Number(u.audioTokens ?? 0),
+    imageTokens: Number(u.imageTokens ?? 0),
+    totalTokens: Number(u.totalTokens ?? 0),
+    costUsd: typeof u.costUsd === 'number' ? u.costUsd : null,
+  };
+};
+
+const MEAL_TYPES: readonly string[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+const NUTRIENT_SOURCES: readonly NutrientSource[] = ['database', 'llm', 'library', 'recipe'];
+
+const toFoodPlacement = (item: Record<string, unknown>): FoodPlacement | undefined => {
+  const placement: FoodPlacement = {};
+  if (typeof item.mealType === 'string' && MEAL_TYPES.includes(item.mealType)) placement.mealType = item.mealType as MealType;
+  if (typeof item.dayOffset === 'number' && Number.isInteger(item.dayOffset)) placement.dayOffset = item.dayOffset;
+  if (typeof item.time === 'string' && /^\d{2}:\d{2}$/.test(item.time)) placement.time = item.time;
+  return Object.keys(placement).length > 0 ? placement : undefined;
+};
+
+const toFoodClarification = (value: unknown): FoodClarification | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const c = value as Record<string, unknown>;
+  if (typeof c.question !== 'string' || !c.question) return undefined;
+  const options = Array.isArray(c.options) ? c.options.filter((o): o is string => typeof o === 'string' && !!o) : [];
+  return { question: c.question, options };
+};
+
+const toOptionalAmount = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+const toFoodQuantity = (value: unknown): FoodQuantity | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const q = value as Record<string, unknown>;
+  if (typeof q.amount !== 'number' || q.amount <= 0 || !QUANTITY_UNITS.includes(q.unit as QuantityUnit)) {
+    return undefined;
+  }
+  const grams = typeof q.grams === 'number' && q.grams > 0 ? q.grams : undefined;
+  return { amount: q.amount, unit: q.unit as QuantityUnit, grams };
+};
+
+const toFoodCorrection = (value: unknown): FoodCorrection | null => {
+  if (!value || typeof value !== 'object') return null;
+  const c = value as Record<string, unknown>;
+  if ((c.action !== 'update' && c.action !== 'remove') || typeof c.id !== 'string') return null;
+  return {
+    action: c.action,
+    id: c.id,
+    name: String(c.name ?? ''),
+    quantity: typeof c.quantity === 'string' ? c.quantity : undefined,
+  };
+};
+
+const toLoggedDrink = (value: unknown): LoggedDrink | null => {
+  if (!value || typeof value !== 'object') return null;
+  const d = value as Record<string, unknown>;
+  if (typeof d.volumeMl !== 'number' || !Number.isFinite(d.volumeMl) || d.volumeMl <= 0) return null;
+  return { volumeMl: d.volumeMl, drink: typeof d.drink === 'string' && d.drink ? d.drink : 'water' };
+};
+
+const toMealRepeat = (value: unknown): MealRepeat | null => {
+  if (!value || typeof value !== 'object') return null;
+  const r = value as Record<string, unknown>;
+  if (typeof r.dayOffset !== 'number' || !Number.isInteger(r.dayOffset) || r.dayOffset > 0) return null;
+  return typeof r.mealType === 'string' && MEAL_TYPES.includes(r.mealType)
+    ? { mealType: r.mealType as MealType, dayOffset: r.dayOffset }
+    : { dayOffset: r.dayOffset };
+};
+
+/** Same cap as the server (api/_lib/corrections.ts); keeps the header small. */
+const MAX_CONTEXT_ITEMS = 40;
+
+const toRejectedFood = (r: Record<string, unknown> | undefined): RejectedFood => ({
+  name: String(r?.name ?? '?'),
+  reason: String(r?.reason ?? ''),
+});
+
 /** Records mic audio and sends it to the serverless API for processing. No API key on client. */
 export class ProcessAudioService {
   private config: ProcessAudioServiceConfig;
@@ -102,11 +291,11 @@ export class ProcessAudioService {
     this.config.onTestingEvent?.(event);
   }
 
-  /** Visual-only pulse so bars move in testing mode without taking mic ownership. */
+  /** Visual-only pulse so bars move in testing/fixture mode without taking mic ownership. */
   private startTestingPulse(): void {
     if (this._testingPulseInterval) return;
     this._testingPulseInterval = setInterval(() => {
-      if (!this.active || !this.config.testingMode) return;
+      if (!this.active || !(this.config.testingMode || this.config.fixture)) return;
       const amp = 0.05 + Math.random() * 0.2;
       this.config.onAudioData(amp);
     }, 120);
@@ -210,6 +399,14 @@ export class ProcessAudioService {
         return;
       }
 
+      if (this.config.fixture) {
+        this.startTestingPulse();
+        this._maxDurationTimer = setTimeout(() => {
+          if (this.active) this.stopInput();
+        }, ProcessAudioService.MAX_RECORDING_MS);
+        return;
+      }
+
       this.stream = await navigator.mediaDevices.getUserMedia({
         audio: { channelCount: 1, sampleRate: 16000 },
       });
@@ -305,35 +502,116 @@ export class ProcessAudioService {
       this.audioContext = null;
     }
 
-    if (!this.config.testingMode) {
+    if (this.config.fixture) {
+      this.stopTestingPulse();
+      void this.sendFixtureAudio(this.config.fixture);
+    } else if (!this.config.testingMode) {
       this.sendToApi(wavBlob, wavMs);
     }
   }
 
-  private async sendToApi(wavBlob: Blob, wavMs: number): Promise<void> {
+  /** Fixture mode: upload a recorded WAV from public/fixtures/audio, or silence long enough to pass validation. */
+  private async sendFixtureAudio(fixture: string): Promise<void> {
+    const wavStart = Date.now();
+    let wavBlob: Blob | null = null;
+    try {
+      const res = await fetch(`/fixtures/audio/${encodeURIComponent(fixture)}.wav`);
+      const isWav = res.ok && (res.headers.get('content-type') ?? '').includes('audio');
+      if (isWav) wavBlob = new Blob([await res.arrayBuffer()], { type: 'audio/wav' });
+    } catch {
+      // No recording available; fall back to silence below.
+    }
+    wavBlob ??= buildWavBlob([new Int16Array(16000)]);
+    await this.sendToApi(wavBlob, Date.now() - wavStart);
+  }
+
+  /** Query string shared by every /api/process-* call: language hint plus optional fixture. */
+  private buildQuery(): string {
     const lang = encodeURIComponent(this.config.language || 'en-US');
+    const fixture = this.config.fixture ? `&fixture=${encodeURIComponent(this.config.fixture)}` : '';
+    const stream = this.config.stream ? '&stream=1' : '';
+    return `lang=${lang}${fixture}${stream}`;
+  }
+
+  /**
+   * X-Food-Context: today's foods for corrections, as URI-encoded JSON so names with accents survive as a
+   * header value. Omitted when nothing is logged yet. Answers to a follow-up send X-Food-Clarification instead.
+   */
+  private buildContextHeaders(): Record<string, string> {
+    if (this.config.clarification) {
+      return { 'X-Food-Clarification': encodeURIComponent(JSON.stringify(this.config.clarification)) };
+    }
+    const context = this.config.getFoodContext?.().slice(0, MAX_CONTEXT_ITEMS) ?? [];
+    if (context.length === 0) return {};
+    return { 'X-Food-Context': encodeURIComponent(JSON.stringify(context)) };
+  }
+
+  private async sendToApi(wavBlob: Blob, wavMs: number): Promise<void> {
+    await this.postForFoods(
+      `/api/process-audio?${this.buildQuery()}`,
+      { method: 'POST', headers: { 'Content-Type': 'audio/wav', ...this.buildContextHeaders() }, body: wavBlob },
+      { payloadBytes: wavBlob.size, wavMs }
+    );
+  }
+
+  /** Typed alternative to recording: sends a free-text meal description to /api/process-text. */
+  async sendText(text: string): Promise<void> {
+    const body = JSON.stringify({ text });
+    await this.postForFoods(
+      `/api/process-text?${this.buildQuery()}`,
+      { method: 'POST', headers: { 'Content-Type': 'application/json', ...this.buildContextHeaders() }, body },
+      { payloadBytes: body.length }
+    );
+  }
+
+  /** Photo alternative to recording: sends a (downscaled) meal photo to /api/process-image. */
+  async sendImage(image: Blob): Promise<void> {
+    await this.postForFoods(
+      `/api/process-image?${this.buildQuery()}`,
+      { method: 'POST', headers: { 'Content-Type': image.type || 'image/jpeg' }, body: image },
+      { payloadBytes: image.size }
+    );
+  }
+
+  /** Shared request/response handling for every /api/process-* endpoint returning { transcription, foods }. */
+  private async postForFoods(
+    url: string,
+    init: RequestInit,
+    debugExtras: Pick<ApiDebugInfo, 'payloadBytes' | 'wavMs'>
+  ): Promise<void> {
     const report = (info: ApiDebugInfo) => {
-      this.config.onDebug?.({ ...info, payloadBytes: wavBlob.size, wavMs });
+      this.config.onDebug?.({ ...info, ...debugExtras });
     };
     try {
+      const token = await this.config.getAccessToken?.();
+      const headers = new Headers(init.headers);
+      if (token) headers.set('Authorization', `Bearer ${token}`);
+
       const fetchStart = Date.now();
-      const res = await fetch(`/api/process-audio?lang=${lang}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'audio/wav' },
-        body: wavBlob,
-      });
+      const res = await fetch(url, { ...init, headers });
       const fetchMs = Date.now() - fetchStart;
 
+      if (res.ok && res.body && (res.headers.get('content-type') ?? '').includes('application/x-ndjson')) {
+        await this.readFoodStream(res, fetchStart, report);
+        return;
+      }
+
       const parseStart = Date.now();
       const data = await res.json().catch(() => ({}));
       const parseMs = Date.now() - parseStart;
 
       const serverTiming = data._timing as ApiDebugInfo['serverTiming'] | undefined;
+      const provider = typeof data._provider === 'string' ? data._provider : undefined;
+      const quota = toQuotaInfo(data._quota);
 
       if (!res.ok) {
         const msg = data?.error || data?.details || `Request failed (${res.status})`;
-        report({ status: res.status, ok: false, foodsCount: 0, errorMsg: msg, fetchMs, parseMs, serverTiming });
-        this.config.onError(new Error(msg));
+        report({ status: res.status, ok: false, foodsCount: 0, errorMsg: msg, fetchMs, parseMs, serverTiming, quota });
+        if (res.status === 401 && this.config.onUnauthorized) {
+          this.config.onUnauthorized();
+        } else {
+          this.config.onError(new Error(msg));
+        }
         this.config.onClose();
         return;
       }
@@ -343,24 +621,45 @@ export class ProcessAudioService {
       }
       const foods = data.foods ?? (data.food ? [data.food] : []);
       const count = Array.isArray(foods) ? foods.length : 0;
-      report({ status: res.status, ok: true, foodsCount: count, fetchMs, parseMs, serverTiming });
+      const rejected: RejectedFood[] = Array.isArray(data.rejected) ? data.rejected.map(toRejectedFood) : [];
+      report({
+        status: res.status,
+        ok: true,
+        foodsCount: count,
+        rejectedCount: rejected.length,
+        fetchMs,
+        parseMs,
+        serverTiming,
+        provider,
+        quota,
+        usage: toTokenUsage(data._usage),
+      });
       if (Array.isArray(foods)) {
         for (const f of foods) {
-          if (f && typeof f === 'object') {
-            const item = f as Record<string, unknown>;
-            this.config.onFoodLogged({
-              name: String(item.name ?? ''),
-              quantity: String(item.quantity ?? ''),
-              calories: Number(item.calories ?? 0),
-              protein: Number(item.protein ?? 0),
-              carbs: Number(item.carbs ?? 0),
-              fat: Number(item.fat ?? 0),
-              fiber: Number(item.fiber ?? 0),
-              micronutrients: String(item.micronutrients ?? ''),
-            });
-          }
+          this.emitFood(f);
+        }
+      }
+      if (Array.isArray(data.corrections)) {
+        for (const c of data.corrections) {
+          const correction = toFoodCorrection(c);
+          if (correction) this.config.onFoodCorrected?.(correction);
+        }
+      }
+      if (Array.isArray(data.drinks)) {
+        for (const d of data.drinks) {
+          const drink = toLoggedDrink(d);
+          if (drink) this.config.onWaterLogged?.(drink);
+        }
+      }
+      if (Array.isArray(data.repeats)) {
+        for (const r of data.repeats) {
+          const repeat = toMealRepeat(r);
+          if (repeat) this.config.onMealRepeated?.(repeat);
         }
       }
+      if (rejected.length > 0) {
+        this.config.onFoodsRejected?.(rejected);
+      }
 
       this.config.onClose();
     } catch (err) {
@@ -371,6 +670,143 @@ export class ProcessAudioService {
     }
   }
 
+  /**
+   * ?stream=1 responses: NDJSON events (transcription, food, correction, water, repeat, rejected, done, error; see
+   * api/_lib/respond.ts).
+   * Foods reach onFoodLogged as soon as their line arrives instead of after the whole answer.
+   */
+  private async readFoodStream(
+    res: Response,
+    fetchStart: number,
+    report: (info: ApiDebugInfo) => void
+  ): Promise<void> {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    const rejected: RejectedFood[] = [];
+    let buffer = '';
+    let foodsCount = 0;
+    let firstEventMs: number | undefined;
+    let done: Record<string, unknown> | null = null;
+    let failure: Record<string, unknown> | null = null;
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      let event: Record<string, unknown>;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        return;
+      }
+      firstEventMs ??= Date.now() - fetchStart;
+      switch (event.type) {
+        case 'transcription':
+          if (typeof event.text === 'string' && event.text) this.config.onTranscription(event.text);
+          break;
+        case 'food':
+          if (this.emitFood(event.food)) foodsCount += 1;
+          break;
+        case 'correction': {
+          const correction = toFoodCorrection(event.correction);
+          if (correction) this.config.onFoodCorrected?.(correction);
+          break;
+        }
+        case 'water': {
+          const drink = toLoggedDrink(event.drink);
+          if (drink) this.config.onWaterLogged?.(drink);
+          break;
+        }
+        case 'repeat': {
+          const repeat = toMealRepeat(event.repeat);
+          if (repeat) this.config.onMealRepeated?.(repeat);
+          break;
+        }
+        case 'rejected':
+          rejected.push(toRejectedFood(event.item as Record<string, unknown>));
+          break;
+        case 'done':
+          done = event;
+          break;
+        case 'error':
+          failure = event;
+          break;
+      }
+    };
+
+    for (;;) {
+      const { value, done: finished } = await reader.read();
+      if (finished) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+
+    const serverTiming = done?._timing as ApiDebugInfo['serverTiming'] | undefined;
+    const provider = typeof done?._provider === 'string' ? done._provider : undefined;
+    const fetchMs = Date.now() - fetchStart;
+    if (rejected.length > 0) {
+      this.config.onFoodsRejected?.(rejected);
+    }
+    if (failure || !done) {
+      const msg = String(failure?.error || failure?.details || 'Stream ended unexpectedly');
+      report({
+        status: Number(failure?.status ?? res.status),
+        ok: false,
+        foodsCount,
+        rejectedCount: rejected.length,
+        errorMsg: msg,
+        fetchMs,
+        parseMs: firstEventMs,
+      });
+      this.config.onError(new Error(msg));
+    } else {
+      report({
+        status: res.status,
+        ok: true,
+        foodsCount,
+        rejectedCount: rejected.length,
+        fetchMs,
+        parseMs: firstEventMs,
+        serverTiming,
+        provider,
+        quota: toQuotaInfo(done?._quota),
+        usage: toTokenUsage(done?._usage),
+      });
+    }
+    this.config.onClose();
+  }
+
+  /** Maps one server food object to onFoodLogged; returns false for malformed entries. */
+  private emitFood(f: unknown): boolean {
+    if (!f || typeof f !== 'object') return false;
+    const item = f as Record<string, unknown>;
+    this.config.onFoodLogged({
+      name: String(item.name ?? ''),
+      quantity: String(item.quantity ?? ''),
+      calories: Number(item.calories ?? 0),
+      protein: Number(item.protein ?? 0),
+      carbs: Number(item.carbs ?? 0),
+      fat: Number(item.fat ?? 0),
+      fiber: Number(item.fiber ?? 0),
+      sodium: toOptionalAmount(item.sodium),
+      addedSugar: toOptionalAmount(item.addedSugar),
+      saturatedFat: toOptionalAmount(item.saturatedFat),
+      micronutrients: normalizeMicronutrients(item.micronutrients),
+      consistencyScore: typeof item.consistencyScore === 'number' ? item.consistencyScore : undefined,
+      flagReason: typeof item.flagReason === 'string' && item.flagReason ? item.flagReason : undefined,
+      confidence: typeof item.confidence === 'number' ? item.confidence : undefined,
+      portionGrams: typeof item.portionGrams === 'number' ? item.portionGrams : undefined,
+      assumptions: typeof item.assumptions === 'string' && item.assumptions ? item.assumptions : undefined,
+      clarification: toFoodClarification(item.clarification),
+      source: NUTRIENT_SOURCES.includes(item.source as NutrientSource) ? (item.source as NutrientSource) : undefined,
+      sourceRef: typeof item.sourceRef === 'string' && item.sourceRef ? item.sourceRef : undefined,
+      recipeId: typeof item.recipeId === 'string' && item.recipeId ? item.recipeId : undefined,
+      measure: toFoodQuantity(item.measure),
+    }, toFoodPlacement(item));
+    return true;
+  }
+
   stop(): void {
     this.active = false;
     this.manualStopRequested = true;
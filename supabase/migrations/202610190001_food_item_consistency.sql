@@ -0,0 +1,5 @@
+-- Atwater consistency check results for AI-estimated foods (see api/_lib/atwater.ts).
+alter table public.food_items
+  add column if not exists consistency_score numeric
+    check (consistency_score is null or (consistency_score >= 0 and consistency_score <= 1)),
+  add column if not exists flag_reason text;
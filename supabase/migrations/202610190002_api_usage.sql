@@ -0,0 +1,85 @@
+-- Ledger of LLM-backed API calls, used for per-user rate limiting (see api/_lib/quota.ts).
+create table if not exists public.api_usage (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  endpoint text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists api_usage_user_created_at_idx
+  on public.api_usage (user_id, created_at desc);
+
+alter table public.api_usage enable row level security;
+
+-- Users may read their own usage; only the API (service role) writes it.
+drop policy if exists api_usage_select_own on public.api_usage;
+create policy api_usage_select_own
+on public.api_usage
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- Checks both rolling windows and records the call in one transaction. Rejected calls are not recorded.
+-- retry_after_seconds is how long until the oldest call that keeps the user over a limit leaves its window.
+create or replace function public.consume_api_quota(
+  p_user_id uuid,
+  p_endpoint text,
+  p_per_minute integer,
+  p_per_day integer
+)
+returns table (
+  allowed boolean,
+  minute_used integer,
+  day_used integer,
+  retry_after_seconds integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_minute_used integer;
+  v_day_used integer;
+  v_release timestamptz;
+begin
+  -- Serialize concurrent requests from the same user so they cannot both slip under the limit.
+  perform pg_advisory_xact_lock(hashtext('api_usage:' || p_user_id::text));
+
+  select count(*) filter (where created_at > now() - interval '1 minute'),
+         count(*)
+    into v_minute_used, v_day_used
+    from public.api_usage
+   where user_id = p_user_id
+     and created_at > now() - interval '1 day';
+
+  if v_minute_used >= p_per_minute then
+    select created_at + interval '1 minute' into v_release
+      from public.api_usage
+     where user_id = p_user_id and created_at > now() - interval '1 minute'
+     order by created_at asc
+     offset v_minute_used - p_per_minute
+     limit 1;
+  end if;
+
+  if v_day_used >= p_per_day then
+    select greatest(coalesce(v_release, now()), created_at + interval '1 day') into v_release
+      from public.api_usage
+     where user_id = p_user_id and created_at > now() - interval '1 day'
+     order by created_at asc
+     offset v_day_used - p_per_day
+     limit 1;
+  end if;
+
+  if v_release is not null then
+    return query select false, v_minute_used, v_day_used,
+      greatest(1, ceil(extract(epoch from v_release - now()))::integer);
+    return;
+  end if;
+
+  insert into public.api_usage (user_id, endpoint) values (p_user_id, p_endpoint);
+  return query select true, v_minute_used + 1, v_day_used + 1, 0;
+end;
+$$;
+
+revoke all on function public.consume_api_quota(uuid, text, integer, integer) from public, anon, authenticated;
+grant execute on function public.consume_api_quota(uuid, text, integer, integer) to service_role;
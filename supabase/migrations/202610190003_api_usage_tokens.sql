@@ -0,0 +1,94 @@
+-- Token counts and estimated cost per LLM call (see api/_lib/usage.ts), plus a monthly roll-up for budgeting.
+alter table public.api_usage
+  add column if not exists provider text,
+  add column if not exists model text,
+  add column if not exists prompt_tokens integer check (prompt_tokens is null or prompt_tokens >= 0),
+  add column if not exists output_tokens integer check (output_tokens is null or output_tokens >= 0),
+  add column if not exists audio_tokens integer check (audio_tokens is null or audio_tokens >= 0),
+  add column if not exists image_tokens integer check (image_tokens is null or image_tokens >= 0),
+  add column if not exists total_tokens integer check (total_tokens is null or total_tokens >= 0),
+  add column if not exists cost_usd numeric(12, 8) check (cost_usd is null or cost_usd >= 0);
+
+-- Same checks as before; now also returns the ledger row id so the API can attach token usage to it.
+drop function if exists public.consume_api_quota(uuid, text, integer, integer);
+create function public.consume_api_quota(
+  p_user_id uuid,
+  p_endpoint text,
+  p_per_minute integer,
+  p_per_day integer
+)
+returns table (
+  allowed boolean,
+  minute_used integer,
+  day_used integer,
+  retry_after_seconds integer,
+  usage_id bigint
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_minute_used integer;
+  v_day_used integer;
+  v_release timestamptz;
+  v_usage_id bigint;
+begin
+  perform pg_advisory_xact_lock(hashtext('api_usage:' || p_user_id::text));
+
+  select count(*) filter (where created_at > now() - interval '1 minute'),
+         count(*)
+    into v_minute_used, v_day_used
+    from public.api_usage
+   where user_id = p_user_id
+     and created_at > now() - interval '1 day';
+
+  if v_minute_used >= p_per_minute then
+    select created_at + interval '1 minute' into v_release
+      from public.api_usage
+     where user_id = p_user_id and created_at > now() - interval '1 minute'
+     order by created_at asc
+     offset v_minute_used - p_per_minute
+     limit 1;
+  end if;
+
+  if v_day_used >= p_per_day then
+    select greatest(coalesce(v_release, now()), created_at + interval '1 day') into v_release
+      from public.api_usage
+     where user_id = p_user_id and created_at > now() - interval '1 day'
+     order by created_at asc
+     offset v_day_used - p_per_day
+     limit 1;
+  end if;
+
+  if v_release is not null then
+    return query select false, v_minute_used, v_day_used,
+      greatest(1, ceil(extract(epoch from v_release - now()))::integer), null::bigint;
+    return;
+  end if;
+
+  insert into public.api_usage (user_id, endpoint) values (p_user_id, p_endpoint)
+  returning id into v_usage_id;
+  return query select true, v_minute_used + 1, v_day_used + 1, 0, v_usage_id;
+end;
+$$;
+
+revoke all on function public.consume_api_quota(uuid, text, integer, integer) from public, anon, authenticated;
+grant execute on function public.consume_api_quota(uuid, text, integer, integer) to service_role;
+
+-- security_invoker keeps api_usage RLS in force: users only see their own months.
+create or replace view public.monthly_api_usage
+with (security_invoker = true)
+as
+select
+  user_id,
+  (date_trunc('month', created_at at time zone 'utc'))::date as month,
+  count(*)::integer as requests,
+  coalesce(sum(prompt_tokens), 0)::bigint as prompt_tokens,
+  coalesce(sum(output_tokens), 0)::bigint as output_tokens,
+  coalesce(sum(audio_tokens), 0)::bigint as audio_tokens,
+  coalesce(sum(image_tokens), 0)::bigint as image_tokens,
+  coalesce(sum(total_tokens), 0)::bigint as total_tokens,
+  coalesce(sum(cost_usd), 0)::numeric(14, 6) as cost_usd
+from public.api_usage
+group by user_id, (date_trunc('month', created_at at time zone 'utc'))::date;
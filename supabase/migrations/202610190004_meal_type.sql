@@ -0,0 +1,8 @@
+-- Meal named by the user ("for breakfast yesterday ..."); null for meals logged without one.
+alter table public.meal_groups
+  add column if not exists meal_type text
+    check (meal_type is null or meal_type in ('breakfast', 'lunch', 'dinner', 'snack'));
+
+create index if not exists meal_groups_user_type_created_at_idx
+  on public.meal_groups (user_id, meal_type, created_at desc)
+  where meal_type is not null;
@@ -0,0 +1,36 @@
+-- Per-user app preferences. review_before_save: show AI-detected foods as an editable draft before saving.
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  review_before_save boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists set_user_settings_updated_at on public.user_settings;
+create trigger set_user_settings_updated_at
+before update on public.user_settings
+for each row
+execute function public.set_updated_at();
+
+alter table public.user_settings enable row level security;
+
+drop policy if exists user_settings_select_own on public.user_settings;
+create policy user_settings_select_own
+on public.user_settings
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists user_settings_insert_own on public.user_settings;
+create policy user_settings_insert_own
+on public.user_settings
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists user_settings_update_own on public.user_settings;
+create policy user_settings_update_own
+on public.user_settings
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Model confidence and assumptions per AI-estimated food, plus the pending follow-up question (see api/_lib/clarification.ts).
+alter table public.food_items
+  add column if not exists confidence numeric
+    check (confidence is null or (confidence >= 0 and confidence <= 1)),
+  add column if not exists portion_grams numeric check (portion_grams is null or portion_grams > 0),
+  add column if not exists assumptions text,
+  add column if not exists clarification_question text,
+  add column if not exists clarification_options text[];
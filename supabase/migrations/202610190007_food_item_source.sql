@@ -0,0 +1,5 @@
+-- Where a food's nutrition numbers came from: the bundled food tables (see api/_lib/foodDb) or the model's estimate.
+alter table public.food_items
+  add column if not exists nutrient_source text
+    check (nutrient_source is null or nutrient_source in ('database', 'llm')),
+  add column if not exists source_ref text;
@@ -0,0 +1,10 @@
+-- Structured quantity per food (amount, unit, grams-equivalent; see lib/units.ts) so edits rescale nutrients across units.
+alter table public.food_items
+  add column if not exists quantity_amount numeric check (quantity_amount is null or quantity_amount > 0),
+  add column if not exists quantity_unit text
+    check (quantity_unit is null or quantity_unit in (
+      'g', 'kg', 'oz', 'lb',
+      'ml', 'l', 'tsp', 'tbsp', 'cup', 'fl_oz', 'glass',
+      'piece', 'slice', 'serving', 'bowl', 'plate'
+    )),
+  add column if not exists quantity_grams numeric check (quantity_grams is null or quantity_grams > 0);
@@ -0,0 +1,7 @@
+-- Typed micronutrients per food: { "<nutrient>": { "amount": n, "unit": "mg" | "mcg" } } (see lib/micronutrients.ts).
+alter table public.food_items
+  add column if not exists micronutrient_values jsonb
+    check (micronutrient_values is null or jsonb_typeof(micronutrient_values) = 'object');
+
+comment on column public.food_items.micronutrients is
+  'Legacy free-text micronutrients; new rows use micronutrient_values. Old text is parsed by the client.';
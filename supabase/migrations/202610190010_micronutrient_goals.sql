@@ -0,0 +1,7 @@
+-- Micronutrient goals ({ "<nutrient>": target }, canonical units from lib/micronutrients.ts) and the
+-- age/sex their recommended defaults came from (see lib/dri.ts).
+alter table public.nutrition_goals
+  add column if not exists micronutrients jsonb
+    check (micronutrients is null or jsonb_typeof(micronutrients) = 'object'),
+  add column if not exists dri_sex text check (dri_sex is null or dri_sex in ('female', 'male')),
+  add column if not exists dri_age integer check (dri_age is null or (dri_age >= 14 and dri_age <= 120));
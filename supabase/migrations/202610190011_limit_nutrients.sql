@@ -0,0 +1,10 @@
+-- Sodium (mg), added sugar (g) and saturated fat (g) per food, with daily upper limits in nutrition_goals.
+alter table public.food_items
+  add column if not exists sodium numeric check (sodium is null or sodium >= 0),
+  add column if not exists added_sugar numeric check (added_sugar is null or added_sugar >= 0),
+  add column if not exists saturated_fat numeric check (saturated_fat is null or saturated_fat >= 0);
+
+alter table public.nutrition_goals
+  add column if not exists sodium numeric check (sodium is null or sodium > 0),
+  add column if not exists added_sugar numeric check (added_sugar is null or added_sugar > 0),
+  add column if not exists saturated_fat numeric check (saturated_fat is null or saturated_fat > 0);
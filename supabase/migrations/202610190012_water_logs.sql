@@ -0,0 +1,37 @@
+-- Hydration log: one row per drink (volume in ml), plus a daily water goal in nutrition_goals.
+create table if not exists public.water_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  volume_ml integer not null check (volume_ml > 0 and volume_ml <= 5000),
+  drink text,
+  "timestamp" timestamptz not null default now()
+);
+
+create index if not exists water_logs_user_timestamp_idx
+  on public.water_logs (user_id, "timestamp" desc);
+
+alter table public.nutrition_goals
+  add column if not exists water_ml integer check (water_ml is null or water_ml > 0);
+
+alter table public.water_logs enable row level security;
+
+drop policy if exists water_logs_select_own on public.water_logs;
+create policy water_logs_select_own
+on public.water_logs
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists water_logs_insert_own on public.water_logs;
+create policy water_logs_insert_own
+on public.water_logs
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists water_logs_delete_own on public.water_logs;
+create policy water_logs_delete_own
+on public.water_logs
+for delete
+to authenticated
+using (auth.uid() = user_id);
@@ -0,0 +1,65 @@
+-- Personal food library: foods the user logs often, with their own nutrition values per serving.
+-- The API matches logged names against name and aliases and uses these values instead of an estimate.
+create table if not exists public.custom_foods (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  aliases text[] not null default '{}',
+  serving text not null default '1 serving',
+  calories integer not null check (calories >= 0),
+  protein numeric not null check (protein >= 0),
+  carbs numeric not null check (carbs >= 0),
+  fat numeric not null check (fat >= 0),
+  fiber numeric not null check (fiber >= 0),
+  sodium numeric check (sodium is null or sodium >= 0),
+  added_sugar numeric check (added_sugar is null or added_sugar >= 0),
+  saturated_fat numeric check (saturated_fat is null or saturated_fat >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists custom_foods_user_updated_at_idx
+  on public.custom_foods (user_id, updated_at desc);
+
+drop trigger if exists set_custom_foods_updated_at on public.custom_foods;
+create trigger set_custom_foods_updated_at
+before update on public.custom_foods
+for each row
+execute function public.set_updated_at();
+
+alter table public.food_items
+  drop constraint if exists food_items_nutrient_source_check;
+alter table public.food_items
+  add constraint food_items_nutrient_source_check
+    check (nutrient_source is null or nutrient_source in ('database', 'llm', 'library'));
+
+alter table public.custom_foods enable row level security;
+
+drop policy if exists custom_foods_select_own on public.custom_foods;
+create policy custom_foods_select_own
+on public.custom_foods
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists custom_foods_insert_own on public.custom_foods;
+create policy custom_foods_insert_own
+on public.custom_foods
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists custom_foods_update_own on public.custom_foods;
+create policy custom_foods_update_own
+on public.custom_foods
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists custom_foods_delete_own on public.custom_foods;
+create policy custom_foods_delete_own
+on public.custom_foods
+for delete
+to authenticated
+using (auth.uid() = user_id);
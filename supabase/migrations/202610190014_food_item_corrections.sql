@@ -0,0 +1,8 @@
+-- The estimate a food was logged with, kept when the user first edits it, so corrections can be learned per user.
+alter table public.food_items
+  add column if not exists original_estimate jsonb,
+  add column if not exists corrected_at timestamptz;
+
+create index if not exists food_items_user_corrected_at_idx
+  on public.food_items (user_id, corrected_at desc)
+  where corrected_at is not null;
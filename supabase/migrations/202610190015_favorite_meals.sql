@@ -0,0 +1,3 @@
+-- Starred meals, listed first in the recent & favorites picker for one-tap re-logging.
+alter table public.meal_groups
+  add column if not exists is_favorite boolean not null default false;
@@ -0,0 +1,114 @@
+-- Home recipes: ingredients with their nutrition, batch totals and the number of servings.
+-- The API matches logged names against recipe names and logs one serving from the stored totals.
+create table if not exists public.recipes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  servings numeric not null check (servings > 0),
+  -- Whole-batch totals, the sum of recipe_ingredients (kept in sync by the client on save).
+  calories integer not null check (calories >= 0),
+  protein numeric not null check (protein >= 0),
+  carbs numeric not null check (carbs >= 0),
+  fat numeric not null check (fat >= 0),
+  fiber numeric not null check (fiber >= 0),
+  sodium numeric check (sodium is null or sodium >= 0),
+  added_sugar numeric check (added_sugar is null or added_sugar >= 0),
+  saturated_fat numeric check (saturated_fat is null or saturated_fat >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists recipes_user_updated_at_idx
+  on public.recipes (user_id, updated_at desc);
+
+drop trigger if exists set_recipes_updated_at on public.recipes;
+create trigger set_recipes_updated_at
+before update on public.recipes
+for each row
+execute function public.set_updated_at();
+
+create table if not exists public.recipe_ingredients (
+  id uuid primary key default gen_random_uuid(),
+  recipe_id uuid not null references public.recipes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  position integer not null default 0,
+  name text not null check (length(trim(name)) > 0),
+  quantity text not null,
+  calories integer not null check (calories >= 0),
+  protein numeric not null check (protein >= 0),
+  carbs numeric not null check (carbs >= 0),
+  fat numeric not null check (fat >= 0),
+  fiber numeric not null check (fiber >= 0),
+  sodium numeric check (sodium is null or sodium >= 0),
+  added_sugar numeric check (added_sugar is null or added_sugar >= 0),
+  saturated_fat numeric check (saturated_fat is null or saturated_fat >= 0)
+);
+
+create index if not exists recipe_ingredients_recipe_position_idx
+  on public.recipe_ingredients (recipe_id, position);
+
+-- A logged serving links back to its recipe; deleting the recipe keeps the logged food.
+alter table public.food_items
+  add column if not exists recipe_id uuid references public.recipes (id) on delete set null;
+
+alter table public.food_items
+  drop constraint if exists food_items_nutrient_source_check;
+alter table public.food_items
+  add constraint food_items_nutrient_source_check
+    check (nutrient_source is null or nutrient_source in ('database', 'llm', 'library', 'recipe'));
+
+alter table public.recipes enable row level security;
+alter table public.recipe_ingredients enable row level security;
+
+drop policy if exists recipes_select_own on public.recipes;
+create policy recipes_select_own
+on public.recipes
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists recipes_insert_own on public.recipes;
+create policy recipes_insert_own
+on public.recipes
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists recipes_update_own on public.recipes;
+create policy recipes_update_own
+on public.recipes
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists recipes_delete_own on public.recipes;
+create policy recipes_delete_own
+on public.recipes
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists recipe_ingredients_select_own on public.recipe_ingredients;
+create policy recipe_ingredients_select_own
+on public.recipe_ingredients
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists recipe_ingredients_insert_own on public.recipe_ingredients;
+create policy recipe_ingredients_insert_own
+on public.recipe_ingredients
+for insert
+to authenticated
+with check (
+  auth.uid() = user_id
+  and exists (select 1 from public.recipes r where r.id = recipe_id and r.user_id = auth.uid())
+);
+
+drop policy if exists recipe_ingredients_delete_own on public.recipe_ingredients;
+create policy recipe_ingredients_delete_own
+on public.recipe_ingredients
+for delete
+to authenticated
+using (auth.uid() = user_id);
@@ -0,0 +1,81 @@
+-- Cooked batches (a pot of rice, a tray of lasagna) eaten over several days. The batch holds the whole
+-- amount and its nutrition; each logged portion records how much of it was eaten, so what is left is the
+-- batch amount minus the portions still logged (deleting a portion puts it back).
+create table if not exists public.food_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  recipe_id uuid references public.recipes (id) on delete set null,
+  -- Whole batch, same columns as food_items (see lib/units.ts).
+  quantity_amount numeric not null check (quantity_amount > 0),
+  quantity_unit text not null
+    check (quantity_unit in (
+      'g', 'kg', 'oz', 'lb',
+      'ml', 'l', 'tsp', 'tbsp', 'cup', 'fl_oz', 'glass',
+      'piece', 'slice', 'serving', 'bowl', 'plate'
+    )),
+  quantity_grams numeric check (quantity_grams is null or quantity_grams > 0),
+  calories integer not null check (calories >= 0),
+  protein numeric not null check (protein >= 0),
+  carbs numeric not null check (carbs >= 0),
+  fat numeric not null check (fat >= 0),
+  fiber numeric not null check (fiber >= 0),
+  sodium numeric check (sodium is null or sodium >= 0),
+  added_sugar numeric check (added_sugar is null or added_sugar >= 0),
+  saturated_fat numeric check (saturated_fat is null or saturated_fat >= 0),
+  cooked_at timestamptz not null default now(),
+  -- Set when the user clears a used-up or discarded batch; finished batches leave the picker.
+  finished_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists food_batches_user_open_idx
+  on public.food_batches (user_id, cooked_at desc)
+  where finished_at is null;
+
+drop trigger if exists set_food_batches_updated_at on public.food_batches;
+create trigger set_food_batches_updated_at
+before update on public.food_batches
+for each row
+execute function public.set_updated_at();
+
+-- A logged portion and how much of the batch it used, in the batch's unit.
+alter table public.food_items
+  add column if not exists batch_id uuid references public.food_batches (id) on delete set null,
+  add column if not exists batch_amount numeric check (batch_amount is null or batch_amount > 0);
+
+create index if not exists food_items_batch_idx
+  on public.food_items (batch_id)
+  where batch_id is not null;
+
+alter table public.food_batches enable row level security;
+
+drop policy if exists food_batches_select_own on public.food_batches;
+create policy food_batches_select_own
+on public.food_batches
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists food_batches_insert_own on public.food_batches;
+create policy food_batches_insert_own
+on public.food_batches
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists food_batches_update_own on public.food_batches;
+create policy food_batches_update_own
+on public.food_batches
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists food_batches_delete_own on public.food_batches;
+create policy food_batches_delete_own
+on public.food_batches
+for delete
+to authenticated
+using (auth.uid() = user_id);
@@ -0,0 +1,47 @@
+-- Saves a recipe, its batch totals and its ingredient list in one transaction (see saveRecipe in
+-- data/nutritionRepository.ts), so a failed ingredient write never leaves a recipe without ingredients.
+-- Runs as the caller: the row-level policies still limit it to the user's own recipes.
+create or replace function public.save_recipe(p_recipe jsonb, p_ingredients jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_recipe public.recipes%rowtype := jsonb_populate_record(null::public.recipes, p_recipe);
+begin
+  insert into public.recipes (
+    id, user_id, name, servings, calories, protein, carbs, fat, fiber, sodium, added_sugar, saturated_fat
+  )
+  values (
+    v_recipe.id, v_recipe.user_id, v_recipe.name, v_recipe.servings, v_recipe.calories, v_recipe.protein,
+    v_recipe.carbs, v_recipe.fat, v_recipe.fiber, v_recipe.sodium, v_recipe.added_sugar, v_recipe.saturated_fat
+  )
+  on conflict (id) do update set
+    name = excluded.name,
+    servings = excluded.servings,
+    calories = excluded.calories,
+    protein = excluded.protein,
+    carbs = excluded.carbs,
+    fat = excluded.fat,
+    fiber = excluded.fiber,
+    sodium = excluded.sodium,
+    added_sugar = excluded.added_sugar,
+    saturated_fat = excluded.saturated_fat;
+
+  delete from public.recipe_ingredients
+   where recipe_id = v_recipe.id
+     and user_id = v_recipe.user_id;
+
+  insert into public.recipe_ingredients (
+    id, recipe_id, user_id, position, name, quantity, calories, protein, carbs, fat, fiber, sodium,
+    added_sugar, saturated_fat
+  )
+  select i.id, v_recipe.id, v_recipe.user_id, i.position, i.name, i.quantity, i.calories, i.protein, i.carbs,
+         i.fat, i.fiber, i.sodium, i.added_sugar, i.saturated_fat
+    from jsonb_populate_recordset(null::public.recipe_ingredients, coalesce(p_ingredients, '[]'::jsonb)) as i;
+end;
+$$;
+
+revoke all on function public.save_recipe(jsonb, jsonb) from public, anon;
+grant execute on function public.save_recipe(jsonb, jsonb) to authenticated;
@@ -0,0 +1,53 @@
+-- Vitamins and minerals for recipe ingredients and batches, in the same shape as
+-- food_items.micronutrient_values, so a serving or a portion logged from them keeps its micronutrients.
+alter table public.recipe_ingredients
+  add column if not exists micronutrient_values jsonb not null default '{}'::jsonb;
+
+alter table public.food_batches
+  add column if not exists micronutrient_values jsonb not null default '{}'::jsonb;
+
+-- save_recipe (202610190018) now writes the ingredients' micronutrients too.
+create or replace function public.save_recipe(p_recipe jsonb, p_ingredients jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_recipe public.recipes%rowtype := jsonb_populate_record(null::public.recipes, p_recipe);
+begin
+  insert into public.recipes (
+    id, user_id, name, servings, calories, protein, carbs, fat, fiber, sodium, added_sugar, saturated_fat
+  )
+  values (
+    v_recipe.id, v_recipe.user_id, v_recipe.name, v_recipe.servings, v_recipe.calories, v_recipe.protein,
+    v_recipe.carbs, v_recipe.fat, v_recipe.fiber, v_recipe.sodium, v_recipe.added_sugar, v_recipe.saturated_fat
+  )
+  on conflict (id) do update set
+    name = excluded.name,
+    servings = excluded.servings,
+    calories = excluded.calories,
+    protein = excluded.protein,
+    carbs = excluded.carbs,
+    fat = excluded.fat,
+    fiber = excluded.fiber,
+    sodium = excluded.sodium,
+    added_sugar = excluded.added_sugar,
+    saturated_fat = excluded.saturated_fat;
+
+  delete from public.recipe_ingredients
+   where recipe_id = v_recipe.id
+     and user_id = v_recipe.user_id;
+
+  insert into public.recipe_ingredients (
+    id, recipe_id, user_id, position, name, quantity, calories, protein, carbs, fat, fiber, sodium,
+    added_sugar, saturated_fat, micronutrient_values
+  )
+  select i.id, v_recipe.id, v_recipe.user_id, i.position, i.name, i.quantity, i.calories, i.protein, i.carbs,
+         i.fat, i.fiber, i.sodium, i.added_sugar, i.saturated_fat, coalesce(i.micronutrient_values, '{}'::jsonb)
+    from jsonb_populate_recordset(null::public.recipe_ingredients, coalesce(p_ingredients, '[]'::jsonb)) as i;
+end;
+$$;
+
+revoke all on function public.save_recipe(jsonb, jsonb) from public, anon;
+grant execute on function public.save_recipe(jsonb, jsonb) to authenticated;
@@ -1,3 +1,11 @@
+import type { DriProfile } from './lib/dri';
+import type { MicronutrientGoals, Micronutrients } from './lib/micronutrients';
+import type { FoodQuantity } from './lib/units';
+
+export type { DriProfile, DriSex } from './lib/dri';
+export type { MicronutrientAmount, MicronutrientGoals, MicronutrientKey, Micronutrients } from './lib/micronutrients';
+export type { FoodQuantity, QuantityUnit } from './lib/units';
+
 export interface FoodItem {
   id: string;
   mealId: string;
@@ -8,24 +16,161 @@ export interface FoodItem {
   carbs: number;
   fat: number;
   fiber: number;
-  micronutrients?: string;
+  /** Milligrams; absent for foods logged before it was tracked or when the model gave no estimate. */
+  sodium?: number;
+  /** Grams of added sugars (not the natural sugar of fruit or milk). */
+  addedSugar?: number;
+  /** Grams. */
+  saturatedFat?: number;
+  /** Vitamins and minerals for the logged portion, in canonical units (see lib/micronutrients). */
+  micronutrients?: Micronutrients;
+  /** Atwater check (4/4/9 kcal per g): 1 = calories match macros, 0 = inconsistent. */
+  consistencyScore?: number;
+  /** Set when calories and macros disagree enough that the estimate should be double-checked. */
+  flagReason?: string;
+  /** Model's confidence in the estimate, 0–1. */
+  confidence?: number;
+  /** Portion weight the estimate assumes. */
+  portionGrams?: number;
+  /** What the model assumed (portion, preparation). */
+  assumptions?: string;
+  /** Open follow-up for a low-confidence estimate; cleared once answered or dismissed. */
+  clarification?: FoodClarification;
+  /**
+   * "database" for the bundled food tables, "library" for the user's saved food, "recipe" for a serving of
+   * one of their recipes, "llm" for the model's estimate.
+   */
+  source?: NutrientSource;
+  /** Table entry behind database values (e.g. "TACO: Arroz, tipo 1, cozido"), or the saved food's or recipe's name. */
+  sourceRef?: string;
+  /** Recipe this serving was logged from (source "recipe"). */
+  recipeId?: string;
+  /** Batch this portion was taken from (see FoodBatch). */
+  batchId?: string;
+  /** How much of the batch the portion used, in the batch's unit; what is left is derived from these. */
+  batchAmount?: number;
+  /** Structured form of quantity (amount, unit, grams-equivalent) used to rescale nutrients across units. */
+  measure?: FoodQuantity;
+  /** What the food was logged with, kept from its first manual or spoken edit on. */
+  originalEstimate?: OriginalEstimate;
   timestamp: Date;
 }
 
+/** The logged values a correction is compared against (food_items.original_estimate). */
+export type OriginalEstimate = Pick<FoodItem, 'quantity' | 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber'>;
+
+export type NutrientSource = 'database' | 'llm' | 'library' | 'recipe';
+
+/** A food in the user's library (custom_foods); the API uses these values when a logged name matches. */
+export interface CustomFood {
+  id: string;
+  name: string;
+  /** Other names the user says for it ("shake", "whey"). */
+  aliases: string[];
+  /** What the values are for, e.g. "1 scoop (30 g)". */
+  serving: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium?: number;
+  addedSugar?: number;
+  saturatedFat?: number;
+}
+
+/** One ingredient of a recipe, with the nutrition of the amount used in the whole batch. */
+export type RecipeIngredient = { id: string } & Pick<
+  FoodItem,
+  | 'name' | 'quantity' | 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber' | 'sodium' | 'addedSugar' | 'saturatedFat'
+  | 'micronutrients'
+>;
+
+/** A home recipe (recipes + recipe_ingredients); per-serving values come from lib/recipes. */
+export interface Recipe {
+  id: string;
+  name: string;
+  /** Servings the batch makes. */
+  servings: number;
+  ingredients: RecipeIngredient[];
+}
+
+/**
+ * A cooked batch (food_batches) eaten over several days, e.g. a pot of rice. Values are for the whole
+ * batch; portions are logged from it and scaled to the amount eaten.
+ */
+export interface FoodBatch {
+  id: string;
+  name: string;
+  /** The whole batch ("900 g", "6 servings"). */
+  quantity: FoodQuantity;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium?: number;
+  addedSugar?: number;
+  saturatedFat?: number;
+  micronutrients?: Micronutrients;
+  /** Set when the batch is a recipe cooked once. */
+  recipeId?: string;
+  cookedAt: Date;
+  /** Set once the user clears the batch (used up or thrown away). */
+  finishedAt?: Date;
+}
+
+/** Nutrients tracked against an upper limit rather than a target. */
+export type LimitNutrientKey = 'sodium' | 'addedSugar' | 'saturatedFat';
+export const LIMIT_NUTRIENT_KEYS: LimitNutrientKey[] = ['sodium', 'addedSugar', 'saturatedFat'];
+
+/** The AI-estimated part of a food, before it is placed in a meal. */
+export type FoodEstimate = Omit<FoodItem, 'id' | 'mealId' | 'timestamp'>;
+
+export interface FoodClarification {
+  question: string;
+  /** Short tap answers; may be empty. */
+  options: string[];
+}
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
 export interface MealGroup {
   id: string;
   label: string;
   createdAt: Date;
+  /** Set when the user named the meal ("for breakfast ..."). */
+  mealType?: MealType;
   transcriptSnippet?: string;
+  /** Starred in the recent & favorites picker. */
+  isFavorite?: boolean;
   isLoading?: boolean;
 }
 
+/** One drink in the hydration log (water_logs); counted toward NutritionGoals.water, not toward food totals. */
+export interface WaterEntry {
+  id: string;
+  volumeMl: number;
+  /** What was drunk when logged by voice or text ("water", "agua com gas"); absent for quick-adds. */
+  drink?: string;
+  timestamp: Date;
+}
+
+export interface UserSettings {
+  /** Show AI-detected foods as an editable draft instead of saving them right away. */
+  reviewBeforeSave: boolean;
+}
+
 export interface DailyStats {
   totalCalories: number;
   totalProtein: number;
   totalCarbs: number;
   totalFat: number;
   totalFiber: number;
+  totalSodium: number;
+  totalAddedSugar: number;
+  totalSaturatedFat: number;
+  micronutrients: Micronutrients;
 }
 
 export interface NutritionGoals {
@@ -34,4 +179,14 @@ export interface NutritionGoals {
   carbs?: number;
   fat?: number;
   fiber?: number;
+  /** Daily upper limits: staying under them is the goal. */
+  sodium?: number;
+  addedSugar?: number;
+  saturatedFat?: number;
+  /** Daily water target in ml. */
+  water?: number;
+  /** Daily micronutrient targets in canonical units; defaults come from the DRI table (lib/dri.ts). */
+  micronutrients?: MicronutrientGoals;
+  /** Age and sex the recommended micronutrient targets were taken for. */
+  driProfile?: DriProfile;
 }